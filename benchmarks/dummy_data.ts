@@ -76,26 +76,31 @@ function createSingleSample(id: number): LoCoMoSample {
     {
       question: "When and where is the marketing kickoff?",
       answer: "16 June 2025 at 2:00 PM in Conference Room B",
+      evidence: ["1_0", "1_1"],
       category: 1,
     },
     {
       question: "What will Alice bring to the kickoff?",
       answer: "Q2 analytics report",
+      evidence: ["1_2"],
       category: 1,
     },
     {
       question: "Why did Sarah get promoted?",
       answer: "For leading the Atlas project",
+      evidence: ["1_3", "1_4"],
       category: 2,
     },
     {
       question: "Where are the archive drives located?",
       answer: "Secure cabinet in the server room",
+      evidence: ["2_0", "2_1"],
       category: 1,
     },
     {
       question: "What time is the rescheduled client meeting?",
       answer: "27 June 2025 at 1:00 PM",
+      evidence: ["2_2", "2_4"],
       category: 3, // Temporal update
     },
   ];
@@ -4,6 +4,12 @@
 
 import { SimpleMem } from "../src/SimpleMem";
 import type { SimpleMemOptions } from "../src/SimpleMem";
+import {
+  fitLogisticFusion,
+  type FusionTrainingExample,
+  type LabelledQuery,
+} from "../src/utils/fusion";
+import type { Dialogue } from "../src/types/index";
 import type { LoCoMoSample, BenchmarkResult } from "./types";
 import { generateDummyData } from "./dummy_data";
 import {
@@ -49,14 +55,7 @@ export class LoCoMoTester {
     await memory.clear();
 
     // 1. Add Dialogues
-    const dialogues = Object.values(sample.conversation.sessions).flatMap(
-      (session) =>
-        session.turns.map((turn) => ({
-          speaker: turn.speaker,
-          content: turn.text,
-          timestamp: session.date_time,
-        })),
-    );
+    const dialogues = flattenTurns(sample).map(({ dialogue }) => dialogue);
 
     const startIngest = performance.now();
     await memory.addDialogues(dialogues);
@@ -116,6 +115,62 @@ export class LoCoMoTester {
     return results;
   }
 
+  /**
+   * Fit a logistic fusion model on the QA evidence of every sample.
+   * A memory unit counts as relevant to a question when it was extracted
+   * from one of the question's evidence turns.
+   */
+  async fitFusion(options: {
+    datasetPath?: string;
+    limit?: number;
+    outputFile?: string;
+  }): Promise<void> {
+    const samples = await this.loadDataset(options.datasetPath, options.limit);
+    const examples: FusionTrainingExample[] = [];
+
+    for (const sample of samples) {
+      console.log(`\nCollecting fusion examples for ${sample.sample_id}...`);
+      const memory = new SimpleMem(this.memOptions);
+      await memory.clear();
+
+      const turns = flattenTurns(sample);
+      await memory.addDialogues(turns.map(({ dialogue }) => dialogue));
+      await memory.finalize();
+
+      // Dialogue IDs are assigned in insertion order from 0
+      const dialogueIdByTurn = new Map(turns.map(({ diaId }, i) => [diaId, i]));
+      const units = await memory.getAllMemories();
+      const queries: LabelledQuery[] = sample.qa
+        .filter((qa) => qa.category !== 5 && qa.evidence?.length)
+        .map((qa) => {
+          const evidence = new Set(
+            qa.evidence!.map((id) => dialogueIdByTurn.get(id)),
+          );
+          return {
+            query: qa.question,
+            relevantUnitIds: units
+              .filter((u) => u.sourceDialogueIds.some((id) => evidence.has(id)))
+              .map((u) => u.id),
+          };
+        });
+
+      const sampleExamples = await memory.fusionTrainingExamples(queries);
+      console.log(
+        `  ${queries.length} questions, ${sampleExamples.length} candidates`,
+      );
+      examples.push(...sampleExamples);
+    }
+
+    const model = fitLogisticFusion(examples);
+    console.log("\n--- Fitted Fusion Model ---");
+    console.log(JSON.stringify(model, null, 2));
+
+    if (options.outputFile) {
+      await fs.writeFile(options.outputFile, JSON.stringify(model, null, 2));
+      console.log(`\nModel saved to ${options.outputFile}`);
+    }
+  }
+
   async run(options: {
     datasetPath?: string;
     limit?: number;
@@ -160,3 +215,21 @@ export class LoCoMoTester {
     }
   }
 }
+
+/**
+ * All turns of a sample in session order, as dialogues for SimpleMem
+ */
+function flattenTurns(
+  sample: LoCoMoSample,
+): Array<{ diaId: string; dialogue: Omit<Dialogue, "id"> }> {
+  return Object.values(sample.conversation.sessions).flatMap((session) =>
+    session.turns.map((turn) => ({
+      diaId: turn.dia_id,
+      dialogue: {
+        speaker: turn.speaker,
+        content: turn.text,
+        timestamp: session.date_time,
+      },
+    })),
+  );
+}
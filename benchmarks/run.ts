@@ -15,6 +15,7 @@ async function main() {
       dataset: { type: "string", short: "d" },
       output: { type: "string", short: "o", default: "benchmark_results.json" },
       limit: { type: "string", short: "n" }, // Parse as string then int
+      "fit-fusion": { type: "boolean", default: false },
     },
   });
 
@@ -35,6 +36,15 @@ async function main() {
 
   const tester = new LoCoMoTester(memOptions);
 
+  if (values["fit-fusion"]) {
+    await tester.fitFusion({
+      datasetPath: values.dataset,
+      outputFile: values.output,
+      limit: values.limit ? parseInt(values.limit) : undefined,
+    });
+    return;
+  }
+
   await tester.run({
     datasetPath: values.dataset,
     outputFile: values.output,
@@ -0,0 +1,784 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import type {
+  LLMProvider,
+  EmbeddingProvider,
+  LLMCompletionOptions,
+  AbstractMemory,
+} from "./types/index";
+import { silentLogger } from "./types/index";
+import { MemoryStorage } from "./storage/memory";
+import { SimpleMem } from "./SimpleMem";
+import { CachedEmbeddings } from "./embeddings/cache";
+
+// =============================================================================
+// Mock Providers
+// =============================================================================
+
+class MockEmbeddingProvider implements EmbeddingProvider {
+  readonly dimensions = 8;
+  calls = 0;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls++;
+    return texts.map((text) => {
+      const vec = new Array(this.dimensions).fill(0);
+      for (let i = 0; i < text.length; i++) {
+        vec[i % this.dimensions] += text.charCodeAt(i) / 1000;
+      }
+      const norm = Math.sqrt(vec.reduce((s, v) => s + v * v, 0)) || 1;
+      return vec.map((v) => v / norm);
+    });
+  }
+}
+
+class MockLLMProvider implements LLMProvider {
+  async complete(
+    _prompt: string,
+    _options?: LLMCompletionOptions,
+  ): Promise<string> {
+    return "";
+  }
+
+  async completeJSON<T>(_prompt: string, schema: z.ZodType<T>): Promise<T> {
+    return schema.parse({});
+  }
+}
+
+function makeAbstract(sourceUnitIds: string[]): AbstractMemory {
+  return {
+    id: uuidv4(),
+    pattern: "Alice and Bob meet regularly",
+    sourceUnitIds,
+    frequency: sourceUnitIds.length,
+    firstOccurrence: "2025-06-01T00:00:00.000Z",
+    lastOccurrence: "2025-06-30T00:00:00.000Z",
+    entities: [],
+    isArchived: false,
+  };
+}
+
+// =============================================================================
+// Deletion and Editing
+// =============================================================================
+
+describe("SimpleMem forget / updateMemory", () => {
+  let storage: MemoryStorage;
+  let embeddings: MockEmbeddingProvider;
+  let mem: SimpleMem;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    embeddings = new MockEmbeddingProvider();
+    mem = new SimpleMem({
+      llm: new MockLLMProvider(),
+      embeddings,
+      storage,
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+  });
+
+  it("forget removes a unit from storage and search", async () => {
+    const unit = await mem.addFact("Alice lives in Berlin", {
+      persons: ["Alice"],
+    });
+    await mem.addFact("Bob likes tennis", { persons: ["Bob"] });
+
+    const events: string[][] = [];
+    mem.events.on("memory:units_forgotten", ({ unitIds }) =>
+      events.push(unitIds),
+    );
+
+    expect(await mem.forget(unit.id)).toBe(true);
+    expect(await storage.getUnit(unit.id)).toBeNull();
+    expect(mem.getStats().indexedUnits).toBe(1);
+
+    const results = await mem.search("Alice lives in Berlin");
+    expect(results.map((u) => u.id)).not.toContain(unit.id);
+    expect(events).toEqual([[unit.id]]);
+  });
+
+  it("forget returns false for unknown ids", async () => {
+    expect(await mem.forget("missing")).toBe(false);
+  });
+
+  it("forgetWhere deletes every matching unit", async () => {
+    await mem.addFact("Alice lives in Berlin", { persons: ["Alice"] });
+    await mem.addFact("Alice works at a bakery", { persons: ["Alice"] });
+    const bob = await mem.addFact("Bob likes tennis", { persons: ["Bob"] });
+
+    const removed = await mem.forgetWhere({ persons: ["Alice"] });
+
+    expect(removed).toHaveLength(2);
+    const remaining = await mem.getAllMemories();
+    expect(remaining.map((u) => u.id)).toEqual([bob.id]);
+  });
+
+  it("forget regenerates or deletes abstracts of the unit", async () => {
+    /** Writes a pattern from the units it is given */
+    class PatternLLMProvider extends MockLLMProvider {
+      async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+        const days = [...prompt.matchAll(/on (\w+day)/g)].map((m) => m[1]);
+        const pattern = `Alice meets Bob on ${days.join(", ")}`;
+        return schema.parse({ pattern });
+      }
+    }
+    mem = new SimpleMem({
+      llm: new PatternLLMProvider(),
+      embeddings,
+      storage,
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+
+    const a = await mem.addFact("Alice meets Bob on Monday");
+    const b = await mem.addFact("Alice meets Bob on Tuesday");
+    const c = await mem.addFact("Alice meets Bob on Friday");
+    const large = makeAbstract([a.id, b.id, c.id]);
+    const small = makeAbstract([a.id, b.id]);
+    await storage.saveAbstract(large);
+    await storage.saveAbstract(small);
+
+    let deleted: string[] = [];
+    mem.events.on("memory:units_forgotten", ({ deletedAbstractIds }) => {
+      deleted = deletedAbstractIds;
+    });
+
+    await mem.forget(a.id);
+
+    const abstracts = await storage.getAllAbstracts();
+    expect(abstracts).toHaveLength(1);
+    expect(abstracts[0].id).toBe(large.id);
+    expect(abstracts[0].sourceUnitIds).toEqual([b.id, c.id]);
+    expect(abstracts[0].pattern).toBe("Alice meets Bob on Tuesday, Friday");
+    expect(abstracts[0].embedding).toHaveLength(8);
+    expect(deleted).toEqual([small.id]);
+
+    const { usageByOperation } = mem.getStats();
+    expect(usageByOperation.forget).toMatchObject({
+      llmCalls: 1,
+      embeddingCalls: 1,
+    });
+    expect(usageByOperation.other).toBeUndefined();
+  });
+
+  it("updateMemory deletes abstracts it cannot regenerate", async () => {
+    const a = await mem.addFact("Alice meets Bob on Monday");
+    const b = await mem.addFact("Alice meets Bob on Tuesday");
+    const abstract = makeAbstract([a.id, b.id]);
+    await storage.saveAbstract(abstract);
+
+    await mem.updateMemory(a.id, { salience: "high" });
+    expect(await storage.getAllAbstracts()).toHaveLength(1);
+    expect((await mem.getContext(abstract.pattern)).abstracts).toHaveLength(1);
+
+    // The mock LLM returns no pattern
+    await mem.updateMemory(a.id, { content: "Alice meets Carol on Monday" });
+    expect(await storage.getAllAbstracts()).toHaveLength(0);
+    expect((await mem.getContext(abstract.pattern)).abstracts).toEqual([]);
+  });
+
+  it("forget restores units superseded by the forgotten unit", async () => {
+    const old = await mem.addFact("Alice lives in Berlin");
+    const replacement = await mem.addFact("Alice moved to Lisbon");
+    await storage.saveUnit({ ...old, supersededBy: replacement.id });
+
+    await mem.forget(replacement.id);
+
+    const restored = await storage.getUnit(old.id);
+    expect(restored?.supersededBy).toBeUndefined();
+  });
+
+  it("updateMemory re-embeds and re-indexes edited content", async () => {
+    const unit = await mem.addFact("Alice lives in Berlin");
+    const before = embeddings.calls;
+
+    let changed: string[] = [];
+    mem.events.on("memory:unit_updated", ({ changedFields }) => {
+      changed = changedFields;
+    });
+
+    const updated = await mem.updateMemory(unit.id, {
+      content: "Alice lives in Lisbon",
+      topic: "home",
+    });
+
+    expect(updated?.content).toBe("Alice lives in Lisbon");
+    expect(embeddings.calls).toBe(before + 1);
+    expect(updated?.embedding).not.toEqual(unit.embedding);
+    expect(changed).toEqual(["content", "topic"]);
+
+    const stored = await storage.getUnit(unit.id);
+    expect(stored?.topic).toBe("home");
+
+    const results = await mem.search("Lisbon", { limit: 1 });
+    expect(results[0].id).toBe(unit.id);
+  });
+
+  it("updateMemory does not re-embed unchanged content", async () => {
+    const unit = await mem.addFact("Alice lives in Berlin");
+    const before = embeddings.calls;
+
+    await mem.updateMemory(unit.id, { salience: "high" });
+    expect(embeddings.calls).toBe(before);
+  });
+
+  it("updateMemory clears fields patched with null", async () => {
+    const unit = await mem.addFact("Alice lives in Berlin", {
+      location: "Berlin",
+      topic: "home",
+    });
+
+    const updated = await mem.updateMemory(unit.id, {
+      location: null,
+      topic: undefined,
+    });
+
+    expect(updated?.location).toBeUndefined();
+    expect(updated?.topic).toBe("home");
+    const stored = await storage.getUnit(unit.id);
+    expect(stored).not.toHaveProperty("location");
+    expect(stored?.topic).toBe("home");
+  });
+
+  it("updateMemory returns null for unknown ids", async () => {
+    expect(await mem.updateMemory("missing", { topic: "x" })).toBeNull();
+  });
+});
+
+// =============================================================================
+// Entity Registry
+// =============================================================================
+
+describe("SimpleMem entities", () => {
+  let storage: MemoryStorage;
+  let mem: SimpleMem;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    mem = new SimpleMem({
+      llm: new MockLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      storage,
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+  });
+
+  it("resolves fact names against the registry", async () => {
+    await mem.addFact("Bob Smith plays tennis", { persons: ["Bob Smith"] });
+    const unit = await mem.addFact("Bob likes coffee", { persons: ["Bob"] });
+
+    expect(unit.persons).toEqual(["Bob Smith"]);
+    expect((await mem.getEntity("bob"))?.mentionCount).toBe(2);
+  });
+
+  it("mergeEntities rewrites stored and indexed memories", async () => {
+    await mem.addFact("Bob Smith plays tennis", { persons: ["Bob Smith"] });
+    const unit = await mem.addFact("Robert likes coffee", {
+      persons: ["Robert"],
+    });
+    const abstract = { ...makeAbstract([unit.id]), entities: ["Robert"] };
+    await storage.saveAbstract(abstract);
+
+    const events: string[][] = [];
+    mem.events.on("entity:merged", ({ mergedNames, updatedUnitIds }) =>
+      events.push([...mergedNames, ...updatedUnitIds]),
+    );
+
+    const merged = await mem.mergeEntities("Bob Smith", ["Robert"]);
+    expect(merged?.aliases).toEqual(["Robert"]);
+    expect((await storage.getUnit(unit.id))?.persons).toEqual(["Bob Smith"]);
+    expect((await storage.getAllAbstracts())[0].entities).toEqual([
+      "Bob Smith",
+    ]);
+    expect(events).toEqual([["Robert", unit.id]]);
+
+    const results = await mem.search("Robert likes coffee", {
+      filter: { persons: ["Bob Smith"] },
+    });
+    expect(results.find((u) => u.id === unit.id)?.persons).toEqual([
+      "Bob Smith",
+    ]);
+  });
+
+  it("renameEntity keeps the old name as an alias", async () => {
+    const unit = await mem.addFact("Bob plays tennis", { persons: ["Bob"] });
+
+    const renamed = await mem.renameEntity("Bob", "Robert Smith");
+    expect(renamed?.aliases).toEqual(["Bob"]);
+    expect((await storage.getUnit(unit.id))?.persons).toEqual([
+      "Robert Smith",
+    ]);
+
+    const next = await mem.addFact("Bob likes coffee", { persons: ["Bob"] });
+    expect(next.persons).toEqual(["Robert Smith"]);
+    expect(await mem.renameEntity("Nobody", "X")).toBeNull();
+  });
+
+  it("leaves names untouched when the registry is disabled", async () => {
+    const disabled = new SimpleMem({
+      llm: new MockLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      entities: { enabled: false },
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+    await disabled.addFact("Bob Smith plays tennis", { persons: ["Bob Smith"] });
+    const unit = await disabled.addFact("Bob likes coffee", {
+      persons: ["Bob"],
+    });
+
+    expect(unit.persons).toEqual(["Bob"]);
+    expect(await disabled.listEntities()).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Knowledge Graph
+// =============================================================================
+
+describe("SimpleMem knowledge graph", () => {
+  /** States the relation given for a fact's content in the graph prompt */
+  class GraphLLMProvider extends MockLLMProvider {
+    async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+      if (!prompt.includes("knowledge graph")) return schema.parse({});
+      return schema.parse({
+        relations: prompt.includes("Alice works at Acme")
+          ? [
+              {
+                unit: 1,
+                subject: "Alice",
+                predicate: "works at",
+                object: "Acme",
+              },
+            ]
+          : [],
+      });
+    }
+  }
+
+  let mem: SimpleMem;
+
+  beforeEach(() => {
+    mem = new SimpleMem({
+      llm: new GraphLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      graph: { enabled: true },
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+  });
+
+  it("extracts relations from new memories", async () => {
+    const extracted: number[] = [];
+    mem.events.on("graph:relations_extracted", ({ count }) =>
+      extracted.push(count),
+    );
+    const unit = await mem.addFact("Alice works at Acme", {
+      persons: ["Alice"],
+      entities: ["Acme"],
+    });
+
+    expect(extracted).toEqual([1]);
+    expect(await mem.getRelations({ subject: "alice" })).toMatchObject([
+      { predicate: "works_at", object: "Acme", sourceUnitIds: [unit.id] },
+    ]);
+    expect((await mem.getNeighbors("Acme")).map((n) => n.name)).toEqual([
+      "Alice",
+    ]);
+  });
+
+  it("keeps relations in step with forgotten and renamed entities", async () => {
+    const unit = await mem.addFact("Alice works at Acme", {
+      persons: ["Alice"],
+      entities: ["Acme"],
+    });
+
+    await mem.renameEntity("Acme", "Acme Corp");
+    expect((await mem.getRelations())[0].object).toBe("Acme Corp");
+
+    await mem.forget(unit.id);
+    expect(await mem.getRelations()).toEqual([]);
+  });
+
+  it("does not extract relations unless enabled", async () => {
+    const disabled = new SimpleMem({
+      llm: new GraphLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+    await disabled.addFact("Alice works at Acme", { persons: ["Alice"] });
+    expect(await disabled.getRelations()).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Dialogue Sessions
+// =============================================================================
+
+describe("SimpleMem dialogue sessions", () => {
+  /** Extracts one unit per window */
+  class ExtractingLLMProvider extends MockLLMProvider {
+    async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+      if (!prompt.includes("memory_units")) return schema.parse({});
+      return schema.parse({
+        memory_units: [{ content: "Alice plans a trip to Lisbon" }],
+      });
+    }
+  }
+
+  let storage: MemoryStorage;
+
+  function makeMem(sessionId?: string) {
+    return new SimpleMem({
+      llm: new ExtractingLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      storage,
+      sessionId,
+      compression: { windowSize: 2, overlapSize: 0, redundancyThreshold: 0 },
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+  }
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it("extracts windows again after their units failed to save", async () => {
+    const saveUnits = storage.saveUnits.bind(storage);
+    let failures = 1;
+    storage.saveUnits = async (units) => {
+      if (failures-- > 0) throw new Error("storage down");
+      return saveUnits(units);
+    };
+    const mem = new SimpleMem({
+      llm: new ExtractingLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      storage,
+      compression: { windowSize: 2, overlapSize: 0 },
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+
+    await expect(
+      mem.addDialogues([
+        { speaker: "Alice", content: "I plan a trip to Lisbon" },
+        { speaker: "Bob", content: "Sounds great" },
+      ]),
+    ).rejects.toThrow("storage down");
+    await mem.finalize();
+
+    expect((await storage.getAllUnits()).map((u) => u.content)).toEqual([
+      "Alice plans a trip to Lisbon",
+    ]);
+  });
+
+  it("continues dialogue IDs after a restart", async () => {
+    await makeMem().addDialogue("Alice", "Hi");
+    const restarted = makeMem();
+    await restarted.addDialogues([
+      { speaker: "Bob", content: "Hello" },
+      { speaker: "Alice", content: "Trip?", sessionId: "trip" },
+    ]);
+
+    expect((await restarted.getDialogues()).map((d) => d.id)).toEqual([0, 1]);
+    expect(await restarted.getDialogues("trip")).toMatchObject([
+      { id: 0, sessionId: "trip", content: "Trip?" },
+    ]);
+  });
+
+  it("uses explicit dialogue IDs and sessions", async () => {
+    const mem = makeMem("chat-1");
+    await mem.addDialogue("Alice", "First", undefined, { id: 10 });
+    await mem.addDialogue("Bob", "Second");
+
+    expect((await mem.getDialogues()).map((d) => d.id)).toEqual([10, 11]);
+  });
+
+  it("gives concurrent first turns of a session distinct IDs", async () => {
+    await makeMem().addDialogue("Alice", "Hi");
+    const restarted = makeMem();
+    await Promise.all([
+      restarted.addDialogue("Bob", "Hello"),
+      restarted.addDialogue("Alice", "How are you?"),
+    ]);
+
+    expect((await restarted.getDialogues()).map((d) => d.id)).toEqual([
+      0, 1, 2,
+    ]);
+  });
+
+  it("rejects explicit IDs of stored turns", async () => {
+    const mem = makeMem();
+    await mem.addDialogue("Alice", "First");
+
+    await expect(
+      mem.addDialogue("Bob", "Replacement", undefined, { id: 0 }),
+    ).rejects.toThrow('Dialogue 0 already exists in session "default"');
+    expect((await mem.getDialogues()).map((d) => d.content)).toEqual([
+      "First",
+    ]);
+  });
+
+  it("returns the original turns behind a memory", async () => {
+    const mem = makeMem("chat-1");
+    await mem.addDialogue("Alice", "I'm going to Lisbon");
+    await mem.addDialogue("Bob", "When?");
+
+    const [unit] = await mem.getAllMemories();
+    expect(unit.sourceDialogues).toEqual([
+      { sessionId: "chat-1", dialogueId: 0 },
+      { sessionId: "chat-1", dialogueId: 1 },
+    ]);
+    expect(
+      (await mem.getSourceDialogues(unit.id)).map((d) => d.content),
+    ).toEqual(["I'm going to Lisbon", "When?"]);
+    expect(await mem.getSourceDialogues("missing")).toEqual([]);
+  });
+
+  it("deletes the turns behind a forgotten memory", async () => {
+    const mem = makeMem("chat-1");
+    await mem.addDialogues([
+      { speaker: "Alice", content: "I'm going to Lisbon" },
+      { speaker: "Bob", content: "When?" },
+      { speaker: "Alice", content: "In May" },
+    ]);
+
+    const [unit] = await mem.getAllMemories();
+    await mem.forget(unit.id);
+
+    expect((await mem.getDialogues()).map((d) => d.id)).toEqual([2]);
+    expect(await mem.getSourceDialogues(unit.id)).toEqual([]);
+  });
+
+  it("does not skip turns that reuse IDs in another session", async () => {
+    const mem = makeMem();
+    await mem.addDialogues([
+      { speaker: "Alice", content: "One", sessionId: "a" },
+      { speaker: "Bob", content: "Two", sessionId: "a" },
+      { speaker: "Alice", content: "Three", sessionId: "b" },
+      { speaker: "Bob", content: "Four", sessionId: "b" },
+    ]);
+
+    expect(mem.getStats().processedDialogues).toBe(4);
+    expect(await mem.getMemoryCount()).toBe(2);
+  });
+
+  it("restores buffered turns after a restart", async () => {
+    await makeMem().addDialogue("Alice", "I'm going to Lisbon");
+    expect(await storage.getAllUnits()).toHaveLength(0);
+
+    const restarted = makeMem();
+    await restarted.addDialogue("Bob", "When?");
+
+    const [unit] = await restarted.getAllMemories();
+    expect(unit.sourceDialogueIds).toEqual([0, 1]);
+    expect(restarted.getStats().bufferedDialogues).toBe(0);
+
+    await restarted.addDialogue("Alice", "In May");
+    const resumed = makeMem();
+    await resumed.finalize();
+    expect(await resumed.getMemoryCount()).toBe(2);
+    expect((await storage.getCheckpoint())!.dialogueBuffer).toEqual([]);
+  });
+
+  it("extracts a partial window after the idle timeout", async () => {
+    const mem = new SimpleMem({
+      llm: new ExtractingLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      storage,
+      compression: {
+        windowSize: 10,
+        redundancyThreshold: 0,
+        idleTimeoutMs: 20,
+      },
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+    const reasons: string[] = [];
+    mem.events.on("memory:window_flushed", (e) => reasons.push(e.reason));
+
+    await mem.addDialogue("Alice", "I'm going to Lisbon");
+    expect(await mem.getMemoryCount()).toBe(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect(await mem.getMemoryCount()).toBe(1);
+    expect(reasons).toEqual(["idle"]);
+  });
+});
+
+// =============================================================================
+// Import
+// =============================================================================
+
+describe("SimpleMem import", () => {
+  const create = (storage: MemoryStorage, namespace?: string) =>
+    new SimpleMem({
+      llm: new MockLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      storage,
+      namespace,
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+
+  it("indexes imported units under the IDs they are stored with", async () => {
+    const shared = new MemoryStorage();
+    const alice = create(shared, "alice");
+    const unit = await alice.addFact("Alice lives in Berlin");
+
+    const bob = create(shared, "bob");
+    await bob.import(await alice.export());
+
+    const [found] = await bob.search("Alice lives in Berlin", { limit: 1 });
+    expect(found.id).not.toBe(unit.id);
+    expect(found.namespace).toBe("bob");
+    expect(await shared.getUnit(found.id)).toMatchObject({ namespace: "bob" });
+  });
+
+  it("keeps the units already stored searchable", async () => {
+    const storage = new MemoryStorage();
+    const unit = await create(storage).addFact("Alice lives in Berlin");
+
+    const mem = create(storage);
+    await mem.import(await create(new MemoryStorage()).export());
+
+    expect(mem.getStats().indexedUnits).toBe(1);
+    const [found] = await mem.search("Alice lives in Berlin", { limit: 1 });
+    expect(found.id).toBe(unit.id);
+  });
+});
+
+// =============================================================================
+// Provider Resilience
+// =============================================================================
+
+describe("SimpleMem provider resilience", () => {
+  it("retries rate-limited embedding calls and reports them", async () => {
+    const embeddings = new MockEmbeddingProvider();
+    const embed = embeddings.embed.bind(embeddings);
+    let failures = 1;
+    embeddings.embed = async (texts) => {
+      if (failures-- > 0) {
+        throw Object.assign(new Error("rate limited"), { status: 429 });
+      }
+      return embed(texts);
+    };
+
+    const mem = new SimpleMem({
+      llm: new MockLLMProvider(),
+      embeddings,
+      resilience: { embeddings: { baseDelayMs: 1 } },
+      logger: silentLogger,
+    });
+    const retries: string[] = [];
+    mem.events.on("provider:retrying", (e) => retries.push(e.provider));
+
+    await mem.addFact("Alice likes tea");
+    expect(retries).toEqual(["MockEmbeddingProvider"]);
+    expect((await mem.getAllMemories()).map((u) => u.content)).toEqual([
+      "Alice likes tea",
+    ]);
+  });
+
+  it("rejects embedding limits around a cached provider", () => {
+    expect(
+      () =>
+        new SimpleMem({
+          llm: new MockLLMProvider(),
+          embeddings: new CachedEmbeddings(new MockEmbeddingProvider()),
+          resilience: { embeddings: { requestsPerMinute: 60 } },
+        }),
+    ).toThrow("cannot wrap CachedEmbeddings");
+  });
+});
+
+// =============================================================================
+// Usage Accounting
+// =============================================================================
+
+describe("SimpleMem usage accounting", () => {
+  let mem: SimpleMem;
+
+  beforeEach(() => {
+    mem = new SimpleMem({
+      llm: new MockLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      namespace: "tenant-a",
+      prices: { "*": { input: 2 } },
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+  });
+
+  it("reports usage per operation on results, stats and events", async () => {
+    const recorded: Array<{ operation: string; namespace?: string }> = [];
+    mem.events.on("usage:recorded", ({ operation, namespace }) =>
+      recorded.push({ operation, namespace }),
+    );
+
+    await mem.addFact("Alice likes green tea");
+    const results = await mem.search("tea");
+    const { usage } = await mem.askWithSources("What does Alice like?");
+
+    expect(results.usage.embeddingCalls).toBeGreaterThan(0);
+    expect(results.usage.cost).toBeGreaterThan(0);
+    expect(Object.keys(results)).not.toContain("usage");
+    expect(usage!.llmCalls).toBeGreaterThan(0);
+    expect(usage!.promptTokens).toBeGreaterThan(0);
+
+    const stats = mem.getStats();
+    expect(Object.keys(stats.usageByOperation).sort()).toEqual([
+      "addFact",
+      "ask",
+      "search",
+    ]);
+    expect(stats.usage.llmCalls).toBe(usage!.llmCalls);
+    expect(recorded).toEqual([
+      { operation: "addFact", namespace: "tenant-a" },
+      { operation: "search", namespace: "tenant-a" },
+      { operation: "ask", namespace: "tenant-a" },
+    ]);
+
+    mem.resetUsage();
+    expect(mem.getStats().usage.llmCalls).toBe(0);
+  });
+
+  it("accounts scheduled flushes as their own operation", async () => {
+    const timed = new SimpleMem({
+      llm: new MockLLMProvider(),
+      embeddings: new MockEmbeddingProvider(),
+      compression: { windowSize: 10, idleTimeoutMs: 20 },
+      update: { enabled: false },
+      logger: silentLogger,
+    });
+    const recorded: string[] = [];
+    timed.events.on("usage:recorded", ({ operation }) =>
+      recorded.push(operation),
+    );
+
+    await timed.addDialogue("Alice", "I'm going to Lisbon");
+    await new Promise((resolve) => setTimeout(resolve, 80));
+
+    expect(recorded).toEqual(["addDialogue", "flush"]);
+    const { usageByOperation } = timed.getStats();
+    expect(Object.keys(usageByOperation)).toEqual(["flush"]);
+    expect(usageByOperation.flush.llmCalls).toBeGreaterThan(0);
+  });
+
+  it("attaches usage to the final streamed event", async () => {
+    const events = [];
+    for await (const event of mem.askStream("What does Alice like?")) {
+      events.push(event);
+    }
+
+    const done = events[events.length - 1];
+    expect(done.type).toBe("done");
+    expect(done.type === "done" && done.usage!.llmCalls).toBeGreaterThan(0);
+  });
+});
@@ -10,6 +10,8 @@
 import { v4 as uuidv4 } from "uuid";
 import type {
   Dialogue,
+  DialogueOptions,
+  DialogueRef,
   MemoryUnit,
   AbstractMemory,
   LLMProvider,
@@ -22,12 +24,31 @@ import type {
   TextMetadata,
   DocumentOptions,
   FactMetadata,
+  QueryAnalysis,
+  AskStreamEvent,
+  AnswerWithSources,
+  QueryFilter,
+  MemoryPatch,
+  Tokenizer,
+  Reranker,
+  Entity,
+  EntityType,
+  Relation,
+  SearchResults,
+  UsageStats,
+  ModelPrice,
 } from "./types/index.js";
 import { consoleLogger } from "./types/index.js";
+import type {
+  LabelledQuery,
+  FusionTrainingExample,
+} from "./utils/fusion.js";
 import { MemoryStorage } from "./storage/memory.js";
+import { NamespacedStorage } from "./storage/namespaced.js";
 import {
   MemoryBuilder,
   type CompressionConfig,
+  type WindowFlush,
   DEFAULT_COMPRESSION_CONFIG,
 } from "./stages/compression.js";
 import {
@@ -46,8 +67,36 @@ import {
   type AbstractionConfig,
   DEFAULT_ABSTRACTION_CONFIG,
 } from "./stages/abstraction.js";
+import {
+  MemoryUpdater,
+  type UpdateConfig,
+  DEFAULT_UPDATE_CONFIG,
+} from "./stages/update.js";
+import {
+  EntityRegistry,
+  type EntityConfig,
+  DEFAULT_ENTITY_CONFIG,
+} from "./stages/entities.js";
+import {
+  KnowledgeGraph,
+  type GraphConfig,
+  type RelationPattern,
+  type TraversalOptions,
+  type GraphNeighbor,
+  DEFAULT_GRAPH_CONFIG,
+} from "./stages/graph.js";
 import { now } from "./utils/temporal.js";
 import { chunkText } from "./utils/chunking.js";
+import type { ResilienceOptions } from "./utils/resilience.js";
+import { UsageTracker } from "./utils/usage.js";
+import { MeteredLLMProvider } from "./llm/metered.js";
+import { MeteredEmbeddings } from "./embeddings/metered.js";
+import {
+  ResilientLLMProvider,
+  type ResilientLLMProviderOptions,
+} from "./llm/resilient.js";
+import { ResilientEmbeddings } from "./embeddings/resilient.js";
+import { CachedEmbeddings } from "./embeddings/cache.js";
 import { SimpleMemEventEmitter } from "./events.js";
 
 // =============================================================================
@@ -70,6 +119,55 @@ export interface SimpleMemOptions {
    */
   storage?: StorageAdapter;
 
+  /**
+   * Tokenizer used to budget retrieval context and estimate usage. The
+   * default ApproximateTokenizer only estimates counts, so budgets are
+   * approximate; use BPETokenizer with the model's rank file for exact
+   * counts.
+   */
+  tokenizer?: Tokenizer;
+
+  /**
+   * Reranker applied to hybrid search results before they are cut to the
+   * retrieval depth (e.g. LLMReranker, CrossEncoderReranker)
+   */
+  reranker?: Reranker;
+
+  /**
+   * Rate limits, retries and circuit breaking for provider calls. The LLM
+   * and embedding providers are wrapped with the given policies, and their
+   * state changes are emitted as `provider:*` events.
+   *
+   * `embeddings` cannot be combined with a CachedEmbeddings provider, as
+   * cache hits would count against the limits; wrap the provider inside the
+   * cache with ResilientEmbeddings instead.
+   */
+  resilience?: {
+    llm?: ResilientLLMProviderOptions;
+    embeddings?: ResilienceOptions;
+  };
+
+  /**
+   * Model prices per million tokens for usage cost estimates, by model
+   * name; an entry named "*" prices models without their own entry
+   */
+  prices?: Record<string, ModelPrice>;
+
+  /**
+   * Tenant namespace. When set, search, consolidation, export and clear()
+   * only see memories in this namespace, so several instances can share
+   * one storage adapter.
+   */
+  namespace?: string;
+
+  /**
+   * Conversation that dialogues belong to unless addDialogue() names one.
+   * Dialogue IDs continue after the session's stored turns, so they stay
+   * unique across restarts.
+   * @default "default"
+   */
+  sessionId?: string;
+
   /**
    * Stage 1 configuration
    */
@@ -90,6 +188,21 @@ export interface SimpleMemOptions {
    */
   abstraction?: Partial<AbstractionConfig>;
 
+  /**
+   * Contradiction resolution configuration
+   */
+  update?: Partial<UpdateConfig>;
+
+  /**
+   * Entity registry configuration
+   */
+  entities?: Partial<EntityConfig>;
+
+  /**
+   * Knowledge-graph configuration (relation extraction is off by default)
+   */
+  graph?: Partial<GraphConfig>;
+
   /**
    * Logger instance (defaults to console logger)
    * Use `silentLogger` to suppress all output.
@@ -101,6 +214,9 @@ export interface SimpleMemOptions {
 // SimpleMem Class
 // =============================================================================
 
+/** Session for dialogues added without a session ID */
+const DEFAULT_SESSION_ID = "default";
+
 /**
  * SimpleMem - Main Memory System
  *
@@ -118,8 +234,21 @@ export class SimpleMem {
   private retriever: HybridRetriever;
   private generator: AnswerGenerator;
   private abstractionEngine: AbstractionEngine;
+  private updater: MemoryUpdater;
+  private entityRegistry: EntityRegistry;
+  private resolveEntities: boolean;
+  private knowledgeGraph: KnowledgeGraph;
+  private extractRelations: boolean;
   private logger: Logger;
-  private dialogueCounter = 0;
+  private namespace?: string;
+  private sessionId: string;
+  private usageTracker: UsageTracker;
+  /** Next dialogue ID per session, loaded from storage on first use */
+  private nextDialogueIds: Map<string, number> = new Map();
+  /** In-flight loads of nextDialogueIds, shared by concurrent callers */
+  private dialogueIdLoads: Map<string, Promise<void>> = new Map();
+  /** Timer for the builder's next time-based window flush */
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
   private initialized = false;
 
   /**
@@ -129,11 +258,76 @@ export class SimpleMem {
   public readonly events: SimpleMemEventEmitter;
 
   constructor(options: SimpleMemOptions) {
-    this.llm = options.llm;
-    this.embeddings = options.embeddings;
-    this.storage = options.storage ?? new MemoryStorage();
-    this.logger = options.logger ?? consoleLogger;
     this.events = new SimpleMemEventEmitter();
+    this.usageTracker = new UsageTracker({
+      prices: options.prices,
+      tokenizer: options.tokenizer,
+      onOperation: (operation, usage) =>
+        this.events.emit("usage:recorded", {
+          operation,
+          namespace: this.namespace,
+          usage,
+        }),
+    });
+
+    // Provider calls are metered around rate limiting and retries; the
+    // built-in LLM providers report each request they send
+    const { resilience } = options;
+    if (
+      resilience?.embeddings &&
+      options.embeddings instanceof CachedEmbeddings
+    ) {
+      throw new Error(
+        "resilience.embeddings cannot wrap CachedEmbeddings; wrap the " +
+          "provider inside the cache with ResilientEmbeddings instead",
+      );
+    }
+    this.llm = new MeteredLLMProvider(
+      resilience?.llm
+        ? new ResilientLLMProvider(options.llm, {
+            events: this.events,
+            ...resilience.llm,
+          })
+        : options.llm,
+      this.usageTracker,
+    );
+    this.embeddings = new MeteredEmbeddings(
+      resilience?.embeddings
+        ? new ResilientEmbeddings(options.embeddings, {
+            events: this.events,
+            ...resilience.embeddings,
+          })
+        : options.embeddings,
+      this.usageTracker,
+    );
+    this.namespace = options.namespace;
+    this.sessionId = options.sessionId ?? DEFAULT_SESSION_ID;
+    const storage = options.storage ?? new MemoryStorage();
+    this.storage =
+      this.namespace !== undefined
+        ? new NamespacedStorage(storage, this.namespace)
+        : storage;
+    this.logger = options.logger ?? consoleLogger;
+
+    // Canonical entity names, persisted through the storage adapter
+    this.entityRegistry = new EntityRegistry(
+      this.storage,
+      options.entities ?? DEFAULT_ENTITY_CONFIG,
+      this.logger,
+    );
+    this.resolveEntities =
+      options.entities?.enabled ?? DEFAULT_ENTITY_CONFIG.enabled;
+
+    // Relations between entities, extracted from new units when enabled
+    this.knowledgeGraph = new KnowledgeGraph(
+      this.llm,
+      this.storage,
+      options.graph ?? DEFAULT_GRAPH_CONFIG,
+      this.logger,
+      this.resolveEntities ? this.entityRegistry : null,
+    );
+    this.extractRelations =
+      options.graph?.enabled ?? DEFAULT_GRAPH_CONFIG.enabled;
 
     // Initialize Stage 1: Compression
     this.builder = new MemoryBuilder(
@@ -141,6 +335,7 @@ export class SimpleMem {
       this.embeddings,
       options.compression ?? DEFAULT_COMPRESSION_CONFIG,
       this.logger,
+      this.resolveEntities ? this.entityRegistry : null,
     );
 
     // Initialize Stage 2: Indexing
@@ -156,6 +351,9 @@ export class SimpleMem {
       options.retrieval ?? DEFAULT_RETRIEVAL_CONFIG,
       this.logger,
       this.storage,
+      options.tokenizer,
+      options.reranker,
+      this.extractRelations ? this.knowledgeGraph : null,
     );
 
     this.generator = new AnswerGenerator(this.llm, this.logger);
@@ -168,10 +366,18 @@ export class SimpleMem {
       options.abstraction ?? DEFAULT_ABSTRACTION_CONFIG,
       this.logger,
     );
+
+    // Initialize contradiction resolution (runs after extraction)
+    this.updater = new MemoryUpdater(
+      this.llm,
+      options.update ?? DEFAULT_UPDATE_CONFIG,
+      this.logger,
+    );
   }
 
   /**
-   * Initialize from storage (load existing memories)
+   * Initialize from storage (load existing memories and restore the
+   * dialogue buffer checkpointed by an earlier instance)
    */
   async initialize(): Promise<void> {
     if (this.initialized) return;
@@ -179,10 +385,15 @@ export class SimpleMem {
     const units = await this.storage.getAllUnits();
     if (units.length > 0) {
       await this.index.addUnits(units);
-      this.index.rebuildLexicalIndex();
+    }
+
+    const checkpoint = await this.storage.getCheckpoint();
+    if (checkpoint) {
+      this.builder.restore(checkpoint);
     }
 
     this.initialized = true;
+    this.scheduleFlush();
   }
 
   /**
@@ -191,66 +402,88 @@ export class SimpleMem {
    * @param speaker Speaker name
    * @param content Dialogue content
    * @param timestamp Timestamp (ISO 8601 format, defaults to now)
+   * @param options Session and turn ID (default to the instance session and
+   *   its next turn)
    */
   async addDialogue(
     speaker: string,
     content: string,
     timestamp?: string | Date,
+    options?: DialogueOptions,
   ): Promise<void> {
-    const dialogue: Dialogue = {
-      id: this.dialogueCounter++,
-      speaker,
-      content,
-      timestamp:
-        timestamp instanceof Date
-          ? timestamp.toISOString()
-          : (timestamp ?? now()),
-    };
-
-    this.builder.addDialogue(dialogue);
+    await this.initialize();
+    return this.tracked("addDialogue", async () => {
+      const dialogue = await this.createDialogue({
+        speaker,
+        content,
+        timestamp,
+        ...options,
+      });
+      await this.storage.saveDialogues([dialogue]);
+      const flush = this.builder.addDialogue(dialogue);
+      await this.saveCheckpoint();
 
-    // Process complete windows immediately
-    if (this.builder.hasFullWindow()) {
-      const units = await this.builder.processWindows();
-      await this.saveAndIndexUnits(units);
-    }
+      // Process flushed and complete windows immediately
+      await this.processReadyWindows(flush ? [flush] : []);
+    });
   }
 
   /**
    * Add multiple dialogues at once
    */
   async addDialogues(
-    dialogues: Array<{
-      speaker: string;
-      content: string;
-      timestamp?: string | Date;
-    }>,
+    dialogues: Array<
+      {
+        speaker: string;
+        content: string;
+        timestamp?: string | Date;
+      } & DialogueOptions
+    >,
   ): Promise<void> {
-    for (const d of dialogues) {
-      const dialogue: Dialogue = {
-        id: this.dialogueCounter++,
-        speaker: d.speaker,
-        content: d.content,
-        timestamp:
-          d.timestamp instanceof Date
-            ? d.timestamp.toISOString()
-            : (d.timestamp ?? now()),
-      };
-      this.builder.addDialogue(dialogue);
-    }
+    await this.initialize();
+    return this.tracked("addDialogues", async () => {
+      const batch: Dialogue[] = [];
+      for (const d of dialogues) {
+        batch.push(await this.createDialogue(d));
+      }
+      await this.storage.saveDialogues(batch);
+      const flushes = this.builder.addDialogues(batch);
+      await this.saveCheckpoint();
 
-    // Process all complete windows
-    const units = await this.builder.processWindows();
-    await this.saveAndIndexUnits(units);
+      // Process all flushed and complete windows
+      await this.processReadyWindows(flushes);
+    });
   }
 
   /**
    * Finalize dialogue input, process any remaining buffer
    */
   async finalize(): Promise<void> {
-    const units = await this.builder.processRemaining();
-    await this.saveAndIndexUnits(units);
-    this.index.rebuildLexicalIndex();
+    await this.initialize();
+    return this.tracked("finalize", async () => {
+      await this.builder.processRemaining((units) =>
+        this.saveAndIndexUnits(units),
+      );
+      await this.saveCheckpoint();
+      this.scheduleFlush();
+    });
+  }
+
+  /**
+   * Flush and extract the pending partial window if the compression
+   * `maxBufferAgeMs` or `idleTimeoutMs` has passed. This runs on a timer
+   * when either is set; call it directly where timers do not outlive a
+   * request.
+   *
+   * @returns Created memory units
+   */
+  async flushDue(): Promise<MemoryUnit[]> {
+    await this.initialize();
+    return this.tracked("flush", async () => {
+      const flush = this.builder.flushDue();
+      if (flush) await this.saveCheckpoint();
+      return this.processReadyWindows(flush ? [flush] : []);
+    });
   }
 
   /**
@@ -260,23 +493,106 @@ export class SimpleMem {
    * @returns Answer based on memory
    */
   async ask(question: string): Promise<string> {
+    const { answer } = await this.askWithSources(question);
+    return answer;
+  }
+
+  /**
+   * Ask a question and return the memories the answer cites
+   *
+   * @param question User question
+   * @returns Answer plus the IDs of the memory units and abstracts it relied on
+   */
+  async askWithSources(question: string): Promise<AnswerWithSources> {
+    const { result, usage } = await this.usageTracker.track("ask", () =>
+      this.answer(question),
+    );
+    return { ...result, usage };
+  }
+
+  private async answer(question: string): Promise<AnswerWithSources> {
     await this.initialize();
 
     // Stage 3: Adaptive retrieval
-    const context = await this.retriever.retrieve(question);
-    this.events.emit("retrieval:context_retrieved", {
+    const analysis = await this.retriever.plan(question);
+    if (analysis) this.emitQueryAnalyzed(question, analysis);
+
+    const context = await this.retriever.retrieve(question, analysis);
+    this.emitContextRetrieved(question, context);
+
+    // Generate answer
+    const result = await this.generator.generateWithSources(question, context);
+    this.events.emit("retrieval:answer_generated", {
       query: question,
-      unitCount: context.units.length,
-      abstractCount: context.abstracts.length,
+      answer: result.answer,
     });
+    return result;
+  }
 
-    // Generate answer
-    const answer = await this.generator.generate(question, context);
+  /**
+   * Ask a question and stream the answer
+   *
+   * Yields retrieval progress (query analysis, retrieved context), then
+   * answer text as it is generated, then the complete answer. Providers
+   * without stream() support deliver the answer as a single token event.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of mem.askStream("Where did Alice move?")) {
+   *   if (event.type === "token") process.stdout.write(event.text);
+   * }
+   * ```
+   *
+   * @param question User question
+   */
+  async *askStream(question: string): AsyncGenerator<AskStreamEvent> {
+    const events = this.usageTracker.trackIterable(
+      "ask",
+      this.streamAnswer(question),
+    );
+
+    // Hold the final event until the operation's usage is known
+    let done: Extract<AskStreamEvent, { type: "done" }> | undefined;
+    for (;;) {
+      const next = await events.next();
+      if (next.done) {
+        if (done) yield { ...done, usage: next.value };
+        return;
+      }
+      if (next.value.type === "done") done = next.value;
+      else yield next.value;
+    }
+  }
+
+  private async *streamAnswer(
+    question: string,
+  ): AsyncGenerator<AskStreamEvent> {
+    await this.initialize();
+
+    // Stage 3: Adaptive retrieval
+    const analysis = await this.retriever.plan(question);
+    if (analysis) {
+      this.emitQueryAnalyzed(question, analysis);
+      yield { type: "query_analyzed", analysis };
+    }
+
+    const context = await this.retriever.retrieve(question, analysis);
+    this.emitContextRetrieved(question, context);
+    yield { type: "context_retrieved", context };
+
+    // Stream answer
+    let answer = "";
+    for await (const text of this.generator.generateStream(question, context)) {
+      answer += text;
+      yield { type: "token", text };
+    }
+
+    answer = answer.trim();
     this.events.emit("retrieval:answer_generated", {
       query: question,
       answer,
     });
-    return answer;
+    yield { type: "done", answer };
   }
 
   /**
@@ -284,32 +600,57 @@ export class SimpleMem {
    *
    * @param query Search query
    * @param options Search options
-   * @returns Matching memory units
+   * @returns Matching memory units, with the search's provider usage
    */
-  async search(query: string, options?: SearchOptions): Promise<MemoryUnit[]> {
-    await this.initialize();
-
-    const results = await this.index.hybridSearch(
-      query,
-      options?.filter,
-      options?.limit,
+  async search(
+    query: string,
+    options?: SearchOptions,
+  ): Promise<SearchResults> {
+    const { result, usage } = await this.usageTracker.track(
+      "search",
+      async () => {
+        await this.initialize();
+        return this.retriever.search(
+          query,
+          options?.filter,
+          options?.limit,
+          options?.includeSuperseded,
+        );
+      },
     );
 
-    return results.map((r) => {
+    const units = result.map((r) => {
       const unit = { ...r.unit };
       if (!options?.includeEmbeddings) {
         delete unit.embedding;
       }
       return unit;
     });
+    return Object.defineProperty(units, "usage", {
+      value: usage,
+    }) as SearchResults;
+  }
+
+  /**
+   * Build training examples for a logistic fusion model from labelled
+   * queries. Fit with fitLogisticFusion() and pass the result as
+   * `indexing.fusionModel` with `fusion: "logistic"`.
+   */
+  async fusionTrainingExamples(
+    queries: LabelledQuery[],
+  ): Promise<FusionTrainingExample[]> {
+    await this.initialize();
+    return this.index.fusionTrainingExamples(queries);
   }
 
   /**
    * Retrieve context for a query (for custom answer generation)
    */
   async getContext(query: string): Promise<RetrievalContext> {
-    await this.initialize();
-    return this.retriever.retrieve(query);
+    return this.tracked("getContext", async () => {
+      await this.initialize();
+      return this.retriever.retrieve(query);
+    });
   }
 
   /**
@@ -324,12 +665,16 @@ export class SimpleMem {
     text: string,
     metadata?: TextMetadata,
   ): Promise<MemoryUnit[]> {
-    const units = await this.builder.processText(
-      text,
-      metadata?.timestamp ?? now(),
-    );
-    await this.saveAndIndexUnits(units);
-    return units;
+    await this.initialize();
+    return this.tracked("addText", async () => {
+      const units = await this.builder.processText(
+        text,
+        metadata?.timestamp ?? now(),
+      );
+      await this.saveAndIndexUnits(units);
+      await this.saveCheckpoint();
+      return units;
+    });
   }
 
   /**
@@ -343,21 +688,23 @@ export class SimpleMem {
     content: string,
     options?: DocumentOptions,
   ): Promise<MemoryUnit[]> {
-    const chunks = chunkText(
-      content,
-      options?.chunkSize ?? 2000,
-      options?.chunkOverlap ?? 200,
-    );
+    await this.initialize();
+    return this.tracked("addDocument", async () => {
+      const chunks = chunkText(
+        content,
+        options?.chunkSize ?? 2000,
+        options?.chunkOverlap ?? 200,
+      );
 
-    const allUnits: MemoryUnit[] = [];
-    for (const chunk of chunks) {
-      const units = await this.addText(chunk, {
-        source: options?.source,
-        timestamp: options?.timestamp,
-      });
-      allUnits.push(...units);
-    }
-    return allUnits;
+      // Chunks are extracted up to `compression.concurrency` at a time
+      const units = await this.builder.processTexts(
+        chunks,
+        options?.timestamp ?? now(),
+      );
+      await this.saveAndIndexUnits(units);
+      await this.saveCheckpoint();
+      return units;
+    });
   }
 
   /**
@@ -372,25 +719,31 @@ export class SimpleMem {
     content: string,
     metadata?: FactMetadata,
   ): Promise<MemoryUnit> {
-    const [embedding] = await this.embeddings.embed([content]);
-
-    const unit: MemoryUnit = {
-      id: uuidv4(),
-      content,
-      keywords: metadata?.keywords ?? content.toLowerCase().split(/\s+/).filter((w) => w.length > 2),
-      timestamp: metadata?.timestamp ?? now(),
-      location: metadata?.location,
-      persons: metadata?.persons ?? [],
-      entities: metadata?.entities ?? [],
-      topic: metadata?.topic,
-      salience: metadata?.salience ?? "medium",
-      embedding,
-      sourceDialogueIds: [],
-      createdAt: now(),
-    };
+    return this.tracked("addFact", async () => {
+      const [embedding] = await this.embeddings.embed([content]);
+
+      const unit: MemoryUnit = {
+        id: uuidv4(),
+        content,
+        keywords: metadata?.keywords ?? content.toLowerCase().split(/\s+/).filter((w) => w.length > 2),
+        timestamp: metadata?.timestamp ?? now(),
+        location: metadata?.location,
+        persons: metadata?.persons ?? [],
+        entities: metadata?.entities ?? [],
+        topic: metadata?.topic,
+        salience: metadata?.salience ?? "medium",
+        embedding,
+        sourceDialogueIds: [],
+        createdAt: now(),
+        namespace: this.namespace,
+      };
 
-    await this.saveAndIndexUnits([unit]);
-    return unit;
+      if (this.resolveEntities) {
+        await this.entityRegistry.resolveUnits([unit]);
+      }
+      await this.saveAndIndexUnits([unit]);
+      return unit;
+    });
   }
 
   /**
@@ -400,6 +753,157 @@ export class SimpleMem {
     return this.storage.getAllUnits();
   }
 
+  /**
+   * Get the raw dialogue turns of a session, in turn order
+   *
+   * @param sessionId Session ID (defaults to the instance session)
+   */
+  async getDialogues(sessionId = this.sessionId): Promise<Dialogue[]> {
+    return this.storage.getDialogues(sessionId);
+  }
+
+  /**
+   * Get the original dialogue turns a memory was extracted from. Facts and
+   * text input have no source turns.
+   *
+   * @param id Memory unit ID
+   */
+  async getSourceDialogues(id: string): Promise<Dialogue[]> {
+    const refs = (await this.storage.getUnit(id))?.sourceDialogues ?? [];
+
+    const sessions = new Map<string, Map<number, Dialogue>>();
+    for (const sessionId of new Set(refs.map((r) => r.sessionId))) {
+      const turns = await this.storage.getDialogues(sessionId);
+      sessions.set(sessionId, new Map(turns.map((d) => [d.id, d])));
+    }
+
+    return refs
+      .map((r) => sessions.get(r.sessionId)?.get(r.dialogueId))
+      .filter((d): d is Dialogue => d !== undefined);
+  }
+
+  /**
+   * Get the update history of a memory.
+   *
+   * Follows supersession links in both directions and returns every
+   * version of the fact, oldest first. The last entry is the current one.
+   */
+  async getMemoryHistory(id: string): Promise<MemoryUnit[]> {
+    const units = await this.storage.getAllUnits();
+    const byId = new Map(units.map((u) => [u.id, u]));
+    if (!byId.has(id)) return [];
+
+    const predecessors = new Map<string, MemoryUnit[]>();
+    for (const unit of units) {
+      if (!unit.supersededBy) continue;
+      const list = predecessors.get(unit.supersededBy) ?? [];
+      list.push(unit);
+      predecessors.set(unit.supersededBy, list);
+    }
+
+    const seen = new Set<string>();
+    const queue = [id];
+    const history: MemoryUnit[] = [];
+
+    while (queue.length > 0) {
+      const current = byId.get(queue.shift()!);
+      if (!current || seen.has(current.id)) continue;
+      seen.add(current.id);
+      history.push(current);
+
+      if (current.supersededBy) queue.push(current.supersededBy);
+      for (const prev of predecessors.get(current.id) ?? []) {
+        queue.push(prev.id);
+      }
+    }
+
+    const sortKey = (u: MemoryUnit) => u.timestamp ?? u.createdAt ?? "";
+    return history.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+  }
+
+  /**
+   * List registry entities, most mentioned first
+   *
+   * @param type Only list entities of this type
+   */
+  async listEntities(type?: EntityType): Promise<Entity[]> {
+    return this.entityRegistry.list(type);
+  }
+
+  /**
+   * Find an entity by canonical name or alias
+   */
+  async getEntity(name: string): Promise<Entity | null> {
+    return this.entityRegistry.get(name);
+  }
+
+  /**
+   * Rename an entity and rewrite the memories that mention it. The old
+   * name stays an alias, so future mentions still resolve.
+   *
+   * @returns The renamed entity, or null if `name` is unknown
+   */
+  async renameEntity(name: string, newName: string): Promise<Entity | null> {
+    const previousName = (await this.entityRegistry.get(name))?.name;
+    const entity = await this.entityRegistry.rename(name, newName);
+    if (!entity || previousName === undefined) return null;
+
+    const updatedUnitIds = await this.canonicalizeMemories();
+    this.events.emit("entity:renamed", {
+      entity,
+      previousName,
+      updatedUnitIds,
+    });
+    return entity;
+  }
+
+  /**
+   * Merge entities that refer to the same thing into `target` and rewrite
+   * the memories that mention them
+   *
+   * @returns The merged entity, or null if `target` is unknown
+   */
+  async mergeEntities(
+    target: string,
+    sources: string[],
+  ): Promise<Entity | null> {
+    const mergedNames: string[] = [];
+    for (const name of sources) {
+      const source = await this.entityRegistry.get(name);
+      if (source) mergedNames.push(source.name);
+    }
+
+    const entity = await this.entityRegistry.merge(target, sources);
+    if (!entity) return null;
+
+    const updatedUnitIds = await this.canonicalizeMemories();
+    this.events.emit("entity:merged", {
+      entity,
+      mergedNames: mergedNames.filter((n) => n !== entity.name),
+      updatedUnitIds,
+    });
+    return entity;
+  }
+
+  /**
+   * Knowledge-graph relations matching a triple pattern, e.g.
+   * `{ subject: "Alice", predicate: "owns" }`
+   */
+  async getRelations(pattern?: RelationPattern): Promise<Relation[]> {
+    return this.knowledgeGraph.query(pattern);
+  }
+
+  /**
+   * Entities related to `name` within `options.hops` relations, with the
+   * relations connecting them
+   */
+  async getNeighbors(
+    name: string,
+    options?: TraversalOptions,
+  ): Promise<GraphNeighbor[]> {
+    return this.knowledgeGraph.neighbors(name, options);
+  }
+
   /**
    * Get memory count
    */
@@ -415,15 +919,27 @@ export class SimpleMem {
     indexedUnits: number;
     bufferedDialogues: number;
     processedDialogues: number;
+    usage: UsageStats;
+    usageByOperation: Record<string, UsageStats>;
   } {
     const builderStats = this.builder.getStats();
     return {
       indexedUnits: this.index.size,
       bufferedDialogues: builderStats.bufferedDialogues,
       processedDialogues: builderStats.processedDialogues,
+      usage: this.usageTracker.totals(),
+      usageByOperation: this.usageTracker.byOperation(),
     };
   }
 
+  /**
+   * Reset the usage totals reported by getStats(), e.g. at the start of a
+   * billing period
+   */
+  resetUsage(): void {
+    this.usageTracker.reset();
+  }
+
   /**
    * Export all memory data
    */
@@ -435,10 +951,14 @@ export class SimpleMem {
    * Import memory data
    */
   async import(data: ExportData): Promise<void> {
-    await this.storage.import(data);
-    await this.index.addUnits(data.units);
-    this.index.rebuildLexicalIndex();
-    this.initialized = true;
+    await this.initialize();
+    // Index the units as stored: a namespaced storage stamps them and
+    // renames IDs that other tenants use
+    const units = await this.storage.import(data);
+    this.entityRegistry.reset();
+    this.knowledgeGraph.reset();
+    this.retriever.invalidateAbstracts();
+    await this.index.addUnits(units);
   }
 
   /**
@@ -446,8 +966,116 @@ export class SimpleMem {
    * Clusters similar memory units and generates abstract patterns.
    */
   async consolidate(): Promise<AbstractMemory[]> {
-    await this.initialize();
-    return this.abstractionEngine.consolidate();
+    return this.tracked("consolidate", async () => {
+      await this.initialize();
+      const abstracts = await this.abstractionEngine.consolidate();
+      this.retriever.invalidateAbstracts();
+      return abstracts;
+    });
+  }
+
+  /**
+   * Delete a memory unit from storage and every index.
+   *
+   * Abstract memories built from the unit are updated, and units it
+   * superseded become current again.
+   *
+   * @param id Memory unit ID
+   * @returns Whether the unit existed
+   */
+  async forget(id: string): Promise<boolean> {
+    return this.tracked("forget", async () => {
+      const removed = await this.forgetUnits([id]);
+      return removed.length > 0;
+    });
+  }
+
+  /**
+   * Delete every memory unit matching a filter
+   *
+   * @param filter Persons, entities, location, time range, etc.
+   * @returns IDs of the deleted units
+   */
+  async forgetWhere(filter: QueryFilter): Promise<string[]> {
+    return this.tracked("forgetWhere", async () => {
+      const units = await this.storage.queryUnits(filter);
+      return this.forgetUnits(units.map((u) => u.id));
+    });
+  }
+
+  /**
+   * Edit a memory unit. Changed content is re-embedded and re-indexed;
+   * keywords are only replaced when included in the patch. A `null`
+   * timestamp, location or topic clears it.
+   *
+   * @param id Memory unit ID
+   * @param patch Fields to change
+   * @returns The updated unit, or null if it does not exist
+   */
+  async updateMemory(
+    id: string,
+    patch: MemoryPatch,
+  ): Promise<MemoryUnit | null> {
+    return this.tracked("updateMemory", async () => {
+      await this.initialize();
+
+      const existing = await this.storage.getUnit(id);
+      if (!existing) return null;
+
+      const changedFields = (Object.keys(patch) as Array<keyof MemoryPatch>)
+        .filter((key) => patch[key] !== undefined);
+      const unit: MemoryUnit = { ...existing };
+      for (const key of changedFields) {
+        if (patch[key] === null) {
+          delete unit[key as "timestamp" | "location" | "topic"];
+        } else {
+          Object.assign(unit, { [key]: patch[key] });
+        }
+      }
+
+      // Edited names use the canonical form of known entities
+      if (this.resolveEntities) {
+        if (patch.persons) {
+          unit.persons = await this.entityRegistry.canonicalNames(
+            unit.persons,
+            "person",
+          );
+        }
+        if (patch.entities) {
+          unit.entities = await this.entityRegistry.canonicalNames(
+            unit.entities,
+            "other",
+          );
+        }
+      }
+
+      const reembedded =
+        patch.content !== undefined && patch.content !== existing.content;
+      if (reembedded) {
+        [unit.embedding] = await this.embeddings.embed([unit.content]);
+      }
+
+      await this.storage.saveUnit(unit);
+      this.index.removeUnit(id);
+      await this.index.addUnits([unit]);
+
+      // Abstracts and relations stated by the old content may no longer hold
+      if (reembedded) {
+        await this.abstractionEngine.refreshSourceUnits([id]);
+        this.retriever.invalidateAbstracts();
+      }
+      if (reembedded && this.extractRelations) {
+        await this.knowledgeGraph.removeSourceUnits([id]);
+        await this.extractGraphRelations([unit]);
+      }
+
+      this.events.emit("memory:unit_updated", {
+        unit,
+        changedFields,
+        reembedded,
+      });
+      return unit;
+    });
   }
 
   /**
@@ -457,18 +1085,111 @@ export class SimpleMem {
     await this.storage.clear();
     this.index.clear();
     this.builder.reset();
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
     this.abstractionEngine.reset();
-    this.dialogueCounter = 0;
+    this.entityRegistry.reset();
+    this.knowledgeGraph.reset();
+    this.retriever.invalidateAbstracts();
+    this.nextDialogueIds.clear();
+    this.dialogueIdLoads.clear();
     this.initialized = false;
     this.events.emit("storage:cleared", {});
   }
 
+  /**
+   * Run a public operation, accounting its provider usage
+   */
+  private async tracked<T>(
+    operation: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return (await this.usageTracker.track(operation, fn)).result;
+  }
+
+  /**
+   * Extract the builder's flushed and full windows, then re-arm the flush
+   * timer
+   */
+  private async processReadyWindows(
+    flushes: WindowFlush[],
+  ): Promise<MemoryUnit[]> {
+    for (const flush of flushes) {
+      this.events.emit("memory:window_flushed", flush);
+    }
+
+    let units: MemoryUnit[] = [];
+    if (this.builder.hasReadyWindows()) {
+      // Checkpoints keep the windows until their units are saved
+      units = await this.builder.processWindows((extracted) =>
+        this.saveAndIndexUnits(extracted),
+      );
+      await this.saveCheckpoint();
+    }
+    this.scheduleFlush();
+    return units;
+  }
+
+  /**
+   * Arm a timer for the builder's next time-based flush, replacing any
+   * earlier one
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+
+    const at = this.builder.nextFlushAt();
+    if (at === null) return;
+
+    // Armed outside the usage scope, so the flush counts as its own
+    // operation rather than the one that scheduled it
+    this.flushTimer = setTimeout(
+      this.usageTracker.detach(() => {
+        this.flushTimer = null;
+        this.flushDue().catch((error) => {
+          this.logger.warn("Scheduled window flush failed", error);
+          this.events.emit("error", {
+            stage: "compression",
+            error,
+            context: "scheduled window flush",
+          });
+        });
+      }),
+      Math.max(0, at - Date.now()),
+    );
+    // A pending flush should not keep the process alive
+    (this.flushTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Persist the builder's buffer and windowing state. Saved before windows
+   * are processed as well as after, and windows being extracted stay in
+   * it until their units are saved, so turns are replayed rather than lost
+   * if the process stops in between.
+   */
+  private async saveCheckpoint(): Promise<void> {
+    await this.storage.saveCheckpoint({
+      ...this.builder.checkpoint(),
+      namespace: this.namespace,
+    });
+  }
+
   /**
    * Save units to storage and add to index
    */
   private async saveAndIndexUnits(units: MemoryUnit[]): Promise<void> {
     if (units.length === 0) return;
 
+    // Load stored units first so new units are checked against them
+    await this.initialize();
+    const existingUnits = this.index.getAllUnits();
+
+    if (this.namespace !== undefined) {
+      for (const unit of units) {
+        unit.namespace = this.namespace;
+      }
+    }
+
     await this.storage.saveUnits(units);
     await this.index.addUnits(units);
 
@@ -478,10 +1199,30 @@ export class SimpleMem {
       count: units.length,
     });
 
+    if (this.extractRelations) {
+      await this.extractGraphRelations(units);
+    }
+
+    // Mark existing units contradicted by the new ones as superseded
+    const superseded = await this.updater.resolve(units, existingUnits);
+    if (superseded.length > 0) {
+      this.index.refreshVocabulary(superseded.map((s) => s.unit));
+      await this.storage.saveUnits(superseded.map((s) => s.unit));
+      this.events.emit("memory:units_superseded", {
+        updates: superseded.map((s) => ({
+          unitId: s.unit.id,
+          supersededBy: s.supersededBy,
+          reason: s.reason,
+        })),
+        count: superseded.length,
+      });
+    }
+
     // Trigger abstract memory consolidation if interval reached
     const abstracts = await this.abstractionEngine.maybeConsolidate(
       units.length,
     );
+    if (abstracts.length > 0) this.retriever.invalidateAbstracts();
     for (const abstract of abstracts) {
       this.events.emit("memory:abstract_created", {
         abstract,
@@ -489,6 +1230,212 @@ export class SimpleMem {
       });
     }
   }
+
+  /**
+   * Rewrite persons and entities of stored units and abstracts to their
+   * canonical registry names
+   *
+   * @returns IDs of the units that changed
+   */
+  private async canonicalizeMemories(): Promise<string[]> {
+    await this.initialize();
+
+    const changed: MemoryUnit[] = [];
+    for (const unit of await this.storage.getAllUnits()) {
+      const persons = await this.entityRegistry.canonicalNames(
+        unit.persons,
+        "person",
+      );
+      const entities = await this.entityRegistry.canonicalNames(
+        unit.entities,
+        "other",
+      );
+      if (
+        sameNames(persons, unit.persons) &&
+        sameNames(entities, unit.entities)
+      ) {
+        continue;
+      }
+      // Reuse indexed embeddings so rewriting names does not re-embed
+      const embedding =
+        unit.embedding ?? this.index.getUnit(unit.id)?.embedding;
+      changed.push({ ...unit, persons, entities, embedding });
+    }
+
+    if (changed.length > 0) {
+      await this.storage.saveUnits(changed);
+      for (const unit of changed) {
+        this.index.removeUnit(unit.id);
+      }
+      await this.index.addUnits(changed);
+    }
+
+    for (const abstract of await this.storage.getAllAbstracts()) {
+      const entities = await this.entityRegistry.canonicalNames(
+        abstract.entities,
+      );
+      if (!sameNames(entities, abstract.entities)) {
+        await this.storage.saveAbstract({ ...abstract, entities });
+        this.retriever.invalidateAbstracts();
+      }
+    }
+    await this.knowledgeGraph.canonicalize();
+
+    return changed.map((u) => u.id);
+  }
+
+  /**
+   * Delete units and repair everything that references them
+   */
+  private async forgetUnits(ids: string[]): Promise<string[]> {
+    await this.initialize();
+
+    const removed: string[] = [];
+    const turns: DialogueRef[] = [];
+    for (const id of ids) {
+      const unit = await this.storage.getUnit(id);
+      if (!unit) continue;
+      await this.storage.deleteUnit(id);
+      this.index.removeUnit(id);
+      removed.push(id);
+      turns.push(...(unit.sourceDialogues ?? []));
+    }
+    if (removed.length === 0) return [];
+
+    // The raw turns a forgotten memory came from go with it
+    if (turns.length > 0) {
+      await this.storage.deleteDialogues(turns);
+      this.builder.forgetDialogues(turns);
+      await this.saveCheckpoint();
+    }
+
+    // Units replaced by a forgotten unit are current again
+    const removedSet = new Set(removed);
+    const restored = (await this.storage.getAllUnits()).filter(
+      (u) => u.supersededBy !== undefined && removedSet.has(u.supersededBy),
+    );
+    for (const unit of restored) {
+      const indexed = this.index.getUnit(unit.id);
+      for (const target of indexed ? [unit, indexed] : [unit]) {
+        delete target.supersededBy;
+        delete target.supersededAt;
+      }
+    }
+    if (restored.length > 0) {
+      this.index.refreshVocabulary(restored);
+      await this.storage.saveUnits(restored);
+    }
+
+    const { updatedIds, deletedIds } =
+      await this.abstractionEngine.removeSourceUnits(removed);
+    this.retriever.invalidateAbstracts();
+    await this.knowledgeGraph.removeSourceUnits(removed);
+
+    this.events.emit("memory:units_forgotten", {
+      unitIds: removed,
+      count: removed.length,
+      updatedAbstractIds: updatedIds,
+      deletedAbstractIds: deletedIds,
+    });
+    return removed;
+  }
+
+  /**
+   * Build a dialogue, assigning the session and the next free turn ID.
+   * Explicit IDs of stored turns are rejected rather than overwritten.
+   */
+  private async createDialogue(input: {
+    speaker: string;
+    content: string;
+    timestamp?: string | Date;
+    sessionId?: string;
+    id?: number;
+  }): Promise<Dialogue> {
+    const sessionId = input.sessionId ?? this.sessionId;
+    await this.loadNextDialogueId(sessionId);
+
+    // Explicit IDs from the next free one on cannot be stored yet
+    if (
+      input.id !== undefined &&
+      input.id < this.nextDialogueIds.get(sessionId)! &&
+      (await this.storage.getDialogues(sessionId)).some(
+        (d) => d.id === input.id,
+      )
+    ) {
+      throw new Error(
+        `Dialogue ${input.id} already exists in session "${sessionId}"`,
+      );
+    }
+
+    // Read and advance without awaiting in between, so concurrent calls
+    // get distinct IDs
+    const next = this.nextDialogueIds.get(sessionId)!;
+    const id = input.id ?? next;
+    this.nextDialogueIds.set(sessionId, Math.max(next, id + 1));
+
+    return {
+      id,
+      sessionId,
+      speaker: input.speaker,
+      content: input.content,
+      timestamp:
+        input.timestamp instanceof Date
+          ? input.timestamp.toISOString()
+          : (input.timestamp ?? now()),
+    };
+  }
+
+  /**
+   * Load a session's next free dialogue ID from storage once, however many
+   * calls wait for it
+   */
+  private async loadNextDialogueId(sessionId: string): Promise<void> {
+    if (this.nextDialogueIds.has(sessionId)) return;
+
+    let load = this.dialogueIdLoads.get(sessionId);
+    if (!load) {
+      load = this.storage
+        .getDialogues(sessionId)
+        .then((stored) => {
+          this.nextDialogueIds.set(
+            sessionId,
+            stored.reduce((max, d) => Math.max(max, d.id + 1), 0),
+          );
+        })
+        .finally(() => this.dialogueIdLoads.delete(sessionId));
+      this.dialogueIdLoads.set(sessionId, load);
+    }
+    await load;
+  }
+
+  private async extractGraphRelations(units: MemoryUnit[]): Promise<void> {
+    const relations = await this.knowledgeGraph.extract(units);
+    if (relations.length > 0) {
+      this.events.emit("graph:relations_extracted", {
+        relations,
+        count: relations.length,
+      });
+    }
+  }
+
+  private emitQueryAnalyzed(query: string, analysis: QueryAnalysis): void {
+    this.events.emit("retrieval:query_analyzed", {
+      query,
+      complexity: analysis.complexity,
+    });
+  }
+
+  private emitContextRetrieved(query: string, context: RetrievalContext): void {
+    this.events.emit("retrieval:context_retrieved", {
+      query,
+      unitCount: context.units.length,
+      abstractCount: context.abstracts.length,
+    });
+  }
+}
+
+function sameNames(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((name, i) => name === b[i]);
 }
 
 // =============================================================================
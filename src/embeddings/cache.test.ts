@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { EmbeddingProvider } from "../types/index";
+import {
+  CachedEmbeddings,
+  FileEmbeddingCacheStore,
+  SQLiteEmbeddingCacheStore,
+} from "./cache";
+import { MeteredEmbeddings } from "./metered";
+import { LRUCache } from "../utils/lru";
+import { UsageTracker } from "../utils/usage";
+
+// =============================================================================
+// Mock Provider
+// =============================================================================
+
+class CountingEmbeddingProvider implements EmbeddingProvider {
+  readonly providerName = "mock";
+  embedded: string[] = [];
+
+  constructor(
+    readonly model = "mock-model",
+    readonly dimensions = 8,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map((text) => {
+      const vec = new Array(this.dimensions).fill(0);
+      for (let i = 0; i < text.length; i++) {
+        vec[i % this.dimensions] += text.charCodeAt(i) / 1000;
+      }
+      return vec;
+    });
+  }
+}
+
+// =============================================================================
+// LRUCache
+// =============================================================================
+
+describe("LRUCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+    expect(cache.size).toBe(2);
+  });
+});
+
+// =============================================================================
+// CachedEmbeddings
+// =============================================================================
+
+describe("CachedEmbeddings", () => {
+  let inner: CountingEmbeddingProvider;
+  let cached: CachedEmbeddings;
+
+  beforeEach(() => {
+    inner = new CountingEmbeddingProvider();
+    cached = new CachedEmbeddings(inner);
+  });
+
+  it("returns the same embeddings as the wrapped provider", async () => {
+    const expected = await new CountingEmbeddingProvider().embed(["a", "b"]);
+    expect(await cached.embed(["a", "b"])).toEqual(expected);
+    expect(cached.dimensions).toBe(8);
+  });
+
+  it("embeds each distinct text once", async () => {
+    await cached.embed(["alpha", "beta", "alpha"]);
+    await cached.embed(["beta", "gamma"]);
+
+    expect(inner.embedded).toEqual(["alpha", "beta", "gamma"]);
+    expect(cached.getStats()).toMatchObject({
+      hits: 2,
+      misses: 3,
+      memoryHits: 2,
+      storeHits: 0,
+      size: 3,
+    });
+    expect(cached.getStats().hitRate).toBeCloseTo(0.4);
+  });
+
+  it("keeps batch order when mixing hits and misses", async () => {
+    await cached.embed(["b"]);
+    const result = await cached.embed(["a", "b", "c"]);
+    const expected = await new CountingEmbeddingProvider().embed(["a", "b", "c"]);
+
+    expect(result).toEqual(expected);
+  });
+
+  it("evicts beyond maxEntries", async () => {
+    cached = new CachedEmbeddings(inner, { maxEntries: 1 });
+    await cached.embed(["a"]);
+    await cached.embed(["b"]);
+    await cached.embed(["a"]);
+
+    expect(inner.embedded).toEqual(["a", "b", "a"]);
+  });
+
+  it("does not share entries across models or dimensions", async () => {
+    const path = join(tmpdir(), `simplemem-cache-keys-${Date.now()}.json`);
+    const store = new FileEmbeddingCacheStore({ path });
+    const small = new CountingEmbeddingProvider("m", 4);
+    const large = new CountingEmbeddingProvider("m", 8);
+    const other = new CountingEmbeddingProvider("other", 4);
+
+    await new CachedEmbeddings(small, { store }).embed(["x"]);
+    await new CachedEmbeddings(large, { store }).embed(["x"]);
+    await new CachedEmbeddings(other, { store }).embed(["x"]);
+
+    expect([small, large, other].map((p) => p.embedded.length)).toEqual([1, 1, 1]);
+    await rm(path, { force: true });
+  });
+
+  it("resets stats and clears entries", async () => {
+    await cached.embed(["a", "a"]);
+    cached.resetStats();
+    await cached.clear();
+
+    expect(cached.getStats()).toMatchObject({ hits: 0, misses: 0, size: 0 });
+    await cached.embed(["a"]);
+    expect(inner.embedded).toEqual(["a", "a"]);
+  });
+});
+
+describe("MeteredEmbeddings", () => {
+  it("records only the texts a cache sends to its provider", async () => {
+    const tracker = new UsageTracker({ prices: { "*": { input: 1000 } } });
+    const inner = new CountingEmbeddingProvider();
+    const metered = new MeteredEmbeddings(
+      new CachedEmbeddings(inner),
+      tracker,
+    );
+
+    await metered.embed(["alpha", "beta"]);
+    await metered.embed(["alpha"]);
+    await metered.embed(["beta", "gamma"]);
+
+    expect(inner.embedded).toEqual(["alpha", "beta", "gamma"]);
+    expect(tracker.totals()).toMatchObject({
+      embeddingCalls: 2,
+      embeddingTokens: 3,
+    });
+  });
+
+  it("does not record failed calls", async () => {
+    const tracker = new UsageTracker();
+    const failing: EmbeddingProvider = {
+      dimensions: 8,
+      embed: async () => {
+        throw new Error("unavailable");
+      },
+    };
+
+    await expect(
+      new MeteredEmbeddings(failing, tracker).embed(["x"]),
+    ).rejects.toThrow("unavailable");
+    await expect(
+      new MeteredEmbeddings(new CachedEmbeddings(failing), tracker).embed([
+        "x",
+      ]),
+    ).rejects.toThrow("unavailable");
+    expect(tracker.totals().embeddingCalls).toBe(0);
+  });
+});
+
+// =============================================================================
+// Persistent Stores
+// =============================================================================
+
+describe("FileEmbeddingCacheStore", () => {
+  const filePath = join(tmpdir(), `simplemem-embedding-cache-${Date.now()}.json`);
+
+  afterEach(async () => {
+    await rm(filePath, { force: true });
+  });
+
+  it("serves embeddings across instances", async () => {
+    const first = new CountingEmbeddingProvider();
+    await new CachedEmbeddings(first, {
+      store: new FileEmbeddingCacheStore({ path: filePath }),
+    }).embed(["persisted"]);
+
+    const second = new CountingEmbeddingProvider();
+    const cached = new CachedEmbeddings(second, {
+      store: new FileEmbeddingCacheStore({ path: filePath }),
+    });
+    const [embedding] = await cached.embed(["persisted"]);
+
+    expect(second.embedded).toEqual([]);
+    expect(embedding).toHaveLength(8);
+    expect(cached.getStats()).toMatchObject({ hits: 1, storeHits: 1 });
+  });
+});
+
+const isBun = typeof globalThis !== "undefined" && "Bun" in globalThis;
+
+describe.skipIf(!isBun)("SQLiteEmbeddingCacheStore", () => {
+  it("stores and reads embeddings", async () => {
+    const store = new SQLiteEmbeddingCacheStore({ path: ":memory:" });
+    await store.setMany([
+      ["k1", [0.1, 0.2]],
+      ["k2", [0.3]],
+    ]);
+
+    const found = await store.getMany(["k1", "missing"]);
+    expect([...found.entries()]).toEqual([["k1", [0.1, 0.2]]]);
+
+    await store.clear();
+    expect((await store.getMany(["k1"])).size).toBe(0);
+    store.close();
+  });
+});
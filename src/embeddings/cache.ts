@@ -0,0 +1,353 @@
+/**
+ * Embedding Cache
+ *
+ * Wraps any EmbeddingProvider so identical text is embedded once. Entries
+ * live in an in-memory LRU and, optionally, a persistent store (JSON file or
+ * SQLite) that survives restarts. Keys combine provider, model, dimensions
+ * and a SHA-256 hash of the text, so switching models never returns stale
+ * vectors. Only texts sent to the wrapped provider are reported as usage.
+ */
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+  EmbeddingProvider,
+  EmbeddingCacheStore,
+} from "../types/index.js";
+import { LRUCache } from "../utils/lru.js";
+import { sha256Hex } from "../utils/hash.js";
+import { openSQLiteDatabase } from "../storage/sqlite.js";
+import { reportEmbeddingRequest } from "../utils/usage.js";
+
+// =============================================================================
+// Cached Embeddings
+// =============================================================================
+
+export interface CachedEmbeddingsOptions {
+  /**
+   * Maximum entries kept in memory
+   * @default 10000
+   */
+  maxEntries?: number;
+
+  /**
+   * Persistent store consulted on in-memory misses
+   */
+  store?: EmbeddingCacheStore;
+
+  /**
+   * Provider name used in cache keys
+   * @default provider.providerName ?? provider class name
+   */
+  providerName?: string;
+
+  /**
+   * Model used in cache keys
+   * @default provider.model ?? 'default'
+   */
+  model?: string;
+}
+
+export interface EmbeddingCacheStats {
+  /** Texts served from memory or the persistent store */
+  hits: number;
+  /** Texts sent to the wrapped provider */
+  misses: number;
+  /** Hits served from the in-memory LRU */
+  memoryHits: number;
+  /** Hits served from the persistent store */
+  storeHits: number;
+  /** hits / (hits + misses), 0 before any lookup */
+  hitRate: number;
+  /** Entries currently in memory */
+  size: number;
+}
+
+/**
+ * Caching wrapper for an EmbeddingProvider
+ */
+export class CachedEmbeddings implements EmbeddingProvider {
+  private inner: EmbeddingProvider;
+  private memory: LRUCache<string, number[]>;
+  private store?: EmbeddingCacheStore;
+  private keyPrefix: string;
+  private hits = 0;
+  private misses = 0;
+  private memoryHits = 0;
+  private storeHits = 0;
+
+  readonly providerName: string;
+  readonly model: string;
+
+  constructor(inner: EmbeddingProvider, options: CachedEmbeddingsOptions = {}) {
+    this.inner = inner;
+    this.memory = new LRUCache(options.maxEntries ?? 10000);
+    this.store = options.store;
+    this.providerName =
+      options.providerName ?? inner.providerName ?? inner.constructor.name;
+    this.model = options.model ?? inner.model ?? "default";
+    this.keyPrefix = `${this.providerName}:${this.model}`;
+  }
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const keys = await Promise.all(texts.map((t) => this.cacheKey(t)));
+    const found = new Map<string, number[]>();
+
+    // In-memory LRU
+    for (const key of new Set(keys)) {
+      const cached = this.memory.get(key);
+      if (cached) found.set(key, cached);
+    }
+
+    // Persistent store
+    let missing = [...new Set(keys)].filter((k) => !found.has(k));
+    const fromStore = new Set<string>();
+    if (this.store && missing.length > 0) {
+      const stored = await this.store.getMany(missing);
+      for (const [key, embedding] of stored) {
+        found.set(key, embedding);
+        fromStore.add(key);
+        this.memory.set(key, embedding);
+      }
+      missing = missing.filter((k) => !found.has(k));
+    }
+
+    // Wrapped provider, one request per distinct text
+    const computed = new Set<string>();
+    if (missing.length === 0) {
+      reportEmbeddingRequest({ texts: [], latencyMs: 0 });
+    } else {
+      const missingSet = new Set(missing);
+      const toEmbed: string[] = [];
+      const toEmbedKeys: string[] = [];
+      for (let i = 0; i < texts.length; i++) {
+        if (missingSet.delete(keys[i])) {
+          toEmbed.push(texts[i]);
+          toEmbedKeys.push(keys[i]);
+        }
+      }
+
+      const started = Date.now();
+      const embeddings = await this.inner.embed(toEmbed);
+      reportEmbeddingRequest({
+        texts: toEmbed,
+        latencyMs: Date.now() - started,
+      });
+      const entries: Array<[string, number[]]> = [];
+      for (let i = 0; i < toEmbedKeys.length; i++) {
+        found.set(toEmbedKeys[i], embeddings[i]);
+        computed.add(toEmbedKeys[i]);
+        this.memory.set(toEmbedKeys[i], embeddings[i]);
+        entries.push([toEmbedKeys[i], embeddings[i]]);
+      }
+      await this.store?.setMany(entries);
+    }
+
+    // Stats are per input text; repeats within a batch count as hits
+    for (const key of keys) {
+      if (computed.delete(key)) {
+        this.misses++;
+      } else {
+        this.hits++;
+        if (fromStore.delete(key)) this.storeHits++;
+        else this.memoryHits++;
+      }
+    }
+
+    return keys.map((key) => found.get(key)!);
+  }
+
+  /**
+   * Cache hit/miss statistics since creation or the last resetStats()
+   */
+  getStats(): EmbeddingCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      memoryHits: this.memoryHits,
+      storeHits: this.storeHits,
+      hitRate: total === 0 ? 0 : this.hits / total,
+      size: this.memory.size,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.memoryHits = 0;
+    this.storeHits = 0;
+  }
+
+  /**
+   * Remove all entries from memory and the persistent store
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await this.store?.clear();
+  }
+
+  private async cacheKey(text: string): Promise<string> {
+    return `${this.keyPrefix}:${this.dimensions}:${await sha256Hex(text)}`;
+  }
+}
+
+// =============================================================================
+// Persistent Stores
+// =============================================================================
+
+export interface FileEmbeddingCacheStoreOptions {
+  /**
+   * Path to the JSON cache file
+   */
+  path: string;
+}
+
+/**
+ * JSON file embedding cache store - portable, no native dependencies
+ */
+export class FileEmbeddingCacheStore implements EmbeddingCacheStore {
+  private entries: Map<string, number[]> = new Map();
+  private filePath: string;
+  private loaded = false;
+
+  constructor(options: FileEmbeddingCacheStoreOptions) {
+    this.filePath = options.path;
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, number[]>> {
+    await this.ensureLoaded();
+    const result = new Map<string, number[]>();
+    for (const key of keys) {
+      const embedding = this.entries.get(key);
+      if (embedding) result.set(key, embedding);
+    }
+    return result;
+  }
+
+  async setMany(entries: Array<[string, number[]]>): Promise<void> {
+    if (entries.length === 0) return;
+    await this.ensureLoaded();
+    for (const [key, embedding] of entries) {
+      this.entries.set(key, embedding);
+    }
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.loaded = true;
+    await this.persist();
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      const content = await readFile(this.filePath, "utf-8");
+      const data: { entries: Record<string, number[]> } = JSON.parse(content);
+      for (const [key, embedding] of Object.entries(data.entries)) {
+        this.entries.set(key, embedding);
+      }
+    } catch (error) {
+      // File doesn't exist yet - start with empty cache
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  private async persist(): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(
+      this.filePath,
+      JSON.stringify({ entries: Object.fromEntries(this.entries) }),
+      "utf-8",
+    );
+  }
+}
+
+export interface SQLiteEmbeddingCacheStoreOptions {
+  /**
+   * Path to the SQLite database file (may be shared with SQLiteStorage)
+   */
+  path: string;
+}
+
+/**
+ * SQLite embedding cache store with incremental writes
+ */
+export class SQLiteEmbeddingCacheStore implements EmbeddingCacheStore {
+  private db: any;
+  private initialized = false;
+  private dbPath: string;
+
+  constructor(options: SQLiteEmbeddingCacheStoreOptions) {
+    this.dbPath = options.path;
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, number[]>> {
+    await this.ensureInitialized();
+    const result = new Map<string, number[]>();
+    const stmt = this.db.prepare(
+      "SELECT embedding FROM embedding_cache WHERE key = ?",
+    );
+    for (const key of keys) {
+      const row = stmt.get(key);
+      if (row) result.set(key, JSON.parse(row.embedding));
+    }
+    return result;
+  }
+
+  async setMany(entries: Array<[string, number[]]>): Promise<void> {
+    if (entries.length === 0) return;
+    await this.ensureInitialized();
+    const stmt = this.db.prepare(
+      "INSERT OR REPLACE INTO embedding_cache (key, embedding) VALUES (?, ?)",
+    );
+    const insertAll = this.db.transaction(
+      (items: Array<[string, number[]]>) => {
+        for (const [key, embedding] of items) {
+          stmt.run(key, JSON.stringify(embedding));
+        }
+      },
+    );
+    insertAll(entries);
+  }
+
+  async clear(): Promise<void> {
+    await this.ensureInitialized();
+    this.db.exec("DELETE FROM embedding_cache");
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.initialized = false;
+    }
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (this.initialized) return;
+
+    this.db = await openSQLiteDatabase(this.dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        key TEXT PRIMARY KEY,
+        embedding TEXT NOT NULL
+      )
+    `);
+    this.initialized = true;
+  }
+}
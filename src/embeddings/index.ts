@@ -3,3 +3,6 @@
  */
 
 export * from "./openai.js";
+export * from "./cache.js";
+export * from "./resilient.js";
+export * from "./metered.js";
@@ -43,12 +43,14 @@ const KNOWN_DIMENSIONS: Record<string, number> = {
  */
 export class LocalEmbeddings implements EmbeddingProvider {
   private pipeline: any = null;
-  private model: string;
   private quantized: boolean;
   private cacheDir?: string;
   private _dimensions: number;
   private initialized = false;
 
+  readonly providerName = "local";
+  readonly model: string;
+
   constructor(options: LocalEmbeddingsOptions = {}) {
     this.model = options.model ?? "Xenova/all-MiniLM-L6-v2";
     this.quantized = options.quantized ?? true;
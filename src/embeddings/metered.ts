@@ -0,0 +1,73 @@
+/**
+ * Metered Embeddings
+ *
+ * Wraps any EmbeddingProvider and records each request in a UsageTracker:
+ * latency and input tokens estimated from the texts. Behind a
+ * CachedEmbeddings, only the texts the cache sent to its provider are
+ * recorded. Failed calls are not recorded.
+ */
+
+import type { EmbeddingProvider } from "../types/index.js";
+import type { UsageTracker } from "../utils/usage.js";
+
+/**
+ * Usage-recording wrapper for an EmbeddingProvider
+ */
+export class MeteredEmbeddings implements EmbeddingProvider {
+  private inner: EmbeddingProvider;
+  private tracker: UsageTracker;
+
+  readonly providerName: string;
+  readonly model?: string;
+
+  constructor(inner: EmbeddingProvider, tracker: UsageTracker) {
+    this.inner = inner;
+    this.tracker = tracker;
+    // Keep the wrapped provider's name so cache keys do not change
+    this.providerName = inner.providerName ?? inner.constructor.name;
+    this.model = inner.model;
+  }
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const started = Date.now();
+    let embedded = false;
+    return this.tracker.meter(
+      async () => {
+        const embeddings = await this.inner.embed(texts);
+        embedded = true;
+        return embeddings;
+      },
+      (_, requests) => {
+        // Requests reported by a cache replace the call itself
+        if (requests.length === 0) {
+          if (embedded) this.recordRequest(texts, Date.now() - started);
+          return;
+        }
+        for (const request of requests) {
+          if (request.texts.length > 0) {
+            this.recordRequest(request.texts, request.latencyMs);
+          }
+        }
+      },
+    );
+  }
+
+  private recordRequest(texts: string[], latencyMs: number): void {
+    this.tracker.record({
+      kind: "embedding",
+      model: this.model,
+      inputTokens: texts.reduce(
+        (sum, text) => sum + this.tracker.tokenizer.count(text),
+        0,
+      ),
+      completionTokens: 0,
+      latencyMs,
+    });
+  }
+}
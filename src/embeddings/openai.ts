@@ -36,9 +36,11 @@ export interface OpenAIEmbeddingsOptions {
  */
 export class OpenAIEmbeddings implements EmbeddingProvider {
   private client: OpenAI;
-  private model: string;
   private _dimensions: number;
 
+  readonly providerName = "openai";
+  readonly model: string;
+
   constructor(options: OpenAIEmbeddingsOptions) {
     this.client = new OpenAI({
       apiKey: options.apiKey,
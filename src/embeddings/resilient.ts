@@ -0,0 +1,49 @@
+/**
+ * Resilient Embeddings
+ *
+ * Wraps any EmbeddingProvider with rate limits, retries with backoff and a
+ * circuit breaker. Wrap the provider inside CachedEmbeddings so cache hits
+ * do not count against the limits.
+ */
+
+import type { EmbeddingProvider } from "../types/index.js";
+import {
+  ProviderGuard,
+  type ProviderGuardState,
+  type ResilienceOptions,
+} from "../utils/resilience.js";
+
+/**
+ * Rate-limited, retrying wrapper for an EmbeddingProvider
+ */
+export class ResilientEmbeddings implements EmbeddingProvider {
+  private inner: EmbeddingProvider;
+  private guard: ProviderGuard;
+
+  readonly providerName: string;
+  readonly model?: string;
+
+  constructor(inner: EmbeddingProvider, options: ResilienceOptions = {}) {
+    this.inner = inner;
+    // Keep the wrapped provider's name so cache keys do not change
+    this.providerName = inner.providerName ?? inner.constructor.name;
+    this.guard = new ProviderGuard(this.providerName, options);
+    this.model = inner.model;
+  }
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    return this.guard.run(texts, () => this.inner.embed(texts));
+  }
+
+  /**
+   * Circuit and rate-limit state
+   */
+  getState(): ProviderGuardState {
+    return this.guard.getState();
+  }
+}
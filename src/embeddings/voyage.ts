@@ -41,10 +41,11 @@ export interface VoyageEmbeddingsOptions {
  */
 export class VoyageEmbeddings implements MultimodalEmbeddingProvider {
   private apiKey: string;
-  private model: string;
   private _dimensions: number;
   private baseURL: string;
 
+  readonly providerName = "voyage";
+  readonly model: string;
   readonly supportsImages = true;
 
   constructor(options: VoyageEmbeddingsOptions) {
@@ -4,7 +4,14 @@
  * Cross-runtime compatible event emitter with no external dependencies.
  */
 
-import type { MemoryUnit, AbstractMemory } from "./types/index.js";
+import type {
+  MemoryUnit,
+  AbstractMemory,
+  Entity,
+  Relation,
+  UsageStats,
+  FlushReason,
+} from "./types/index.js";
 
 // =============================================================================
 // Event Type Definitions
@@ -13,6 +20,22 @@ import type { MemoryUnit, AbstractMemory } from "./types/index.js";
 export interface SimpleMemEvents {
   "memory:units_created": { units: MemoryUnit[]; count: number };
   "memory:units_indexed": { unitIds: string[]; count: number };
+  "memory:window_flushed": { reason: FlushReason; dialogueCount: number };
+  "memory:units_superseded": {
+    updates: Array<{ unitId: string; supersededBy: string; reason?: string }>;
+    count: number;
+  };
+  "memory:units_forgotten": {
+    unitIds: string[];
+    count: number;
+    updatedAbstractIds: string[];
+    deletedAbstractIds: string[];
+  };
+  "memory:unit_updated": {
+    unit: MemoryUnit;
+    changedFields: string[];
+    reembedded: boolean;
+  };
   "memory:abstract_created": {
     abstract: AbstractMemory;
     sourceCount: number;
@@ -21,6 +44,17 @@ export interface SimpleMemEvents {
     abstractsCreated: number;
     durationMs: number;
   };
+  "entity:renamed": {
+    entity: Entity;
+    previousName: string;
+    updatedUnitIds: string[];
+  };
+  "entity:merged": {
+    entity: Entity;
+    mergedNames: string[];
+    updatedUnitIds: string[];
+  };
+  "graph:relations_extracted": { relations: Relation[]; count: number };
   "retrieval:query_analyzed": { query: string; complexity: string };
   "retrieval:context_retrieved": {
     query: string;
@@ -28,6 +62,27 @@ export interface SimpleMemEvents {
     abstractCount: number;
   };
   "retrieval:answer_generated": { query: string; answer: string };
+  "provider:rate_limited": {
+    provider: string;
+    limit: "requests" | "tokens";
+    waitMs: number;
+  };
+  "provider:retrying": {
+    provider: string;
+    attempt: number;
+    delayMs: number;
+    error: Error;
+  };
+  "provider:circuit_changed": {
+    provider: string;
+    state: "closed" | "open" | "half_open";
+    consecutiveFailures: number;
+  };
+  "usage:recorded": {
+    operation: string;
+    namespace?: string;
+    usage: UsageStats;
+  };
   "storage:cleared": Record<string, never>;
   "error": { stage: string; error: Error; context?: string };
 }
@@ -27,6 +27,7 @@ export * from "./types/index.js";
 export { MemoryStorage } from "./storage/memory.js";
 export { FileStorage, type FileStorageOptions } from "./storage/file.js";
 export { SQLiteStorage, type SQLiteStorageOptions } from "./storage/sqlite.js";
+export { NamespacedStorage } from "./storage/namespaced.js";
 
 // Embedding providers
 export {
@@ -44,19 +45,73 @@ export {
   type VoyageEmbeddingsOptions,
 } from "./embeddings/voyage.js";
 
+export {
+  CachedEmbeddings,
+  FileEmbeddingCacheStore,
+  SQLiteEmbeddingCacheStore,
+  type CachedEmbeddingsOptions,
+  type EmbeddingCacheStats,
+  type FileEmbeddingCacheStoreOptions,
+  type SQLiteEmbeddingCacheStoreOptions,
+} from "./embeddings/cache.js";
+
+export { ResilientEmbeddings } from "./embeddings/resilient.js";
+export { MeteredEmbeddings } from "./embeddings/metered.js";
+
+// Vector indexes
+export { BruteForceIndex } from "./vector/brute-force.js";
+export { HNSWIndex, type HNSWOptions } from "./vector/hnsw.js";
+
 // LLM providers
 export { OpenAIProvider, type OpenAIProviderOptions } from "./llm/openai.js";
+export {
+  AnthropicProvider,
+  type AnthropicProviderOptions,
+} from "./llm/anthropic.js";
+export {
+  HTTPProvider,
+  type HTTPProviderOptions,
+  type HTTPCompletionRequest,
+  type HTTPRequestMapper,
+  type HTTPResponseMapper,
+} from "./llm/http.js";
+export {
+  completeStructured,
+  parseStructured,
+  extractJSON,
+  repairJSON,
+  zodToJSONSchema,
+  JSON_SYSTEM_PROMPT,
+  type StructuredOutputOptions,
+  type StructuredParseResult,
+} from "./llm/structured.js";
+export {
+  ResilientLLMProvider,
+  type ResilientLLMProviderOptions,
+} from "./llm/resilient.js";
+export { MeteredLLMProvider } from "./llm/metered.js";
+
+// Rerankers
+export { LLMReranker, type LLMRerankerOptions } from "./rerank/llm.js";
+export {
+  CrossEncoderReranker,
+  type CrossEncoderRerankerOptions,
+} from "./rerank/cross-encoder.js";
 
 // Stage components (for advanced usage)
 export {
   MemoryBuilder,
   type CompressionConfig,
+  type WindowFlush,
   DEFAULT_COMPRESSION_CONFIG,
 } from "./stages/compression.js";
 
 export {
   HybridIndex,
   type IndexingConfig,
+  type ScoringOptions,
+  type HybridQuery,
+  type SymbolicVocabulary,
   DEFAULT_INDEXING_CONFIG,
 } from "./stages/indexing.js";
 
@@ -73,6 +128,28 @@ export {
   DEFAULT_ABSTRACTION_CONFIG,
 } from "./stages/abstraction.js";
 
+export {
+  MemoryUpdater,
+  type UpdateConfig,
+  type SupersessionResult,
+  DEFAULT_UPDATE_CONFIG,
+} from "./stages/update.js";
+
+export {
+  EntityRegistry,
+  type EntityConfig,
+  DEFAULT_ENTITY_CONFIG,
+} from "./stages/entities.js";
+
+export {
+  KnowledgeGraph,
+  type GraphConfig,
+  type RelationPattern,
+  type TraversalOptions,
+  type GraphNeighbor,
+  DEFAULT_GRAPH_CONFIG,
+} from "./stages/graph.js";
+
 // Utilities
 export {
   detectRuntime,
@@ -90,6 +167,7 @@ export {
   computeDynamicK,
   computeHybridScore,
   type BM25Params,
+  type BM25Field,
 } from "./utils/similarity.js";
 
 export {
@@ -102,6 +180,62 @@ export {
   now,
 } from "./utils/temporal.js";
 
-export { matchesFilter } from "./utils/filter.js";
+export { matchesFilter, matchesNamespace } from "./utils/filter.js";
 
 export { chunkText } from "./utils/chunking.js";
+
+export { LRUCache } from "./utils/lru.js";
+
+export { sha256Hex } from "./utils/hash.js";
+
+export {
+  BPETokenizer,
+  ApproximateTokenizer,
+  defaultTokenizer,
+  CL100K_PATTERN,
+  type BPETokenizerOptions,
+} from "./utils/tokenizer.js";
+
+export {
+  fuseScores,
+  fusionFeatures,
+  logisticScore,
+  fitLogisticFusion,
+  type FusionStrategy,
+  type FusionCandidate,
+  type FusionFeatures,
+  type FusionOptions,
+  type LogisticFusionModel,
+  type LabelledQuery,
+  type FusionTrainingExample,
+  type FitLogisticFusionOptions,
+} from "./utils/fusion.js";
+
+export {
+  ProviderGuard,
+  TokenBucket,
+  isRetryableError,
+  errorStatus,
+  type ResilienceOptions,
+  type CircuitState,
+  type ProviderGuardState,
+} from "./utils/resilience.js";
+
+export {
+  UsageTracker,
+  emptyUsage,
+  reportLLMRequest,
+  reportEmbeddingRequest,
+  reportedRequest,
+  type UsageTrackerOptions,
+  type UsageRecord,
+  type LLMRequestReport,
+  type EmbeddingRequestReport,
+  type LLMRequestResult,
+} from "./utils/usage.js";
+
+export {
+  jaroWinkler,
+  nameSimilarity,
+  fuzzyMatchNames,
+} from "./utils/fuzzy.js";
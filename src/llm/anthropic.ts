@@ -0,0 +1,147 @@
+/**
+ * Anthropic-Compatible LLM Provider
+ *
+ * Works with the Anthropic Messages API or any endpoint that speaks the same
+ * protocol. Uses native fetch — no SDK dependency.
+ */
+
+import { z } from "zod";
+import type { LLMProvider, LLMCompletionOptions } from "../types/index.js";
+import { getFetch } from "../utils/runtime.js";
+import { reportedRequest, type LLMRequestResult } from "../utils/usage.js";
+import { completeStructured } from "./structured.js";
+
+export interface AnthropicProviderOptions {
+  /**
+   * API key for authentication (sent as `x-api-key`)
+   */
+  apiKey: string;
+
+  /**
+   * Base URL for the API
+   * @default 'https://api.anthropic.com/v1'
+   */
+  baseURL?: string;
+
+  /**
+   * Model to use for completions
+   * @default 'claude-3-5-haiku-latest'
+   */
+  model?: string;
+
+  /**
+   * Value of the `anthropic-version` header
+   * @default '2023-06-01'
+   */
+  apiVersion?: string;
+
+  /**
+   * Default temperature for completions
+   * @default 0.1
+   */
+  defaultTemperature?: number;
+
+  /**
+   * Default max tokens (required by the Messages API)
+   * @default 4096
+   */
+  defaultMaxTokens?: number;
+
+  /**
+   * Attempts for completeJSON(), re-prompting with validation errors
+   * @default 3
+   */
+  maxJSONAttempts?: number;
+
+  /**
+   * Extra headers sent with every request
+   */
+  headers?: Record<string, string>;
+}
+
+interface MessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Anthropic Messages API LLM provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  private apiKey: string;
+  private baseURL: string;
+  private apiVersion: string;
+  private defaultTemperature: number;
+  private defaultMaxTokens: number;
+  private maxJSONAttempts: number;
+  private headers: Record<string, string>;
+  readonly model: string;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.baseURL = options.baseURL ?? "https://api.anthropic.com/v1";
+    this.model = options.model ?? "claude-3-5-haiku-latest";
+    this.apiVersion = options.apiVersion ?? "2023-06-01";
+    this.defaultTemperature = options.defaultTemperature ?? 0.1;
+    this.defaultMaxTokens = options.defaultMaxTokens ?? 4096;
+    this.maxJSONAttempts = options.maxJSONAttempts ?? 3;
+    this.headers = options.headers ?? {};
+  }
+
+  async complete(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): Promise<string> {
+    return reportedRequest(prompt, options, () =>
+      this.send(prompt, options),
+    );
+  }
+
+  async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+    return completeStructured(this, prompt, schema, {
+      maxAttempts: this.maxJSONAttempts,
+    });
+  }
+
+  /**
+   * Send one Messages API request
+   */
+  private async send(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): Promise<LLMRequestResult> {
+    const fetchFn = getFetch();
+    const response = await fetchFn(`${this.baseURL}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": this.apiVersion,
+        ...this.headers,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: options?.maxTokens ?? this.defaultMaxTokens,
+        temperature: options?.temperature ?? this.defaultTemperature,
+        ...(options?.systemPrompt ? { system: options.systemPrompt } : {}),
+        messages: [{ role: "user", content: prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Anthropic API error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json()) as MessagesResponse;
+
+    return {
+      text: (data.content ?? [])
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join(""),
+      promptTokens: data.usage?.input_tokens,
+      completionTokens: data.usage?.output_tokens,
+    };
+  }
+}
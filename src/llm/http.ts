@@ -0,0 +1,173 @@
+/**
+ * Generic HTTP LLM Provider
+ *
+ * Talks to any JSON-over-HTTP inference server (self-hosted models, internal
+ * gateways) through user-supplied request and response mappers.
+ * Uses native fetch — no SDK dependency.
+ */
+
+import { z } from "zod";
+import type {
+  LLMProvider,
+  LLMCompletionOptions,
+  ResponseSchema,
+} from "../types/index.js";
+import { getFetch } from "../utils/runtime.js";
+import { reportedRequest } from "../utils/usage.js";
+import { completeStructured } from "./structured.js";
+
+/**
+ * Completion request passed to the request mapper
+ */
+export interface HTTPCompletionRequest {
+  prompt: string;
+  systemPrompt?: string;
+  temperature: number;
+  maxTokens: number;
+  /** Set for completeJSON() when `supportsJSONSchema` is enabled */
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * Build the JSON request body for a completion
+ */
+export type HTTPRequestMapper = (request: HTTPCompletionRequest) => unknown;
+
+/**
+ * Extract the completion text from the parsed JSON response body
+ */
+export type HTTPResponseMapper = (body: unknown) => string;
+
+export interface HTTPProviderOptions {
+  /**
+   * Completion endpoint URL
+   */
+  url: string;
+
+  /**
+   * Headers sent with every request (e.g. Authorization)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Maps a completion request to the request body.
+   * Defaults to `{ prompt, system, temperature, max_tokens, json_schema }`.
+   */
+  mapRequest?: HTTPRequestMapper;
+
+  /**
+   * Maps the response body to completion text.
+   * Defaults to reading a string `text` field.
+   */
+  mapResponse?: HTTPResponseMapper;
+
+  /**
+   * Default temperature for completions
+   * @default 0.1
+   */
+  defaultTemperature?: number;
+
+  /**
+   * Default max tokens
+   * @default 4096
+   */
+  defaultMaxTokens?: number;
+
+  /**
+   * Attempts for completeJSON(), re-prompting with validation errors
+   * @default 3
+   */
+  maxJSONAttempts?: number;
+
+  /**
+   * Whether the server accepts a JSON schema for structured output.
+   * When enabled, `responseSchema` is passed to the request mapper.
+   * @default false
+   */
+  supportsJSONSchema?: boolean;
+}
+
+const defaultRequestMapper: HTTPRequestMapper = (request) => ({
+  prompt: request.prompt,
+  system: request.systemPrompt,
+  temperature: request.temperature,
+  max_tokens: request.maxTokens,
+  json_schema: request.responseSchema?.schema,
+});
+
+const defaultResponseMapper: HTTPResponseMapper = (body) => {
+  const text = (body as { text?: unknown } | null)?.text;
+  if (typeof text !== "string") {
+    throw new Error(
+      "HTTP provider response has no string 'text' field; configure mapResponse",
+    );
+  }
+  return text;
+};
+
+/**
+ * Configurable HTTP LLM provider
+ */
+export class HTTPProvider implements LLMProvider {
+  private url: string;
+  private headers: Record<string, string>;
+  private mapRequest: HTTPRequestMapper;
+  private mapResponse: HTTPResponseMapper;
+  private defaultTemperature: number;
+  private defaultMaxTokens: number;
+  private maxJSONAttempts: number;
+  readonly supportsJSONSchema: boolean;
+
+  constructor(options: HTTPProviderOptions) {
+    this.url = options.url;
+    this.headers = options.headers ?? {};
+    this.mapRequest = options.mapRequest ?? defaultRequestMapper;
+    this.mapResponse = options.mapResponse ?? defaultResponseMapper;
+    this.defaultTemperature = options.defaultTemperature ?? 0.1;
+    this.defaultMaxTokens = options.defaultMaxTokens ?? 4096;
+    this.maxJSONAttempts = options.maxJSONAttempts ?? 3;
+    this.supportsJSONSchema = options.supportsJSONSchema ?? false;
+  }
+
+  async complete(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): Promise<string> {
+    const body = this.mapRequest({
+      prompt,
+      systemPrompt: options?.systemPrompt,
+      temperature: options?.temperature ?? this.defaultTemperature,
+      maxTokens: options?.maxTokens ?? this.defaultMaxTokens,
+      responseSchema: this.supportsJSONSchema
+        ? options?.responseSchema
+        : undefined,
+    });
+
+    return reportedRequest(prompt, options, async () => {
+      const fetchFn = getFetch();
+      const response = await fetchFn(this.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.headers,
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `HTTP provider error (${response.status}): ${errorText}`,
+        );
+      }
+
+      return { text: this.mapResponse(await response.json()) };
+    });
+  }
+
+  async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+    return completeStructured(this, prompt, schema, {
+      maxAttempts: this.maxJSONAttempts,
+    });
+  }
+}
@@ -3,3 +3,8 @@
  */
 
 export * from "./openai.js";
+export * from "./anthropic.js";
+export * from "./http.js";
+export * from "./structured.js";
+export * from "./resilient.js";
+export * from "./metered.js";
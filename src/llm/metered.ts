@@ -0,0 +1,132 @@
+/**
+ * Metered LLM Provider
+ *
+ * Wraps any LLMProvider and records its calls in a UsageTracker. Requests
+ * the provider reports with reportLLMRequest() are recorded one by one,
+ * with the token counts the API returned where it did. Calls of providers
+ * that report nothing, and streams, are recorded as one request with
+ * tokens estimated from the text sent and received.
+ */
+
+import { z } from "zod";
+import type { LLMProvider, LLMCompletionOptions } from "../types/index.js";
+import type { LLMRequestReport, UsageTracker } from "../utils/usage.js";
+
+/**
+ * Usage-recording wrapper for an LLMProvider
+ */
+export class MeteredLLMProvider implements LLMProvider {
+  private inner: LLMProvider;
+  private tracker: UsageTracker;
+
+  readonly model?: string;
+  readonly supportsJSONSchema?: boolean;
+  readonly stream?: (
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ) => AsyncIterable<string>;
+
+  constructor(inner: LLMProvider, tracker: UsageTracker) {
+    this.inner = inner;
+    this.tracker = tracker;
+    this.model = inner.model;
+    this.supportsJSONSchema = inner.supportsJSONSchema;
+    if (inner.stream) {
+      this.stream = (prompt, options) => this.meterStream(prompt, options);
+    }
+  }
+
+  async complete(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): Promise<string> {
+    const started = Date.now();
+    let text = "";
+    return this.tracker.meter(
+      async () => {
+        text = await this.inner.complete(prompt, options);
+        return text;
+      },
+      (requests) =>
+        this.recordRequests(requests, () =>
+          this.recordCall(prompt, options, text, started),
+        ),
+    );
+  }
+
+  async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+    const started = Date.now();
+    let text = "";
+    return this.tracker.meter(
+      async () => {
+        const result = await this.inner.completeJSON(prompt, schema);
+        text = JSON.stringify(result);
+        return result;
+      },
+      (requests) =>
+        this.recordRequests(requests, () =>
+          this.recordCall(prompt, undefined, text, started),
+        ),
+    );
+  }
+
+  private async *meterStream(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): AsyncIterable<string> {
+    const started = Date.now();
+    let text = "";
+    try {
+      for await (const chunk of this.inner.stream!(prompt, options)) {
+        text += chunk;
+        yield chunk;
+      }
+    } finally {
+      this.recordCall(prompt, options, text, started);
+    }
+  }
+
+  /**
+   * Record reported requests, or fall back to estimating the whole call
+   */
+  private recordRequests(
+    requests: LLMRequestReport[],
+    fallback: () => void,
+  ): void {
+    if (requests.length === 0) return fallback();
+
+    const { tokenizer } = this.tracker;
+    for (const request of requests) {
+      this.tracker.record({
+        kind: "llm",
+        model: this.model,
+        inputTokens: request.promptTokens ?? tokenizer.count(request.input),
+        completionTokens:
+          request.completionTokens ??
+          (request.output ? tokenizer.count(request.output) : 0),
+        latencyMs: request.latencyMs,
+      });
+    }
+  }
+
+  /**
+   * Failed calls are recorded with their prompt but no completion
+   */
+  private recordCall(
+    prompt: string,
+    options: LLMCompletionOptions | undefined,
+    completion: string,
+    started: number,
+  ): void {
+    const { tokenizer } = this.tracker;
+    this.tracker.record({
+      kind: "llm",
+      model: this.model,
+      inputTokens:
+        tokenizer.count(prompt) +
+        (options?.systemPrompt ? tokenizer.count(options.systemPrompt) : 0),
+      completionTokens: completion ? tokenizer.count(completion) : 0,
+      latencyMs: Date.now() - started,
+    });
+  }
+}
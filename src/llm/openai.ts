@@ -7,6 +7,8 @@
 import OpenAI from "openai";
 import { z } from "zod";
 import type { LLMProvider, LLMCompletionOptions } from "../types/index.js";
+import { reportedRequest } from "../utils/usage.js";
+import { completeStructured } from "./structured.js";
 
 export interface OpenAIProviderOptions {
   /**
@@ -37,6 +39,20 @@ export interface OpenAIProviderOptions {
    * @default 4096
    */
   defaultMaxTokens?: number;
+
+  /**
+   * Attempts for completeJSON(), re-prompting with validation errors
+   * @default 3
+   */
+  maxJSONAttempts?: number;
+
+  /**
+   * Send JSON schemas as a native `json_schema` response format.
+   * Enabled by default for the OpenAI API; enable it for compatible
+   * endpoints that support structured outputs.
+   * @default true when baseURL is not set
+   */
+  structuredOutputs?: boolean;
 }
 
 /**
@@ -44,9 +60,11 @@ export interface OpenAIProviderOptions {
  */
 export class OpenAIProvider implements LLMProvider {
   private client: OpenAI;
-  private model: string;
   private defaultTemperature: number;
   private defaultMaxTokens: number;
+  private maxJSONAttempts: number;
+  readonly model: string;
+  readonly supportsJSONSchema: boolean;
 
   constructor(options: OpenAIProviderOptions) {
     this.client = new OpenAI({
@@ -56,51 +74,85 @@ export class OpenAIProvider implements LLMProvider {
     this.model = options.model ?? "gpt-4o-mini";
     this.defaultTemperature = options.defaultTemperature ?? 0.1;
     this.defaultMaxTokens = options.defaultMaxTokens ?? 4096;
+    this.maxJSONAttempts = options.maxJSONAttempts ?? 3;
+    this.supportsJSONSchema =
+      options.structuredOutputs ?? options.baseURL === undefined;
   }
 
   async complete(
     prompt: string,
     options?: LLMCompletionOptions,
   ): Promise<string> {
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-    if (options?.systemPrompt) {
-      messages.push({ role: "system", content: options.systemPrompt });
-    }
-    messages.push({ role: "user", content: prompt });
+    return reportedRequest(prompt, options, async () => {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: this.buildMessages(prompt, options),
+        temperature: options?.temperature ?? this.defaultTemperature,
+        max_tokens: options?.maxTokens ?? this.defaultMaxTokens,
+        ...this.buildResponseFormat(options),
+      });
+
+      return {
+        text: response.choices[0]?.message?.content ?? "",
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
+      };
+    });
+  }
 
-    const response = await this.client.chat.completions.create({
+  async *stream(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
       model: this.model,
-      messages,
+      messages: this.buildMessages(prompt, options),
       temperature: options?.temperature ?? this.defaultTemperature,
       max_tokens: options?.maxTokens ?? this.defaultMaxTokens,
+      stream: true,
     });
 
-    return response.choices[0]?.message?.content ?? "";
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
   }
 
-  async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
-    const systemPrompt = `You are a helpful assistant that responds only with valid JSON. Do not include any text outside of the JSON object. Do not wrap the response in markdown code blocks.`;
+  private buildResponseFormat(
+    options?: LLMCompletionOptions,
+  ): Pick<OpenAI.Chat.ChatCompletionCreateParams, "response_format"> {
+    if (!this.supportsJSONSchema || !options?.responseSchema) return {};
+
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: options.responseSchema.name,
+          schema: options.responseSchema.schema,
+          // Strict mode requires every property to be required
+          strict: false,
+        },
+      },
+    };
+  }
 
-    const response = await this.complete(prompt, {
-      systemPrompt,
-      temperature: 0.1, // Lower temperature for structured output
-    });
+  private buildMessages(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
 
-    // Clean up response - remove markdown code blocks if present
-    let cleaned = response.trim();
-    if (cleaned.startsWith("```json")) {
-      cleaned = cleaned.slice(7);
-    } else if (cleaned.startsWith("```")) {
-      cleaned = cleaned.slice(3);
-    }
-    if (cleaned.endsWith("```")) {
-      cleaned = cleaned.slice(0, -3);
+    if (options?.systemPrompt) {
+      messages.push({ role: "system", content: options.systemPrompt });
     }
-    cleaned = cleaned.trim();
+    messages.push({ role: "user", content: prompt });
 
-    // Parse and validate
-    const parsed = JSON.parse(cleaned);
-    return schema.parse(parsed);
+    return messages;
+  }
+
+  async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+    return completeStructured(this, prompt, schema, {
+      maxAttempts: this.maxJSONAttempts,
+    });
   }
 }
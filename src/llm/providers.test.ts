@@ -0,0 +1,381 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import { AnthropicProvider } from "./anthropic";
+import { OpenAIProvider } from "./openai";
+import { HTTPProvider } from "./http";
+import { ResilientLLMProvider } from "./resilient";
+import { MeteredLLMProvider } from "./metered";
+import { UsageTracker } from "../utils/usage";
+
+// =============================================================================
+// Mock HTTP Server
+// =============================================================================
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+let server: Server;
+let baseURL: string;
+let requests: RecordedRequest[] = [];
+let reply: { status: number; body: unknown } = { status: 200, body: {} };
+/** Replies served once each, in order, before falling back to `reply` */
+let queued: Array<{ status: number; body: unknown }> = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      requests.push({
+        url: req.url ?? "",
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      const current = queued.shift() ?? reply;
+      res.writeHead(current.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(current.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  baseURL = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = { status: 200, body: {} };
+  queued = [];
+});
+
+// =============================================================================
+// AnthropicProvider
+// =============================================================================
+
+describe("AnthropicProvider", () => {
+  it("sends a Messages API request and joins text blocks", async () => {
+    reply.body = {
+      content: [
+        { type: "text", text: "Hello " },
+        { type: "tool_use", id: "x" },
+        { type: "text", text: "world" },
+      ],
+    };
+    const llm = new AnthropicProvider({
+      apiKey: "test-key",
+      baseURL,
+      model: "claude-test",
+    });
+
+    const text = await llm.complete("Hi", {
+      systemPrompt: "Be brief",
+      maxTokens: 100,
+    });
+
+    expect(text).toBe("Hello world");
+    const [req] = requests;
+    expect(req.url).toBe("/messages");
+    expect(req.headers["x-api-key"]).toBe("test-key");
+    expect(req.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(req.body).toMatchObject({
+      model: "claude-test",
+      max_tokens: 100,
+      system: "Be brief",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+  });
+
+  it("parses and validates JSON responses", async () => {
+    reply.body = {
+      content: [{ type: "text", text: '```json\n{"answer":"42"}\n```' }],
+    };
+    const llm = new AnthropicProvider({ apiKey: "k", baseURL });
+
+    const result = await llm.completeJSON(
+      "Question",
+      z.object({ answer: z.string() }),
+    );
+
+    expect(result.answer).toBe("42");
+    expect(requests[0].body.system).toContain("valid JSON");
+  });
+
+  it("throws with status and body on API errors", async () => {
+    reply = { status: 529, body: { error: "overloaded" } };
+    const llm = new AnthropicProvider({ apiKey: "k", baseURL });
+
+    await expect(llm.complete("Hi")).rejects.toThrow(/529.*overloaded/);
+  });
+});
+
+// =============================================================================
+// HTTPProvider
+// =============================================================================
+
+describe("HTTPProvider", () => {
+  it("uses the default request and response mappers", async () => {
+    reply.body = { text: "pong" };
+    const llm = new HTTPProvider({
+      url: `${baseURL}/generate`,
+      headers: { Authorization: "Bearer secret" },
+    });
+
+    const text = await llm.complete("ping", { temperature: 0.5 });
+
+    expect(text).toBe("pong");
+    const [req] = requests;
+    expect(req.url).toBe("/generate");
+    expect(req.headers.authorization).toBe("Bearer secret");
+    expect(req.body).toEqual({
+      prompt: "ping",
+      temperature: 0.5,
+      max_tokens: 4096,
+    });
+  });
+
+  it("applies custom request and response mappers", async () => {
+    reply.body = { outputs: [{ generated: "custom reply" }] };
+    const llm = new HTTPProvider({
+      url: `${baseURL}/v2/infer`,
+      mapRequest: (r) => ({ inputs: r.prompt, params: { temp: r.temperature } }),
+      mapResponse: (body) =>
+        (body as { outputs: Array<{ generated: string }> }).outputs[0]
+          .generated,
+    });
+
+    const text = await llm.complete("hello");
+
+    expect(text).toBe("custom reply");
+    expect(requests[0].body).toEqual({
+      inputs: "hello",
+      params: { temp: 0.1 },
+    });
+  });
+
+  it("supports completeJSON through the mappers", async () => {
+    reply.body = { text: '{"ok":true}' };
+    const llm = new HTTPProvider({ url: `${baseURL}/generate` });
+
+    const result = await llm.completeJSON("q", z.object({ ok: z.boolean() }));
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects responses the default mapper cannot read", async () => {
+    reply.body = { output: "wrong field" };
+    const llm = new HTTPProvider({ url: `${baseURL}/generate` });
+
+    await expect(llm.complete("q")).rejects.toThrow(/mapResponse/);
+  });
+
+  it("throws with status and body on HTTP errors", async () => {
+    reply = { status: 500, body: { error: "boom" } };
+    const llm = new HTTPProvider({ url: `${baseURL}/generate` });
+
+    await expect(llm.complete("q")).rejects.toThrow(/500.*boom/);
+  });
+});
+
+// =============================================================================
+// Native JSON Schema
+// =============================================================================
+
+describe("native JSON schema response formats", () => {
+  const Schema = z.object({ ok: z.boolean() });
+
+  it("OpenAIProvider sends response_format when structured outputs are enabled", async () => {
+    reply.body = {
+      id: "x",
+      object: "chat.completion",
+      created: 0,
+      model: "gpt-test",
+      choices: [
+        {
+          index: 0,
+          finish_reason: "stop",
+          message: { role: "assistant", content: '{"ok":true}' },
+        },
+      ],
+    };
+    const llm = new OpenAIProvider({
+      apiKey: "k",
+      baseURL,
+      structuredOutputs: true,
+    });
+
+    expect(await llm.completeJSON("q", Schema)).toEqual({ ok: true });
+    expect(requests[0].url).toBe("/chat/completions");
+    expect(requests[0].body.response_format).toMatchObject({
+      type: "json_schema",
+      json_schema: { schema: { type: "object", required: ["ok"] } },
+    });
+  });
+
+  it("OpenAIProvider omits response_format for custom endpoints by default", async () => {
+    reply.body = {
+      choices: [{ index: 0, message: { role: "assistant", content: '{"ok":true}' } }],
+    };
+    const llm = new OpenAIProvider({ apiKey: "k", baseURL });
+
+    await llm.completeJSON("q", Schema);
+    expect(requests[0].body.response_format).toBeUndefined();
+  });
+
+  it("HTTPProvider passes the schema to the request mapper when supported", async () => {
+    reply.body = { text: '{"ok":true}' };
+    const llm = new HTTPProvider({
+      url: `${baseURL}/generate`,
+      supportsJSONSchema: true,
+    });
+
+    await llm.completeJSON("q", Schema);
+    expect(requests[0].body.json_schema).toMatchObject({ type: "object" });
+  });
+});
+
+// =============================================================================
+// ResilientLLMProvider
+// =============================================================================
+
+describe("ResilientLLMProvider", () => {
+  it("retries rate-limited requests", async () => {
+    queued = [{ status: 429, body: { error: "slow down" } }];
+    reply.body = { text: "done" };
+    const llm = new ResilientLLMProvider(
+      new HTTPProvider({ url: `${baseURL}/generate` }),
+      { baseDelayMs: 1 },
+    );
+
+    expect(await llm.complete("q")).toBe("done");
+    expect(requests).toHaveLength(2);
+  });
+
+  it("guards each structured-output re-prompt on its own", async () => {
+    queued = [
+      { status: 200, body: { text: "not json" } },
+      { status: 429, body: { error: "slow down" } },
+    ];
+    reply.body = { text: '{"answer":"42"}' };
+    const llm = new ResilientLLMProvider(
+      new HTTPProvider({ url: `${baseURL}/generate` }),
+      { baseDelayMs: 1, requestsPerMinute: 10 },
+    );
+
+    const result = await llm.completeJSON(
+      "Question",
+      z.object({ answer: z.string() }),
+    );
+
+    // The rate-limited re-prompt is retried, not the whole loop
+    expect(result).toEqual({ answer: "42" });
+    expect(requests.map((r) => r.body.prompt)).toEqual([
+      "Question",
+      expect.stringContaining("not json"),
+      requests[1].body.prompt,
+    ]);
+    expect(llm.getState().availableRequests).toBeCloseTo(7, 0);
+  });
+
+  it("closes the inner stream when the consumer stops early", async () => {
+    let closed = false;
+    const llm = new ResilientLLMProvider({
+      complete: async () => "",
+      completeJSON: async <T>(_prompt: string, schema: z.ZodType<T>) =>
+        schema.parse({}),
+      async *stream() {
+        try {
+          yield "first";
+          yield "second";
+        } finally {
+          closed = true;
+        }
+      },
+    });
+
+    for await (const chunk of llm.stream!("q")) {
+      expect(chunk).toBe("first");
+      break;
+    }
+    expect(closed).toBe(true);
+  });
+
+  it("gives up after the configured retries", async () => {
+    reply = { status: 503, body: { error: "down" } };
+    const llm = new ResilientLLMProvider(
+      new HTTPProvider({ url: `${baseURL}/generate` }),
+      { maxRetries: 1, baseDelayMs: 1 },
+    );
+
+    await expect(llm.complete("q")).rejects.toThrow(/503/);
+    expect(requests).toHaveLength(2);
+    expect(llm.getState().consecutiveFailures).toBe(2);
+  });
+});
+
+// =============================================================================
+// MeteredLLMProvider
+// =============================================================================
+
+describe("MeteredLLMProvider", () => {
+  it("records each request with the tokens the API reports", async () => {
+    const answer = (text: string, input: number) => ({
+      status: 200,
+      body: {
+        content: [{ type: "text", text }],
+        usage: { input_tokens: input, output_tokens: 5 },
+      },
+    });
+    queued = [
+      { status: 429, body: { error: "slow down" } },
+      answer("not json", 50),
+      answer('{"answer":"42"}', 60),
+    ];
+    const tracker = new UsageTracker({
+      tokenizer: { count: () => 7, truncate: (text) => text },
+    });
+    const anthropic = new AnthropicProvider({ apiKey: "k", baseURL });
+    const llm = new MeteredLLMProvider(
+      new ResilientLLMProvider(anthropic, { baseDelayMs: 1 }),
+      tracker,
+    );
+
+    await llm.completeJSON("Question", z.object({ answer: z.string() }));
+
+    // The rate-limited request is estimated, the others are reported
+    expect(requests).toHaveLength(3);
+    expect(tracker.totals()).toMatchObject({
+      llmCalls: 3,
+      promptTokens: 7 + 50 + 60,
+      completionTokens: 10,
+    });
+  });
+
+  it("estimates calls of providers that report no requests", async () => {
+    const tracker = new UsageTracker({
+      tokenizer: { count: () => 7, truncate: (text) => text },
+    });
+    const llm = new MeteredLLMProvider(
+      {
+        complete: async () => "done",
+        completeJSON: async <T>(_prompt: string, schema: z.ZodType<T>) =>
+          schema.parse({}),
+      },
+      tracker,
+    );
+
+    await llm.complete("q", { systemPrompt: "Be brief" });
+
+    expect(tracker.totals()).toMatchObject({
+      llmCalls: 1,
+      promptTokens: 14,
+      completionTokens: 7,
+    });
+  });
+});
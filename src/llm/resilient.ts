@@ -0,0 +1,111 @@
+/**
+ * Resilient LLM Provider
+ *
+ * Wraps any LLMProvider with rate limits, retries with backoff and a
+ * circuit breaker, so bursts of extraction calls queue up instead of
+ * failing with 429s.
+ */
+
+import { z } from "zod";
+import type { LLMProvider, LLMCompletionOptions } from "../types/index.js";
+import {
+  ProviderGuard,
+  type ProviderGuardState,
+  type ResilienceOptions,
+} from "../utils/resilience.js";
+import { completeStructured } from "./structured.js";
+
+export interface ResilientLLMProviderOptions extends ResilienceOptions {
+  /**
+   * Attempts for completeJSON(), re-prompting with validation errors
+   * @default 3
+   */
+  maxJSONAttempts?: number;
+}
+
+/**
+ * Rate-limited, retrying wrapper for an LLMProvider
+ *
+ * completeJSON() runs the structured-output loop on the guarded
+ * complete(), so each re-prompt is rate-limited and retried on its own.
+ * The wrapped provider's completeJSON() is not used.
+ */
+export class ResilientLLMProvider implements LLMProvider {
+  private inner: LLMProvider;
+  private guard: ProviderGuard;
+  private maxJSONAttempts?: number;
+
+  readonly model?: string;
+  readonly supportsJSONSchema?: boolean;
+  readonly stream?: (
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ) => AsyncIterable<string>;
+
+  constructor(inner: LLMProvider, options: ResilientLLMProviderOptions = {}) {
+    this.inner = inner;
+    this.guard = new ProviderGuard(inner.constructor.name, options);
+    this.maxJSONAttempts = options.maxJSONAttempts;
+    this.model = inner.model;
+    this.supportsJSONSchema = inner.supportsJSONSchema;
+    if (inner.stream) {
+      this.stream = (prompt, options) => this.guardStream(prompt, options);
+    }
+  }
+
+  async complete(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): Promise<string> {
+    return this.guard.run(inputTexts(prompt, options), () =>
+      this.inner.complete(prompt, options),
+    );
+  }
+
+  async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+    return completeStructured(this, prompt, schema, {
+      maxAttempts: this.maxJSONAttempts,
+    });
+  }
+
+  /**
+   * Circuit and rate-limit state
+   */
+  getState(): ProviderGuardState {
+    return this.guard.getState();
+  }
+
+  /**
+   * Retries cover opening the stream and its first chunk; failures after
+   * text has been yielded are passed through. The inner stream is closed
+   * when the consumer stops early.
+   */
+  private async *guardStream(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): AsyncIterable<string> {
+    const { iterator, first } = await this.guard.run(
+      inputTexts(prompt, options),
+      async () => {
+        const iterator = this.inner
+          .stream!(prompt, options)
+          [Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+      },
+    );
+
+    try {
+      let next = first;
+      while (!next.done) {
+        yield next.value;
+        next = await iterator.next();
+      }
+    } finally {
+      await iterator.return?.();
+    }
+  }
+}
+
+function inputTexts(prompt: string, options?: LLMCompletionOptions): string[] {
+  return options?.systemPrompt ? [options.systemPrompt, prompt] : [prompt];
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import type { LLMCompletionOptions } from "../types/index";
+import {
+  completeStructured,
+  parseStructured,
+  extractJSON,
+  repairJSON,
+  zodToJSONSchema,
+} from "./structured";
+
+// =============================================================================
+// Mock Provider
+// =============================================================================
+
+class ScriptedLLM {
+  prompts: string[] = [];
+  options: Array<LLMCompletionOptions | undefined> = [];
+
+  constructor(
+    private responses: string[],
+    readonly supportsJSONSchema = false,
+  ) {}
+
+  async complete(
+    prompt: string,
+    options?: LLMCompletionOptions,
+  ): Promise<string> {
+    this.prompts.push(prompt);
+    this.options.push(options);
+    return this.responses[Math.min(this.prompts.length, this.responses.length) - 1];
+  }
+}
+
+const AnswerSchema = z.object({
+  answer: z.string(),
+  confidence: z.number().optional(),
+});
+
+// =============================================================================
+// extractJSON
+// =============================================================================
+
+describe("extractJSON", () => {
+  it("extracts an object surrounded by prose", () => {
+    const text = 'Sure! Here it is: {"a": {"b": [1, 2]}} Hope that helps.';
+    expect(extractJSON(text)).toBe('{"a": {"b": [1, 2]}}');
+  });
+
+  it("ignores brackets inside strings", () => {
+    const text = '```json\n{"text": "a } inside [ a string"}\n```';
+    expect(extractJSON(text)).toBe('{"text": "a } inside [ a string"}');
+  });
+
+  it("skips bracketed prose before the JSON", () => {
+    const text = 'Result [see below]: ["x", "y"]';
+    expect(extractJSON(text)).toBe('["x", "y"]');
+  });
+
+  it("returns a truncated value for repair", () => {
+    expect(extractJSON('{"a": [1, 2')).toBe('{"a": [1, 2');
+  });
+
+  it("returns null when there is no JSON", () => {
+    expect(extractJSON("no json here")).toBeNull();
+  });
+});
+
+// =============================================================================
+// repairJSON
+// =============================================================================
+
+describe("repairJSON", () => {
+  const repaired = (text: string) => JSON.parse(repairJSON(text));
+
+  it("removes trailing commas", () => {
+    expect(repaired('{"a": [1, 2,], "b": 3,}')).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it("converts single-quoted strings and unquoted keys", () => {
+    expect(repaired("{answer: 'it\\'s \"fine\"'}")).toEqual({
+      answer: 'it\'s "fine"',
+    });
+  });
+
+  it("converts Python literals and strips comments", () => {
+    const text = `{
+      // flags
+      "a": True, "b": False, /* nothing */ "c": None
+    }`;
+    expect(repaired(text)).toEqual({ a: true, b: false, c: null });
+  });
+
+  it("escapes raw newlines inside strings", () => {
+    expect(repaired('{"a": "line 1\nline 2"}')).toEqual({ a: "line 1\nline 2" });
+  });
+
+  it("closes truncated responses", () => {
+    expect(repaired('{"items": [{"x": 1}, {"x": 2')).toEqual({
+      items: [{ x: 1 }, { x: 2 }],
+    });
+  });
+
+  it("keeps smart quotes inside strings", () => {
+    expect(repaired('{"a": "he said “hi”",}')).toEqual({ a: "he said “hi”" });
+  });
+});
+
+// =============================================================================
+// parseStructured / completeStructured
+// =============================================================================
+
+describe("parseStructured", () => {
+  it("reports schema issues with their paths", () => {
+    const result = parseStructured('{"answer": 42}', AnswerSchema);
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain("answer");
+  });
+
+  it("parses repaired JSON", () => {
+    const result = parseStructured("Answer: {answer: 'yes',}", AnswerSchema);
+    expect(result).toEqual({ success: true, data: { answer: "yes" } });
+  });
+});
+
+describe("completeStructured", () => {
+  it("returns on the first valid response", async () => {
+    const llm = new ScriptedLLM(['{"answer": "ok"}']);
+    const result = await completeStructured(llm, "Q", AnswerSchema);
+
+    expect(result.answer).toBe("ok");
+    expect(llm.prompts).toHaveLength(1);
+    expect(llm.options[0]?.responseSchema).toBeUndefined();
+  });
+
+  it("re-prompts with validation errors", async () => {
+    const llm = new ScriptedLLM(['{"answer": 1}', '{"answer": "fixed"}']);
+    const result = await completeStructured(llm, "Q", AnswerSchema);
+
+    expect(result.answer).toBe("fixed");
+    expect(llm.prompts).toHaveLength(2);
+    expect(llm.prompts[1]).toContain('{"answer": 1}');
+    expect(llm.prompts[1]).toContain("answer: Expected string");
+  });
+
+  it("throws after maxAttempts", async () => {
+    const llm = new ScriptedLLM(["not json"]);
+    await expect(
+      completeStructured(llm, "Q", AnswerSchema, { maxAttempts: 2 }),
+    ).rejects.toThrow(/after 2 attempts/);
+    expect(llm.prompts).toHaveLength(2);
+  });
+
+  it("sends a JSON schema to providers that support it", async () => {
+    const llm = new ScriptedLLM(['{"answer": "ok"}'], true);
+    await completeStructured(llm, "Q", AnswerSchema, { schemaName: "answer" });
+
+    expect(llm.options[0]?.responseSchema).toEqual({
+      name: "answer",
+      schema: zodToJSONSchema(AnswerSchema),
+    });
+  });
+});
+
+// =============================================================================
+// zodToJSONSchema
+// =============================================================================
+
+describe("zodToJSONSchema", () => {
+  it("converts objects, arrays, enums and optional fields", () => {
+    const schema = z.object({
+      complexity: z.enum(["LOW", "HIGH"]),
+      keywords: z.array(z.string()).default([]),
+      time: z.string().nullable().optional(),
+      count: z.number().int(),
+    });
+
+    expect(zodToJSONSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        complexity: { type: "string", enum: ["LOW", "HIGH"] },
+        keywords: { type: "array", items: { type: "string" }, default: [] },
+        time: { anyOf: [{ type: "string" }, { type: "null" }] },
+        count: { type: "integer" },
+      },
+      required: ["complexity", "count"],
+    });
+  });
+});
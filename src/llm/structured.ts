@@ -0,0 +1,385 @@
+/**
+ * Structured Output
+ *
+ * Turns free-form LLM responses into schema-validated objects. Shared by all
+ * providers to implement completeJSON() on top of complete():
+ *
+ * 1. Extract the first balanced JSON value from the response
+ * 2. Repair common syntax errors (trailing commas, single quotes, ...)
+ * 3. Validate with zod and re-prompt with the validation errors
+ * 4. Send a native JSON schema to providers that support one
+ */
+
+import type { z } from "zod";
+import type { LLMProvider, ResponseSchema } from "../types/index.js";
+
+/**
+ * System prompt used by providers when requesting JSON output
+ */
+export const JSON_SYSTEM_PROMPT = `You are a helpful assistant that responds only with valid JSON. Do not include any text outside of the JSON object. Do not wrap the response in markdown code blocks.`;
+
+export interface StructuredOutputOptions {
+  /**
+   * Total completion attempts, including re-prompts with validation errors
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Name reported with the native JSON schema
+   * @default 'response'
+   */
+  schemaName?: string;
+
+  /**
+   * Temperature for structured completions
+   * @default 0.1
+   */
+  temperature?: number;
+}
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+// =============================================================================
+// Completion with Retries
+// =============================================================================
+
+/**
+ * Complete a prompt and return a value validated against `schema`.
+ *
+ * Invalid responses are sent back to the model together with the parse or
+ * validation errors until `maxAttempts` is reached.
+ */
+export async function completeStructured<T>(
+  llm: Pick<LLMProvider, "complete" | "supportsJSONSchema">,
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: StructuredOutputOptions = {},
+): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const responseSchema: ResponseSchema | undefined = llm.supportsJSONSchema
+    ? {
+        name: options.schemaName ?? "response",
+        schema: zodToJSONSchema(schema),
+      }
+    : undefined;
+
+  let currentPrompt = prompt;
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await llm.complete(currentPrompt, {
+      systemPrompt: JSON_SYSTEM_PROMPT,
+      temperature: options.temperature ?? 0.1,
+      responseSchema,
+    });
+
+    const result = parseStructured(response, schema);
+    if (result.success) return result.data;
+
+    lastError = result.error;
+    currentPrompt = buildRepairPrompt(prompt, response, result.error);
+  }
+
+  throw new Error(
+    `Structured output failed after ${maxAttempts} attempts: ${lastError}`,
+  );
+}
+
+/**
+ * Parse a response into a schema-validated value without throwing
+ */
+export function parseStructured<T>(
+  response: string,
+  schema: z.ZodType<T>,
+): StructuredParseResult<T> {
+  const json = extractJSON(response) ?? response.trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    try {
+      parsed = JSON.parse(repairJSON(json));
+    } catch (error) {
+      return {
+        success: false,
+        error: `Response is not valid JSON (${(error as Error).message})`,
+      };
+    }
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) return { success: true, data: result.data };
+
+  const issues = result.error.issues
+    .map((issue) => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+  return { success: false, error: `Response does not match schema:\n${issues}` };
+}
+
+function buildRepairPrompt(
+  prompt: string,
+  response: string,
+  error: string,
+): string {
+  return `${prompt}
+
+Your previous response could not be used:
+${response}
+
+Problems:
+${error}
+
+Return ONLY the corrected JSON.`;
+}
+
+// =============================================================================
+// Extraction and Repair
+// =============================================================================
+
+/**
+ * Find the first balanced JSON object or array in a response.
+ *
+ * Surrounding prose and code fences are ignored. Bracketed prose such as
+ * "[see below]" is skipped in favour of the first candidate that parses;
+ * a truncated value is returned as-is so repairJSON() can close it.
+ */
+export function extractJSON(text: string): string | null {
+  const MAX_CANDIDATES = 10;
+  let first: string | null = null;
+
+  for (
+    let start = text.search(/[{[]/), tried = 0;
+    start !== -1 && tried < MAX_CANDIDATES;
+    tried++
+  ) {
+    const candidate = balancedSlice(text, start);
+    first ??= candidate;
+    try {
+      JSON.parse(candidate);
+      return candidate;
+    } catch {
+      const next = text.slice(start + 1).search(/[{[]/);
+      start = next === -1 ? -1 : start + 1 + next;
+    }
+  }
+
+  return first;
+}
+
+function balancedSlice(text: string, start: number): string {
+  const stack: string[] = [];
+  let quote: string | null = null;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "\u201c") quote = "\u201d";
+    else if (ch === "{") stack.push("}");
+    else if (ch === "[") stack.push("]");
+    else if (ch === "}" || ch === "]") {
+      stack.pop();
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return text.slice(start).trim();
+}
+
+const STRING_QUOTES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  "\u201c": "\u201d",
+};
+
+const LITERALS: Record<string, string> = {
+  True: "true",
+  False: "false",
+  None: "null",
+  undefined: "null",
+  NaN: "null",
+};
+
+/**
+ * Repair common JSON mistakes made by LLMs:
+ * trailing commas, single-quoted or smart-quoted strings, unquoted keys,
+ * comments, Python literals, raw newlines in strings and unclosed brackets.
+ */
+export function repairJSON(text: string): string {
+  const out: string[] = [];
+  const stack: string[] = [];
+  let i = 0;
+
+  const dropTrailingComma = () => {
+    let j = out.length - 1;
+    while (j >= 0 && /^\s*$/.test(out[j])) j--;
+    if (j >= 0 && out[j] === ",") out.splice(j, 1);
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    // Strings (double, single or smart quoted) are re-emitted with double quotes
+    const closer = STRING_QUOTES[ch];
+    if (closer) {
+      let j = i + 1;
+      let value = "";
+      let closed = false;
+      while (j < text.length) {
+        const c = text[j];
+        if (c === "\\" && j + 1 < text.length) {
+          const next = text[j + 1];
+          // \' is not a valid JSON escape
+          value += next === "'" ? "'" : c + next;
+          j += 2;
+          continue;
+        }
+        if (c === closer) {
+          closed = true;
+          break;
+        }
+        if (c === '"') value += '\\"';
+        else if (c === "\n") value += "\\n";
+        else if (c === "\r") value += "\\r";
+        else if (c === "\t") value += "\\t";
+        else value += c;
+        j++;
+      }
+      out.push(`"${value}"`);
+      i = closed ? j + 1 : j;
+      continue;
+    }
+
+    // Comments
+    if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      continue;
+    }
+    if (ch === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+      continue;
+    }
+
+    // Bare words: literals or unquoted keys
+    if (/[A-Za-z_$]/.test(ch)) {
+      let j = i;
+      while (j < text.length && /[\w$]/.test(text[j])) j++;
+      const word = text.slice(i, j);
+      const isKey = /^\s*:/.test(text.slice(j));
+      if (isKey) out.push(`"${word}"`);
+      else out.push(LITERALS[word] ?? word);
+      i = j;
+      continue;
+    }
+
+    if (ch === "{") stack.push("}");
+    else if (ch === "[") stack.push("]");
+    else if (ch === "}" || ch === "]") {
+      dropTrailingComma();
+      stack.pop();
+    }
+
+    out.push(ch);
+    i++;
+  }
+
+  // Close anything left open by a truncated response
+  while (stack.length > 0) {
+    dropTrailingComma();
+    out.push(stack.pop()!);
+  }
+
+  return out.join("");
+}
+
+// =============================================================================
+// Zod to JSON Schema
+// =============================================================================
+
+/**
+ * Convert a zod schema to JSON schema for native structured output.
+ *
+ * Covers the types used in LLM response schemas; anything else becomes `{}`
+ * (accept any value) and is still validated by zod afterwards.
+ */
+export function zodToJSONSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const def = schema._def as Record<string, any>;
+  const json = convertZodDef(def);
+  if (schema.description && json.description === undefined) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convertZodDef(def: Record<string, any>): Record<string, unknown> {
+  switch (def.typeName) {
+    case "ZodString":
+      return { type: "string" };
+    case "ZodNumber":
+      return def.checks?.some((c: { kind: string }) => c.kind === "int")
+        ? { type: "integer" }
+        : { type: "number" };
+    case "ZodBoolean":
+      return { type: "boolean" };
+    case "ZodNull":
+      return { type: "null" };
+    case "ZodLiteral":
+      return { const: def.value };
+    case "ZodEnum":
+      return { type: "string", enum: def.values };
+    case "ZodNativeEnum":
+      return { enum: Object.values(def.values) };
+    case "ZodArray":
+      return { type: "array", items: zodToJSONSchema(def.type) };
+    case "ZodTuple":
+      return {
+        type: "array",
+        prefixItems: def.items.map((item: z.ZodTypeAny) => zodToJSONSchema(item)),
+      };
+    case "ZodRecord":
+      return {
+        type: "object",
+        additionalProperties: zodToJSONSchema(def.valueType),
+      };
+    case "ZodObject": {
+      const shape = def.shape() as Record<string, z.ZodTypeAny>;
+      const properties: Record<string, unknown> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJSONSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return { type: "object", properties, required };
+    }
+    case "ZodOptional":
+      return zodToJSONSchema(def.innerType);
+    case "ZodNullable":
+      return { anyOf: [zodToJSONSchema(def.innerType), { type: "null" }] };
+    case "ZodDefault":
+      return { ...zodToJSONSchema(def.innerType), default: def.defaultValue() };
+    case "ZodUnion":
+    case "ZodDiscriminatedUnion":
+      return {
+        anyOf: [...def.options].map((option: z.ZodTypeAny) =>
+          zodToJSONSchema(option),
+        ),
+      };
+    case "ZodEffects":
+      return zodToJSONSchema(def.schema);
+    default:
+      return {};
+  }
+}
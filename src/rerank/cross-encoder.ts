@@ -0,0 +1,123 @@
+/**
+ * Cross-Encoder Reranker using @xenova/transformers
+ *
+ * Scores each (query, passage) pair jointly with a local cross-encoder
+ * model, without API calls.
+ * Requires @xenova/transformers as an optional peer dependency.
+ */
+
+import type { Reranker, SearchResult } from "../types/index.js";
+
+export interface CrossEncoderRerankerOptions {
+  /**
+   * Hugging Face model ID
+   * @default 'Xenova/ms-marco-MiniLM-L-6-v2'
+   */
+  model?: string;
+
+  /**
+   * Use quantized model for faster inference
+   * @default true
+   */
+  quantized?: boolean;
+
+  /**
+   * Directory to cache downloaded models
+   */
+  cacheDir?: string;
+
+  /**
+   * Pairs scored per forward pass
+   * @default 16
+   */
+  batchSize?: number;
+}
+
+/**
+ * Local cross-encoder reranker using @xenova/transformers.
+ * Models are downloaded and cached on first use. Scores are the sigmoid of
+ * the model's relevance logit.
+ */
+export class CrossEncoderReranker implements Reranker {
+  private tokenizer: any = null;
+  private classifier: any = null;
+  private quantized: boolean;
+  private cacheDir?: string;
+  private batchSize: number;
+  private initialized = false;
+
+  readonly model: string;
+
+  constructor(options: CrossEncoderRerankerOptions = {}) {
+    this.model = options.model ?? "Xenova/ms-marco-MiniLM-L-6-v2";
+    this.quantized = options.quantized ?? true;
+    this.cacheDir = options.cacheDir;
+    this.batchSize = options.batchSize ?? 16;
+  }
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    if (results.length === 0) return [];
+
+    await this.ensureInitialized();
+
+    const scores: number[] = [];
+    for (let i = 0; i < results.length; i += this.batchSize) {
+      const batch = results.slice(i, i + this.batchSize);
+      const inputs = this.tokenizer(
+        batch.map(() => query),
+        {
+          text_pair: batch.map((r) => r.unit.content),
+          padding: true,
+          truncation: true,
+        },
+      );
+      const { logits } = await this.classifier(inputs);
+      for (const logit of logits.data as Float32Array) {
+        scores.push(1 / (1 + Math.exp(-logit)));
+      }
+    }
+
+    return results
+      .map((r, i) => ({ ...r, rerankScore: scores[i] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (this.initialized) return;
+
+    let mod: any;
+    try {
+      // Dynamic import — @xenova/transformers is an optional peer dep
+      mod = await (Function('return import("@xenova/transformers")')() as Promise<any>);
+    } catch {
+      throw new Error(
+        "Failed to import @xenova/transformers. Install it with: npm install @xenova/transformers",
+      );
+    }
+
+    const AutoTokenizer = mod.AutoTokenizer ?? mod.default?.AutoTokenizer;
+    const AutoModel =
+      mod.AutoModelForSequenceClassification ??
+      mod.default?.AutoModelForSequenceClassification;
+    if (!AutoTokenizer || !AutoModel) {
+      throw new Error(
+        "Could not find AutoTokenizer or AutoModelForSequenceClassification in @xenova/transformers",
+      );
+    }
+
+    const loadOptions: Record<string, unknown> = {
+      quantized: this.quantized,
+    };
+    if (this.cacheDir) {
+      loadOptions.cache_dir = this.cacheDir;
+    }
+
+    this.tokenizer = await AutoTokenizer.from_pretrained(
+      this.model,
+      loadOptions,
+    );
+    this.classifier = await AutoModel.from_pretrained(this.model, loadOptions);
+
+    this.initialized = true;
+  }
+}
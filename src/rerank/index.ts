@@ -0,0 +1,6 @@
+/**
+ * Rerank module exports
+ */
+
+export * from "./llm.js";
+export * from "./cross-encoder.js";
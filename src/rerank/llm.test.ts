@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import type { LLMProvider, SearchResult } from "../types/index";
+import { LLMReranker } from "./llm";
+
+// =============================================================================
+// Mock Provider
+// =============================================================================
+
+class RankingLLM implements LLMProvider {
+  prompts: string[] = [];
+
+  constructor(private response: unknown) {}
+
+  async complete(): Promise<string> {
+    return JSON.stringify(this.response);
+  }
+
+  async completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+    this.prompts.push(prompt);
+    return schema.parse(this.response);
+  }
+}
+
+function makeResult(content: string, score: number): SearchResult {
+  return {
+    unit: {
+      id: uuidv4(),
+      content,
+      keywords: [],
+      persons: [],
+      entities: [],
+      sourceDialogueIds: [],
+      salience: "medium",
+      createdAt: "2025-06-15T12:00:00.000Z",
+    },
+    score,
+    matchType: "hybrid",
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("LLMReranker", () => {
+  const results = [
+    makeResult("Alice works at Acme", 0.9),
+    makeResult("Acme is based in Lisbon", 0.8),
+    makeResult("Bob likes tennis", 0.7),
+  ];
+
+  it("reorders results by the LLM ranking and sets rerank scores", async () => {
+    const llm = new RankingLLM({ ranking: [2, 1] });
+    const reranked = await new LLMReranker(llm).rerank(
+      "Which city does Alice work in?",
+      results,
+    );
+
+    expect(reranked.map((r) => r.unit.content)).toEqual([
+      "Acme is based in Lisbon",
+      "Alice works at Acme",
+      "Bob likes tennis",
+    ]);
+    expect(reranked[0].rerankScore).toBe(1);
+    expect(reranked[1].rerankScore).toBeCloseTo(2 / 3);
+    expect(reranked[2].rerankScore).toBe(0);
+    expect(reranked[0].score).toBe(0.8);
+    expect(llm.prompts[0]).toContain("[3] Bob likes tennis");
+  });
+
+  it("ignores invalid and duplicate positions", async () => {
+    const llm = new RankingLLM({ ranking: [7, 3, 3, 0] });
+    const reranked = await new LLMReranker(llm).rerank("q", results);
+
+    expect(reranked.map((r) => r.unit.content)).toEqual([
+      "Bob likes tennis",
+      "Alice works at Acme",
+      "Acme is based in Lisbon",
+    ]);
+  });
+
+  it("only shows maxCandidates to the LLM", async () => {
+    const llm = new RankingLLM({ ranking: [2, 1] });
+    const reranked = await new LLMReranker(llm, { maxCandidates: 2 }).rerank(
+      "q",
+      results,
+    );
+
+    expect(llm.prompts[0]).not.toContain("Bob likes tennis");
+    expect(reranked[2]).toMatchObject({
+      unit: { content: "Bob likes tennis" },
+      rerankScore: 0,
+    });
+  });
+});
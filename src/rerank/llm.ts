@@ -0,0 +1,85 @@
+/**
+ * LLM Listwise Reranker
+ *
+ * Shows the LLM all candidates at once and asks for them ordered by
+ * relevance to the query. Works with any LLMProvider.
+ */
+
+import { z } from "zod";
+import type { LLMProvider, Reranker, SearchResult } from "../types/index.js";
+
+export interface LLMRerankerOptions {
+  /**
+   * Maximum candidates shown to the LLM; the rest keep their order after
+   * the reranked ones
+   * @default 20
+   */
+  maxCandidates?: number;
+}
+
+const RankingSchema = z.object({
+  ranking: z.array(z.number().int()),
+});
+
+/**
+ * Listwise reranker backed by an LLMProvider.
+ * Scores run from 1 for the top result down towards 0; candidates the LLM
+ * leaves out score 0.
+ */
+export class LLMReranker implements Reranker {
+  private llm: LLMProvider;
+  private maxCandidates: number;
+
+  constructor(llm: LLMProvider, options: LLMRerankerOptions = {}) {
+    this.llm = llm;
+    this.maxCandidates = options.maxCandidates ?? 20;
+  }
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    if (results.length === 0) return [];
+
+    const candidates = results.slice(0, this.maxCandidates);
+    const rest = results.slice(this.maxCandidates);
+
+    const passages = candidates
+      .map((r, i) => {
+        const time = r.unit.timestamp ? ` (${r.unit.timestamp})` : "";
+        return `[${i + 1}]${time} ${r.unit.content}`;
+      })
+      .join("\n");
+
+    const prompt = `Rank the following memory passages by how useful they are for answering the query. Passages that together answer a multi-step question are all useful.
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Return JSON with the passage numbers ordered from most to least relevant, leaving out passages that are irrelevant:
+{"ranking": [3, 1, 2]}`;
+
+    const { ranking } = await this.llm.completeJSON(prompt, RankingSchema);
+
+    // Keep valid, first-seen positions only
+    const order: number[] = [];
+    const seen = new Set<number>();
+    for (const n of ranking) {
+      const i = n - 1;
+      if (i >= 0 && i < candidates.length && !seen.has(i)) {
+        order.push(i);
+        seen.add(i);
+      }
+    }
+
+    const ranked = order.map((i, position) => ({
+      ...candidates[i],
+      rerankScore: 1 - position / candidates.length,
+    }));
+    const unranked = candidates
+      .filter((_, i) => !seen.has(i))
+      .concat(rest)
+      .map((r) => ({ ...r, rerankScore: 0 }));
+
+    return [...ranked, ...unranked];
+  }
+}
@@ -122,6 +122,93 @@ export class AbstractionEngine {
     return this.consolidate();
   }
 
+  /**
+   * Remove deleted units from abstract memories.
+   *
+   * A pattern may still state facts from the removed units, so each
+   * affected abstract is regenerated from its remaining sources. Abstracts
+   * left with fewer than `minClusterSize` sources, or that cannot be
+   * regenerated, are deleted; their remaining units become eligible for the
+   * next consolidation.
+   */
+  async removeSourceUnits(
+    unitIds: string[],
+  ): Promise<{ updatedIds: string[]; deletedIds: string[] }> {
+    const removed = new Set(unitIds);
+    return this.rewriteAbstracts(unitIds, (sourceIds) =>
+      sourceIds.filter((id) => !removed.has(id)),
+    );
+  }
+
+  /**
+   * Regenerate abstracts built from edited units, whose patterns may still
+   * state the old content
+   */
+  async refreshSourceUnits(
+    unitIds: string[],
+  ): Promise<{ updatedIds: string[]; deletedIds: string[] }> {
+    return this.rewriteAbstracts(unitIds, (sourceIds) => sourceIds);
+  }
+
+  /**
+   * Regenerate or delete every abstract with a source among `unitIds`
+   */
+  private async rewriteAbstracts(
+    unitIds: string[],
+    keep: (sourceIds: string[]) => string[],
+  ): Promise<{ updatedIds: string[]; deletedIds: string[] }> {
+    const affected = new Set(unitIds);
+    const updatedIds: string[] = [];
+    const deletedIds: string[] = [];
+
+    for (const abstract of await this.storage.getAllAbstracts()) {
+      if (!abstract.sourceUnitIds.some((id) => affected.has(id))) continue;
+
+      const regenerated = await this.regenerate(
+        abstract,
+        keep(abstract.sourceUnitIds),
+      );
+      if (regenerated) {
+        await this.storage.saveAbstract(regenerated);
+        updatedIds.push(abstract.id);
+      } else {
+        await this.storage.deleteAbstract(abstract.id);
+        deletedIds.push(abstract.id);
+      }
+    }
+
+    return { updatedIds, deletedIds };
+  }
+
+  /**
+   * New pattern and embedding for an abstract from the given sources, or
+   * null if too few remain or the LLM call fails
+   */
+  private async regenerate(
+    abstract: AbstractMemory,
+    sourceIds: string[],
+  ): Promise<AbstractMemory | null> {
+    const units: MemoryUnit[] = [];
+    for (const id of sourceIds) {
+      const unit = await this.storage.getUnit(id);
+      if (unit) units.push(unit);
+    }
+    if (units.length < this.config.minClusterSize) return null;
+
+    try {
+      const regenerated = await this.abstractCluster(units);
+      return {
+        ...regenerated,
+        id: abstract.id,
+        isArchived: abstract.isArchived,
+        namespace: abstract.namespace,
+      };
+    } catch (error) {
+      this.logger.warn("Failed to regenerate abstract, deleting it", error);
+      return null;
+    }
+  }
+
   /**
    * Run consolidation on all memory units.
    * Clusters similar units and generates abstract patterns via LLM.
@@ -130,8 +217,10 @@ export class AbstractionEngine {
     const units = await this.storage.getAllUnits();
     if (units.length < this.config.minClusterSize) return [];
 
-    // Only consider units with embeddings
-    const embeddedUnits = units.filter((u) => u.embedding && u.embedding.length > 0);
+    // Only consider current units with embeddings
+    const embeddedUnits = units.filter(
+      (u) => u.embedding && u.embedding.length > 0 && !u.supersededBy,
+    );
     if (embeddedUnits.length < this.config.minClusterSize) return [];
 
     // Get existing abstracts to avoid re-clustering already-consolidated units
@@ -137,21 +137,278 @@ describe("MemoryBuilder", () => {
     expect(units.length).toBeGreaterThanOrEqual(1);
   });
 
-  it("returns empty array when LLM fails", async () => {
-    const failingLlm = new MockLLMProvider("bad");
-    failingLlm.completeJSON = async () => {
-      throw new Error("LLM parse failure");
+  it("keeps the window queued when the LLM fails", async () => {
+    const completeJSON = llm.completeJSON.bind(llm);
+    let failures = 1;
+    llm.completeJSON = async (prompt, schema) => {
+      if (failures-- > 0) throw new Error("LLM parse failure");
+      return completeJSON(prompt, schema);
     };
 
-    const builder = new MemoryBuilder(failingLlm, embeddings, {
+    const builder = new MemoryBuilder(llm, embeddings, {
       windowSize: 2,
       redundancyThreshold: 0,
     });
     builder.addDialogue({ id: 1, speaker: "A", content: "Hello" });
     builder.addDialogue({ id: 2, speaker: "B", content: "World" });
 
+    await expect(builder.processWindows()).rejects.toThrow(
+      "LLM parse failure",
+    );
+    expect(builder.checkpoint().flushedWindows).toHaveLength(1);
+
     const units = await builder.processWindows();
-    expect(units).toEqual([]);
+    expect(units.length).toBeGreaterThanOrEqual(1);
+  });
+
+  it("advances by at least one turn when overlap covers the window", async () => {
+    const builder = new MemoryBuilder(llm, embeddings, {
+      windowSize: 2,
+      overlapSize: 3,
+      redundancyThreshold: 0,
+    });
+    builder.addDialogues([
+      { id: 1, speaker: "A", content: "Hello" },
+      { id: 2, speaker: "B", content: "World" },
+      { id: 3, speaker: "A", content: "Again" },
+    ]);
+
+    await builder.processWindows();
+    expect(builder.getStats().windowsProcessed).toBe(2);
+    expect(builder.getStats().bufferedDialogues).toBe(1);
+  });
+
+  it("extracts windows concurrently and keeps window order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    let calls = 0;
+    const slowLlm = new MockLLMProvider();
+    slowLlm.completeJSON = async <T>(prompt: string, schema: z.ZodType<T>) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      // Earlier windows answer last
+      await new Promise((resolve) => setTimeout(resolve, 20 - 5 * calls++));
+      inFlight--;
+      const chunk = prompt.match(/system: (Chunk \d)/)![1];
+      return schema.parse({ memory_units: [{ content: chunk }] });
+    };
+
+    const builder = new MemoryBuilder(slowLlm, embeddings, {
+      redundancyThreshold: 0,
+      concurrency: 3,
+    });
+    const units = await builder.processTexts(
+      ["Chunk 1", "Chunk 2", "Chunk 3", "Chunk 4"],
+      "2025-01-15T10:00:00Z",
+    );
+
+    expect(units.map((u) => u.content)).toEqual([
+      "Chunk 1",
+      "Chunk 2",
+      "Chunk 3",
+      "Chunk 4",
+    ]);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it("builds each window's context from the windows before it", async () => {
+    const prompts: string[] = [];
+    llm.completeJSON = async <T>(prompt: string, schema: z.ZodType<T>) => {
+      prompts.push(prompt);
+      return schema.parse(JSON.parse(VALID_RESPONSE));
+    };
+
+    const builder = new MemoryBuilder(llm, embeddings, {
+      redundancyThreshold: 0,
+      concurrency: 2,
+    });
+    await builder.processTexts(["Alice arrived", "Bob left"]);
+
+    expect(prompts[0]).toContain("No previous context available.");
+    expect(prompts[1]).toMatch(/Previously mentioned entities: alice\n/);
+  });
+
+  it("flushes a partial window on a speaker change", async () => {
+    const prompts: string[] = [];
+    llm.completeJSON = async <T>(prompt: string, schema: z.ZodType<T>) => {
+      prompts.push(prompt);
+      return schema.parse(JSON.parse(VALID_RESPONSE));
+    };
+    const builder = new MemoryBuilder(llm, embeddings, {
+      windowSize: 10,
+      overlapSize: 1,
+      redundancyThreshold: 0,
+      flushOnSpeakerChange: true,
+    });
+
+    expect(
+      builder.addDialogues([
+        { id: 1, speaker: "Alice", content: "Lisbon first" },
+        { id: 2, speaker: "Alice", content: "Then Porto" },
+        { id: 3, speaker: "Bob", content: "Sounds good" },
+      ]),
+    ).toEqual([{ reason: "speaker_change", dialogueCount: 2 }]);
+    expect(builder.hasReadyWindows()).toBe(true);
+    await builder.processWindows();
+
+    // The overlap turn is context for the next window, not a pending turn
+    expect(
+      builder.addDialogue({ id: 4, speaker: "Alice", content: "Ok" }),
+    ).toEqual({ reason: "speaker_change", dialogueCount: 1 });
+    await builder.processWindows();
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toContain("Alice: Then Porto\n");
+    expect(prompts[1]).toContain("Alice: Then Porto\nBob: Sounds good");
+    expect(prompts[1]).not.toContain("Lisbon first");
+    expect(builder.getStats().bufferedDialogues).toBe(2);
+  });
+
+  it("flushes on a session change", () => {
+    const builder = new MemoryBuilder(llm, embeddings, {
+      flushOnSessionEnd: true,
+    });
+    const turn = (sessionId: string) => ({
+      id: 0,
+      sessionId,
+      speaker: "A",
+      content: `Hello from ${sessionId}`,
+    });
+    builder.addDialogue(turn("a"));
+
+    expect(builder.addDialogue(turn("b"))).toEqual({
+      reason: "session_end",
+      dialogueCount: 1,
+    });
+  });
+
+  it("flushes after the idle timeout or maximum buffer age", () => {
+    const builder = new MemoryBuilder(llm, embeddings, {
+      overlapSize: 1,
+      idleTimeoutMs: 1000,
+      maxBufferAgeMs: 5000,
+    });
+    builder.addDialogue({ id: 1, speaker: "A", content: "Hello" }, 0);
+    builder.addDialogue({ id: 2, speaker: "B", content: "Hi" }, 500);
+
+    expect(builder.nextFlushAt()).toBe(1500);
+    expect(builder.flushDue(1400)).toBeNull();
+    expect(builder.flushDue(1500)).toEqual({
+      reason: "idle",
+      dialogueCount: 2,
+    });
+    expect(builder.nextFlushAt()).toBeNull();
+    expect(builder.flushDue(10000)).toBeNull();
+
+    const aging = new MemoryBuilder(llm, embeddings, { maxBufferAgeMs: 1000 });
+    aging.addDialogue({ id: 1, speaker: "A", content: "Hello" }, 0);
+    aging.addDialogue({ id: 2, speaker: "B", content: "Hi" }, 600);
+    expect(
+      aging.addDialogue({ id: 3, speaker: "A", content: "Bye" }, 1200),
+    ).toEqual({ reason: "max_age", dialogueCount: 2 });
+  });
+
+  it("processRemaining skips turns already extracted as overlap", async () => {
+    let calls = 0;
+    llm.completeJSON = async <T>(_prompt: string, schema: z.ZodType<T>) => {
+      calls++;
+      return schema.parse(JSON.parse(VALID_RESPONSE));
+    };
+    const builder = new MemoryBuilder(llm, embeddings, {
+      windowSize: 2,
+      overlapSize: 1,
+      redundancyThreshold: 0,
+    });
+    builder.addDialogues([
+      { id: 1, speaker: "A", content: "Hello" },
+      { id: 2, speaker: "B", content: "World" },
+    ]);
+    await builder.processWindows();
+
+    expect(await builder.processRemaining()).toEqual([]);
+    expect(calls).toBe(1);
+    expect(builder.getStats().processedDialogues).toBe(2);
+  });
+
+  it("restores flushed windows from a checkpoint", async () => {
+    const config = { redundancyThreshold: 0, idleTimeoutMs: 1000 };
+    const builder = new MemoryBuilder(llm, embeddings, config);
+    builder.addDialogue({ id: 1, speaker: "A", content: "Hello" }, 0);
+    builder.flushDue(1000);
+
+    const restored = new MemoryBuilder(llm, embeddings, config);
+    restored.restore(builder.checkpoint());
+    expect(restored.hasReadyWindows()).toBe(true);
+    expect(await restored.processWindows()).toHaveLength(1);
+  });
+
+  it("checkpoints windows until their units are persisted", async () => {
+    const builder = new MemoryBuilder(llm, embeddings, {
+      windowSize: 2,
+      overlapSize: 0,
+      redundancyThreshold: 0,
+    });
+    const turns = [
+      { id: 1, speaker: "A", content: "Hello" },
+      { id: 2, speaker: "B", content: "World" },
+    ];
+    builder.addDialogues(turns);
+
+    let saved: unknown;
+    await builder.processWindows(async () => {
+      saved = builder.checkpoint().flushedWindows;
+    });
+    expect(saved).toEqual([turns]);
+    expect(builder.checkpoint().flushedWindows).toEqual([]);
+
+    builder.addDialogues([{ id: 3, speaker: "A", content: "Again" }]);
+    await expect(
+      builder.processRemaining(async () => {
+        throw new Error("storage down");
+      }),
+    ).rejects.toThrow("storage down");
+    expect(builder.hasReadyWindows()).toBe(true);
+  });
+
+  it("keeps only the last window's processed keys", async () => {
+    const builder = new MemoryBuilder(llm, embeddings, {
+      windowSize: 2,
+      overlapSize: 0,
+      redundancyThreshold: 0,
+    });
+    builder.addDialogues(
+      [1, 2, 3, 4, 5, 6].map((id) => ({ id, speaker: "A", content: "Hi" })),
+    );
+    await builder.processWindows();
+
+    expect(builder.checkpoint().processedDialogueKeys).toHaveLength(2);
+    expect(builder.getStats().processedDialogues).toBe(6);
+    builder.addDialogue({ id: 6, speaker: "A", content: "Hi" });
+    expect(builder.getStats().bufferedDialogues).toBe(0);
+  });
+
+  it("forgets buffered and flushed turns", () => {
+    const builder = new MemoryBuilder(llm, embeddings, {
+      idleTimeoutMs: 1000,
+    });
+    const turn = (id: number) => ({
+      id,
+      sessionId: "s1",
+      speaker: "A",
+      content: `Turn ${id}`,
+    });
+    builder.addDialogue(turn(1), 0);
+    builder.flushDue(1000);
+    builder.addDialogues([turn(2), turn(3)]);
+
+    builder.forgetDialogues([
+      { sessionId: "s1", dialogueId: 1 },
+      { sessionId: "s1", dialogueId: 2 },
+    ]);
+
+    const checkpoint = builder.checkpoint();
+    expect(checkpoint.flushedWindows).toEqual([]);
+    expect(checkpoint.dialogueBuffer.map((d) => d.id)).toEqual([3]);
   });
 
   it("reset clears all state", () => {
@@ -13,13 +13,19 @@ import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
 import type {
   Dialogue,
+  DialogueRef,
   MemoryUnit,
+  BuilderCheckpoint,
+  FlushReason,
   LLMProvider,
   EmbeddingProvider,
+  EntityType,
   Logger,
 } from "../types/index.js";
-import { consoleLogger } from "../types/index.js";
+import { consoleLogger, EntityTypeSchema } from "../types/index.js";
+import type { EntityRegistry } from "./entities.js";
 import { cosineSimilarity } from "../utils/similarity.js";
+import { dialogueKey, isReferencedDialogue } from "../utils/filter.js";
 import { now } from "../utils/temporal.js";
 
 // =============================================================================
@@ -51,6 +57,40 @@ export interface CompressionConfig {
    * @default 0.5
    */
   entityWeight: number;
+
+  /**
+   * Windows extracted in parallel (concurrent LLM calls). Filtering and
+   * output order stay the same as sequential processing.
+   * @default 1
+   */
+  concurrency: number;
+
+  /**
+   * Flush a partial window once its oldest turn has waited this long
+   * (milliseconds, 0 disables)
+   * @default 0
+   */
+  maxBufferAgeMs: number;
+
+  /**
+   * Flush a partial window once no turn has been added for this long
+   * (milliseconds, 0 disables)
+   * @default 0
+   */
+  idleTimeoutMs: number;
+
+  /**
+   * Flush a partial window before a turn by a different speaker
+   * @default false
+   */
+  flushOnSpeakerChange: boolean;
+
+  /**
+   * Flush a partial window before a turn from a different session, which
+   * ends the previous one
+   * @default false
+   */
+  flushOnSessionEnd: boolean;
 }
 
 export const DEFAULT_COMPRESSION_CONFIG: CompressionConfig = {
@@ -58,8 +98,22 @@ export const DEFAULT_COMPRESSION_CONFIG: CompressionConfig = {
   overlapSize: 2,
   redundancyThreshold: 0.3,
   entityWeight: 0.5,
+  concurrency: 1,
+  maxBufferAgeMs: 0,
+  idleTimeoutMs: 0,
+  flushOnSpeakerChange: false,
+  flushOnSessionEnd: false,
 };
 
+/**
+ * A partial window flushed from the dialogue buffer
+ */
+export interface WindowFlush {
+  reason: FlushReason;
+  /** Flushed turns that no earlier window contained */
+  dialogueCount: number;
+}
+
 // =============================================================================
 // LLM Response Schema
 // =============================================================================
@@ -77,6 +131,7 @@ const ExtractedMemorySchema = z.object({
 
 const ExtractionResponseSchema = z.object({
   memory_units: z.array(ExtractedMemorySchema),
+  entity_types: z.record(z.string()).default({}),
 });
 
 // =============================================================================
@@ -99,40 +154,77 @@ export class MemoryBuilder {
   private embeddings: EmbeddingProvider;
   private config: CompressionConfig;
   private logger: Logger;
+  private entities: EntityRegistry | null;
   private dialogueBuffer: Dialogue[] = [];
-  private processedDialogueIds: Set<number> = new Set();
+  /**
+   * Most recently processed turns, keyed by session and dialogue ID, for
+   * skipping resent ones. Holds at most one window's worth.
+   */
+  private processedDialogueIds: Set<string> = new Set();
+  /** Number of turns processed since the last reset */
+  private processedCount = 0;
   private previousWindowEmbedding: number[] | null = null;
   private previousEntities: Set<string> = new Set();
   private windowCounter = 0;
+  /** When each buffered turn was added (ms since epoch) */
+  private receivedAt: number[] = [];
+  /** Leading buffered turns already extracted as overlap of a window */
+  private windowedTurns = 0;
+  /** Partial windows flushed from the buffer, waiting for extraction */
+  private flushedWindows: Dialogue[][] = [];
+  /** Windows being extracted, by batch, until their units are persisted */
+  private inFlightWindows = new Map<number, Dialogue[][]>();
+  private batchCounter = 0;
 
   constructor(
     llm: LLMProvider,
     embeddings: EmbeddingProvider,
     config: Partial<CompressionConfig> = {},
     logger: Logger = consoleLogger,
+    entities: EntityRegistry | null = null,
   ) {
     this.llm = llm;
     this.embeddings = embeddings;
     this.config = { ...DEFAULT_COMPRESSION_CONFIG, ...config };
     this.logger = logger;
+    this.entities = entities;
   }
 
   /**
-   * Add a single dialogue to the buffer
+   * Add a single dialogue to the buffer. Pending turns are flushed as a
+   * partial window first when a flush policy applies.
+   *
+   * @param at Time the dialogue arrived (ms since epoch)
+   * @returns The flush this dialogue triggered, if any
    */
-  addDialogue(dialogue: Dialogue): void {
-    if (!this.processedDialogueIds.has(dialogue.id)) {
-      this.dialogueBuffer.push(dialogue);
+  addDialogue(dialogue: Dialogue, at = Date.now()): WindowFlush | null {
+    const key = dialogueKey(dialogue);
+    if (
+      this.processedDialogueIds.has(key) ||
+      this.dialogueBuffer.some((d) => dialogueKey(d) === key)
+    ) {
+      return null;
     }
+
+    const reason = this.boundaryReason(dialogue) ?? this.dueReason(at);
+    const flush = reason ? this.flush(reason) : null;
+    this.dialogueBuffer.push(dialogue);
+    this.receivedAt.push(at);
+    return flush;
   }
 
   /**
    * Add multiple dialogues to the buffer
+   *
+   * @returns The flushes these dialogues triggered
    */
-  addDialogues(dialogues: Dialogue[]): void {
+  addDialogues(dialogues: Dialogue[], at = Date.now()): WindowFlush[] {
+    const flushes: WindowFlush[] = [];
     for (const dialogue of dialogues) {
-      this.addDialogue(dialogue);
+      const flush = this.addDialogue(dialogue, at);
+      if (flush) flushes.push(flush);
     }
+    return flushes;
   }
 
   /**
@@ -143,36 +235,83 @@ export class MemoryBuilder {
   }
 
   /**
-   * Process all pending windows and return extracted memory units
+   * Check if processWindows() has flushed or full windows to extract
    */
-  async processWindows(): Promise<MemoryUnit[]> {
-    const allUnits: MemoryUnit[] = [];
+  hasReadyWindows(): boolean {
+    return this.flushedWindows.length > 0 || this.hasFullWindow();
+  }
 
-    while (this.hasFullWindow()) {
-      const window = this.extractWindow();
-      const units = await this.processWindow(window);
-      allUnits.push(...units);
-    }
+  /**
+   * Flush pending turns as a partial window if the buffer age or idle
+   * timeout has passed. processWindows() extracts it.
+   *
+   * @param at Current time (ms since epoch)
+   */
+  flushDue(at = Date.now()): WindowFlush | null {
+    const reason = this.dueReason(at);
+    return reason ? this.flush(reason) : null;
+  }
 
-    return allUnits;
+  /**
+   * Time (ms since epoch) at which the buffer age or idle timeout falls
+   * due, or null if no pending turns are subject to one
+   */
+  nextFlushAt(): number | null {
+    if (this.pendingTurns() === 0) return null;
+
+    const deadlines: number[] = [];
+    if (this.config.maxBufferAgeMs > 0) {
+      deadlines.push(
+        this.receivedAt[this.windowedTurns] + this.config.maxBufferAgeMs,
+      );
+    }
+    if (this.config.idleTimeoutMs > 0) {
+      deadlines.push(
+        this.receivedAt[this.receivedAt.length - 1] + this.config.idleTimeoutMs,
+      );
+    }
+    return deadlines.length > 0 ? Math.min(...deadlines) : null;
   }
 
   /**
-   * Process remaining dialogues (less than a full window)
+   * Process flushed and full windows and return extracted memory units
+   *
+   * @param persist Saves the extracted units. The windows stay in
+   *   checkpoints until it resolves, and are queued again if extraction
+   *   or persist fails.
    */
-  async processRemaining(): Promise<MemoryUnit[]> {
-    if (this.dialogueBuffer.length === 0) {
-      return [];
+  async processWindows(
+    persist?: (units: MemoryUnit[]) => Promise<void>,
+  ): Promise<MemoryUnit[]> {
+    const windows = this.flushedWindows;
+    this.flushedWindows = [];
+    while (this.hasFullWindow()) {
+      windows.push(this.extractWindow());
     }
+    return this.processInFlight(windows, persist);
+  }
 
-    const window = [...this.dialogueBuffer];
-    this.dialogueBuffer = [];
+  /**
+   * Process remaining dialogues (less than a full window)
+   *
+   * @param persist Saves the extracted units, as for processWindows()
+   */
+  async processRemaining(
+    persist?: (units: MemoryUnit[]) => Promise<void>,
+  ): Promise<MemoryUnit[]> {
+    const windows = this.flushedWindows;
+    this.flushedWindows = [];
 
-    for (const d of window) {
-      this.processedDialogueIds.add(d.id);
+    // A buffer holding only overlap turns was already extracted
+    if (this.pendingTurns() > 0) {
+      windows.push([...this.dialogueBuffer]);
     }
+    this.markProcessed(this.dialogueBuffer);
+    this.dialogueBuffer = [];
+    this.receivedAt = [];
+    this.windowedTurns = 0;
 
-    return this.processWindow(window);
+    return this.processInFlight(windows, persist);
   }
 
   /**
@@ -183,61 +322,228 @@ export class MemoryBuilder {
     text: string,
     timestamp?: string,
   ): Promise<MemoryUnit[]> {
-    const dialogue: Dialogue = {
-      id: -(++this.windowCounter), // negative IDs avoid collision with addDialogue
-      speaker: "system",
-      content: text,
-      timestamp: timestamp ?? now(),
-    };
-    return this.processWindow([dialogue]);
+    return this.processTexts([text], timestamp);
+  }
+
+  /**
+   * Process several texts, one window each, extracting up to
+   * `concurrency` of them at a time. Used by addDocument() for chunks.
+   */
+  async processTexts(
+    texts: string[],
+    timestamp?: string,
+  ): Promise<MemoryUnit[]> {
+    const windows = texts.map((text) => [
+      {
+        id: -(++this.windowCounter), // negative IDs avoid collision with addDialogue
+        speaker: "system",
+        content: text,
+        timestamp: timestamp ?? now(),
+      },
+    ]);
+    return this.processBatch(windows);
   }
 
   /**
    * Extract a window from the buffer (with overlap handling)
+   *
+   * @param size Window size; smaller for a flushed partial window
    */
-  private extractWindow(): Dialogue[] {
-    const window = this.dialogueBuffer.slice(0, this.config.windowSize);
+  private extractWindow(size = this.config.windowSize): Dialogue[] {
+    const window = this.dialogueBuffer.slice(0, size);
 
-    // Move buffer forward, keeping overlap
-    const stride = this.config.windowSize - this.config.overlapSize;
+    // Move buffer forward, keeping overlap (always by at least one turn)
+    const stride = Math.max(1, window.length - this.config.overlapSize);
     const consumed = this.dialogueBuffer.slice(0, stride);
     this.dialogueBuffer = this.dialogueBuffer.slice(stride);
+    this.receivedAt = this.receivedAt.slice(stride);
+    this.windowedTurns = window.length - stride;
 
     // Mark consumed dialogues as processed
-    for (const d of consumed) {
-      this.processedDialogueIds.add(d.id);
-    }
+    this.markProcessed(consumed);
 
     return window;
   }
 
   /**
-   * Process a single window and extract memory units
+   * Remember processed turns, keeping only the last window's worth of
+   * keys so checkpoints stay small
+   */
+  private markProcessed(dialogues: Dialogue[]): void {
+    for (const d of dialogues) {
+      const key = dialogueKey(d);
+      if (this.processedDialogueIds.has(key)) continue;
+      this.processedDialogueIds.add(key);
+      this.processedCount++;
+    }
+
+    const excess = this.processedDialogueIds.size - this.config.windowSize;
+    if (excess > 0) {
+      this.processedDialogueIds = new Set(
+        [...this.processedDialogueIds].slice(excess),
+      );
+    }
+  }
+
+  /**
+   * Extract windows while keeping them in checkpoints, then persist the
+   * units. Failed windows are queued again so they are not lost, and the
+   * filter state is rolled back so they are not scored against themselves
+   * when replayed.
+   */
+  private async processInFlight(
+    windows: Dialogue[][],
+    persist?: (units: MemoryUnit[]) => Promise<void>,
+  ): Promise<MemoryUnit[]> {
+    if (windows.length === 0) return [];
+
+    const batch = ++this.batchCounter;
+    this.inFlightWindows.set(batch, windows);
+    const previousEntities = new Set(this.previousEntities);
+    const previousWindowEmbedding = this.previousWindowEmbedding;
+    try {
+      const units = await this.processBatch(windows);
+      await persist?.(units);
+      this.inFlightWindows.delete(batch);
+      return units;
+    } catch (error) {
+      this.previousEntities = previousEntities;
+      this.previousWindowEmbedding = previousWindowEmbedding;
+      this.flushedWindows.unshift(...this.inFlightWindows.get(batch)!);
+      this.inFlightWindows.delete(batch);
+      throw error;
+    }
+  }
+
+  /**
+   * Move the buffer into windows for a flush policy: any full windows,
+   * then the pending remainder as a partial window
+   */
+  private flush(reason: FlushReason): WindowFlush {
+    const dialogueCount = this.pendingTurns();
+    while (this.hasFullWindow()) {
+      this.flushedWindows.push(this.extractWindow());
+    }
+    if (this.pendingTurns() > 0) {
+      this.flushedWindows.push(this.extractWindow(this.dialogueBuffer.length));
+    }
+    return { reason, dialogueCount };
+  }
+
+  /**
+   * Buffered turns not yet part of any window
+   */
+  private pendingTurns(): number {
+    return this.dialogueBuffer.length - this.windowedTurns;
+  }
+
+  /**
+   * Speaker or session boundary between the buffer and the next turn
+   */
+  private boundaryReason(next: Dialogue): FlushReason | null {
+    if (this.pendingTurns() === 0) return null;
+
+    const last = this.dialogueBuffer[this.dialogueBuffer.length - 1];
+    if (this.config.flushOnSessionEnd && last.sessionId !== next.sessionId) {
+      return "session_end";
+    }
+    if (this.config.flushOnSpeakerChange && last.speaker !== next.speaker) {
+      return "speaker_change";
+    }
+    return null;
+  }
+
+  /**
+   * Time-based policy that has fallen due at `at`
+   */
+  private dueReason(at: number): FlushReason | null {
+    if (this.pendingTurns() === 0) return null;
+
+    const { maxBufferAgeMs, idleTimeoutMs } = this.config;
+    const oldest = this.receivedAt[this.windowedTurns];
+    const latest = this.receivedAt[this.receivedAt.length - 1];
+    if (maxBufferAgeMs > 0 && at - oldest >= maxBufferAgeMs) {
+      return "max_age";
+    }
+    if (idleTimeoutMs > 0 && at - latest >= idleTimeoutMs) {
+      return "idle";
+    }
+    return null;
+  }
+
+  /**
+   * Process windows in order and extract memory units
    *
    * De-linearization Transformation F_θ: W_t → {m_k}
    * F_θ = Φ_time ∘ Φ_coref ∘ Φ_extract
+   *
+   * Filtering and context depend on the windows before, so they are
+   * computed sequentially up front. Extraction then runs `concurrency`
+   * windows at a time, and units are returned (and their names resolved)
+   * in window order however the LLM calls interleave.
    */
-  private async processWindow(window: Dialogue[]): Promise<MemoryUnit[]> {
-    this.windowCounter++;
+  private async processBatch(windows: Dialogue[][]): Promise<MemoryUnit[]> {
+    if (windows.length === 0) return [];
+
+    // Steps 1-2: Score windows and build context from the previous window
+    const planned = await this.planWindows(windows);
 
-    // Step 1: Compute information score for entropy-aware filtering
-    const infoScore = await this.computeInformationScore(window);
+    // Step 3: Extract memory units via LLM
+    const allUnits: MemoryUnit[] = [];
+    const size = Math.max(1, Math.floor(this.config.concurrency));
+    for (let start = 0; start < planned.length; start += size) {
+      const knownEntities = this.entities
+        ? await this.entities.describeKnown()
+        : "";
+      const batch = await Promise.all(
+        planned
+          .slice(start, start + size)
+          .map(({ window, context }) =>
+            this.extractMemoryUnits(window, context, knownEntities),
+          ),
+      );
 
-    if (infoScore < this.config.redundancyThreshold) {
-      // Low-information window - skip processing
-      return [];
+      for (const { units, entityTypes } of batch) {
+        await this.resolveEntities(units, entityTypes);
+        allUnits.push(...units);
+      }
     }
 
-    // Step 2: Build context from previous window
-    const context = this.buildPreviousContext();
+    return allUnits;
+  }
 
-    // Step 3: Extract memory units via LLM
-    const units = await this.extractMemoryUnits(window, context);
+  /**
+   * Filter windows and build each kept window's context, in order
+   *
+   * Window embeddings are computed in one call; skipped windows leave the
+   * previous-window state untouched.
+   */
+  private async planWindows(
+    windows: Dialogue[][],
+  ): Promise<Array<{ window: Dialogue[]; context: string }>> {
+    const texts = windows.map((window) =>
+      window.map((d) => `${d.speaker}: ${d.content}`).join("\n"),
+    );
+    const embeddings = await this.embeddings.embed(texts);
+
+    const planned: Array<{ window: Dialogue[]; context: string }> = [];
+    for (let i = 0; i < windows.length; i++) {
+      this.windowCounter++;
 
-    // Step 4: Update state for next window
-    await this.updateWindowState(window);
+      const infoScore = this.computeInformationScore(texts[i], embeddings[i]);
+      if (infoScore < this.config.redundancyThreshold) {
+        // Low-information window - skip processing
+        continue;
+      }
+
+      planned.push({
+        window: windows[i],
+        context: this.buildPreviousContext(),
+      });
+      this.updateWindowState(texts[i], embeddings[i]);
+    }
 
-    return units;
+    return planned;
   }
 
   /**
@@ -246,11 +552,11 @@ export class MemoryBuilder {
    * Paper Reference: Section 3.1 - Information Filtering
    * H(W_t) = α · |ℰ_new| + (1-α) · (1 - cos(E(W_t), E(H_prev)))
    */
-  private async computeInformationScore(window: Dialogue[]): Promise<number> {
+  private computeInformationScore(
+    windowText: string,
+    embedding: number[],
+  ): number {
     // Extract entities from current window
-    const windowText = window
-      .map((d) => `${d.speaker}: ${d.content}`)
-      .join("\n");
     const currentEntities = this.extractBasicEntities(windowText);
 
     // Count new entities not seen before
@@ -263,9 +569,8 @@ export class MemoryBuilder {
     let semanticScore = 1.0; // Default: maximum novelty
 
     if (this.previousWindowEmbedding) {
-      const [currentEmbedding] = await this.embeddings.embed([windowText]);
       const similarity = cosineSimilarity(
-        currentEmbedding,
+        embedding,
         this.previousWindowEmbedding,
       );
       semanticScore = 1 - similarity; // Divergence = 1 - similarity
@@ -309,31 +614,30 @@ export class MemoryBuilder {
   }
 
   /**
-   * Update state after processing a window
+   * Update state after keeping a window
    */
-  private async updateWindowState(window: Dialogue[]): Promise<void> {
-    const windowText = window
-      .map((d) => `${d.speaker}: ${d.content}`)
-      .join("\n");
-
-    // Update embedding
-    const [embedding] = await this.embeddings.embed([windowText]);
+  private updateWindowState(windowText: string, embedding: number[]): void {
     this.previousWindowEmbedding = embedding;
 
-    // Update entities
-    const entities = this.extractBasicEntities(windowText);
-    for (const e of entities) {
+    for (const e of this.extractBasicEntities(windowText)) {
       this.previousEntities.add(e.toLowerCase());
     }
   }
 
   /**
    * Extract memory units from a window via LLM
+   *
+   * Failures are thrown, so the window stays queued instead of being
+   * marked processed without units.
    */
   private async extractMemoryUnits(
     window: Dialogue[],
     context: string,
-  ): Promise<MemoryUnit[]> {
+    knownEntities: string,
+  ): Promise<{
+    units: MemoryUnit[];
+    entityTypes: Record<string, EntityType>;
+  }> {
     const dialogueText = window
       .map((d) => {
         const timeStr = d.timestamp ? `[${d.timestamp}] ` : "";
@@ -342,42 +646,64 @@ export class MemoryBuilder {
       .join("\n");
 
     const dialogueIds = window.map((d) => d.id);
+    const sourceDialogues = window
+      .filter((d) => d.sessionId !== undefined)
+      .map((d) => ({ sessionId: d.sessionId!, dialogueId: d.id }));
     const windowStartTime = window[0]?.timestamp ?? now();
 
     const prompt = this.buildExtractionPrompt(
       dialogueText,
       windowStartTime,
       context,
+      knownEntities,
     );
 
-    try {
-      const response = await this.llm.completeJSON(
-        prompt,
-        ExtractionResponseSchema,
-      );
+    const response = await this.llm.completeJSON(
+      prompt,
+      ExtractionResponseSchema,
+    );
+
+    const units = response.memory_units.map(
+      (unit) =>
+        ({
+          id: uuidv4(),
+          content: unit.content,
+          keywords: unit.keywords ?? [], // Fix: Ensure array not undefined
+          timestamp: unit.timestamp ?? undefined,
+          location: unit.location ?? undefined,
+          persons: unit.persons ?? [], // Fix: Ensure array not undefined
+          entities: unit.entities ?? [], // Fix: Ensure array not undefined
+          topic: unit.topic ?? undefined,
+          salience: unit.salience,
+          sourceDialogueIds: dialogueIds,
+          sourceDialogues:
+            sourceDialogues.length > 0 ? sourceDialogues : undefined,
+          createdAt: now(),
+        }) as MemoryUnit,
+    ); // Cast to satisfy strict check if needed, but values should align
+
+    return {
+      units,
+      entityTypes: parseEntityTypes(response.entity_types ?? {}),
+    };
+  }
 
-      return response.memory_units.map(
-        (unit) =>
-          ({
-            id: uuidv4(),
-            content: unit.content,
-            keywords: unit.keywords ?? [], // Fix: Ensure array not undefined
-            timestamp: unit.timestamp ?? undefined,
-            location: unit.location ?? undefined,
-            persons: unit.persons ?? [], // Fix: Ensure array not undefined
-            entities: unit.entities ?? [], // Fix: Ensure array not undefined
-            topic: unit.topic ?? undefined,
-            salience: unit.salience,
-            sourceDialogueIds: dialogueIds,
-            createdAt: now(),
-          }) as MemoryUnit,
-      ); // Cast to satisfy strict check if needed, but values should align
+  /**
+   * Rewrite names to their canonical registry entries
+   */
+  private async resolveEntities(
+    units: MemoryUnit[],
+    entityTypes: Record<string, EntityType>,
+  ): Promise<void> {
+    if (!this.entities || units.length === 0) return;
+
+    try {
+      await this.entities.resolveUnits(units, entityTypes);
     } catch (error) {
       this.logger.warn(
-        "Failed to extract memory units from window, returning empty result",
+        "Entity resolution failed, keeping extracted names",
         error,
       );
-      return [];
     }
   }
 
@@ -390,7 +716,12 @@ export class MemoryBuilder {
     dialogueText: string,
     windowStartTime: string,
     context: string,
+    knownEntities = "",
   ): string {
+    const knownSection = knownEntities
+      ? `\nKNOWN ENTITIES (canonical name, type, other names):\n${knownEntities}\n`
+      : "";
+
     return `You are a memory encoder in a long-term memory system. Your task is to transform raw conversational input into compact, self-contained memory units.
 
 INPUT METADATA:
@@ -398,7 +729,7 @@ Window Start Time: ${windowStartTime} (ISO 8601)
 
 PREVIOUS CONTEXT:
 ${context}
-
+${knownSection}
 CURRENT DIALOGUE:
 ${dialogueText}
 
@@ -421,6 +752,11 @@ INSTRUCTIONS:
    - Decompose complex utterances into minimal, indivisible factual statements.
    - Each memory unit should represent ONE atomic fact.
 
+5. Entity Names:
+   - List persons and entities by bare name, without descriptors ("Bob", not "my brother Bob").
+   - Refer to known entities by their canonical name.
+   - Classify each entity in "entity_types" as "organization", "location" or "other".
+
 OUTPUT FORMAT (JSON):
 {
   "memory_units": [
@@ -434,12 +770,86 @@ OUTPUT FORMAT (JSON):
       "topic": "Meeting Planning",
       "salience": "high"
     }
-  ]
+  ],
+  "entity_types": {"Starbucks": "organization"}
 }
 
 Return ONLY the JSON object, no other text.`;
   }
 
+  /**
+   * Drop turns from the buffer and from flushed windows, e.g. when the
+   * memories extracted from them are forgotten
+   */
+  forgetDialogues(refs: DialogueRef[]): void {
+    const kept = this.dialogueBuffer.map(
+      (d) => !isReferencedDialogue(d, refs),
+    );
+    this.windowedTurns = kept
+      .slice(0, this.windowedTurns)
+      .filter(Boolean).length;
+    this.dialogueBuffer = this.dialogueBuffer.filter((_, i) => kept[i]);
+    this.receivedAt = this.receivedAt.filter((_, i) => kept[i]);
+
+    const scrub = (windows: Dialogue[][]) =>
+      windows
+        .map((window) => window.filter((d) => !isReferencedDialogue(d, refs)))
+        .filter((window) => window.length > 0);
+    this.flushedWindows = scrub(this.flushedWindows);
+    for (const [batch, windows] of this.inFlightWindows) {
+      this.inFlightWindows.set(batch, scrub(windows));
+    }
+  }
+
+  /**
+   * Snapshot of the buffer and windowing state, for persistence. Windows
+   * still being extracted are saved as flushed windows, so a restored
+   * builder extracts them again.
+   */
+  checkpoint(): BuilderCheckpoint {
+    const pending = [...this.inFlightWindows.values()].flat();
+    return {
+      dialogueBuffer: this.dialogueBuffer.map((d) => ({ ...d })),
+      processedDialogueKeys: [...this.processedDialogueIds],
+      processedDialogues: this.processedCount,
+      previousEntities: [...this.previousEntities],
+      previousWindowEmbedding: this.previousWindowEmbedding
+        ? [...this.previousWindowEmbedding]
+        : null,
+      windowCounter: this.windowCounter,
+      receivedAt: this.receivedAt.map((at) => new Date(at).toISOString()),
+      windowedTurns: this.windowedTurns,
+      flushedWindows: [...pending, ...this.flushedWindows].map((window) =>
+        window.map((d) => ({ ...d })),
+      ),
+      updatedAt: now(),
+    };
+  }
+
+  /**
+   * Replace the builder state with a checkpoint
+   */
+  restore(checkpoint: BuilderCheckpoint): void {
+    this.dialogueBuffer = checkpoint.dialogueBuffer.map((d) => ({ ...d }));
+    this.processedDialogueIds = new Set(checkpoint.processedDialogueKeys);
+    this.processedCount =
+      checkpoint.processedDialogues ?? checkpoint.processedDialogueKeys.length;
+    this.previousEntities = new Set(checkpoint.previousEntities);
+    this.previousWindowEmbedding = checkpoint.previousWindowEmbedding
+      ? [...checkpoint.previousWindowEmbedding]
+      : null;
+    this.windowCounter = checkpoint.windowCounter;
+    // Checkpoints without arrival times count turns as arriving now
+    this.receivedAt = this.dialogueBuffer.map((_, i) => {
+      const at = checkpoint.receivedAt?.[i];
+      return at ? Date.parse(at) : Date.now();
+    });
+    this.windowedTurns = checkpoint.windowedTurns ?? 0;
+    this.flushedWindows = (checkpoint.flushedWindows ?? []).map((window) =>
+      window.map((d) => ({ ...d })),
+    );
+  }
+
   /**
    * Get statistics about the current state
    */
@@ -451,7 +861,7 @@ Return ONLY the JSON object, no other text.`;
   } {
     return {
       bufferedDialogues: this.dialogueBuffer.length,
-      processedDialogues: this.processedDialogueIds.size,
+      processedDialogues: this.processedCount,
       windowsProcessed: this.windowCounter,
       knownEntities: this.previousEntities.size,
     };
@@ -463,8 +873,27 @@ Return ONLY the JSON object, no other text.`;
   reset(): void {
     this.dialogueBuffer = [];
     this.processedDialogueIds.clear();
+    this.processedCount = 0;
     this.previousWindowEmbedding = null;
     this.previousEntities.clear();
     this.windowCounter = 0;
+    this.receivedAt = [];
+    this.windowedTurns = 0;
+    this.flushedWindows = [];
+    this.inFlightWindows.clear();
+  }
+}
+
+/**
+ * Keep extraction entity types the registry understands
+ */
+function parseEntityTypes(
+  types: Record<string, string>,
+): Record<string, EntityType> {
+  const parsed: Record<string, EntityType> = {};
+  for (const [name, type] of Object.entries(types)) {
+    const result = EntityTypeSchema.safeParse(type.toLowerCase());
+    if (result.success) parsed[name] = result.data;
   }
+  return parsed;
 }
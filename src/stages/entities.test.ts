@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { v4 as uuidv4 } from "uuid";
+import type { MemoryUnit } from "../types/index";
+import { silentLogger } from "../types/index";
+import { MemoryStorage } from "../storage/memory";
+import { EntityRegistry } from "./entities";
+
+function makeUnit(overrides: Partial<MemoryUnit> = {}): MemoryUnit {
+  return {
+    id: uuidv4(),
+    content: "Alice meets Bob at Starbucks on Monday",
+    keywords: [],
+    persons: [],
+    entities: [],
+    sourceDialogueIds: [],
+    salience: "medium",
+    timestamp: "2025-06-15T14:00:00.000Z",
+    createdAt: "2025-06-15T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("EntityRegistry", () => {
+  let storage: MemoryStorage;
+  let registry: EntityRegistry;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    registry = new EntityRegistry(storage, {}, silentLogger);
+  });
+
+  it("links partial names to a known entity", async () => {
+    const first = makeUnit({
+      persons: ["Bob Smith"],
+      timestamp: "2025-06-01T00:00:00.000Z",
+    });
+    const second = makeUnit({
+      persons: ["Bob", "bob smith"],
+      timestamp: "2025-06-20T00:00:00.000Z",
+    });
+    await registry.resolveUnits([first, second]);
+
+    expect(second.persons).toEqual(["Bob Smith"]);
+    const [bob] = await registry.list();
+    expect(bob).toMatchObject({
+      name: "Bob Smith",
+      type: "person",
+      aliases: ["Bob"],
+      mentionCount: 2,
+      firstSeen: "2025-06-01T00:00:00.000Z",
+      lastSeen: "2025-06-20T00:00:00.000Z",
+    });
+  });
+
+  it("links short and full names in either order", async () => {
+    for (const order of [
+      ["Bob", "Bob Smith"],
+      ["Bob Smith", "Bob"],
+    ]) {
+      const fresh = new EntityRegistry(new MemoryStorage(), {}, silentLogger);
+      const [first, second] = order.map((name) =>
+        makeUnit({ persons: [name] }),
+      );
+      await fresh.resolveUnits([first]);
+      await fresh.resolveUnits([second]);
+
+      expect(second.persons).toEqual(first.persons);
+      expect(fresh.size).toBe(1);
+      expect((await fresh.get(order[1]))?.aliases).toEqual([order[1]]);
+    }
+  });
+
+  it("does not link a full name to several short names", async () => {
+    await registry.resolveUnits([makeUnit({ persons: ["Bob", "Smith"] })]);
+    const unit = makeUnit({ persons: ["Bob Smith"] });
+    await registry.resolveUnits([unit]);
+
+    expect(unit.persons).toEqual(["Bob Smith"]);
+    expect(registry.size).toBe(3);
+  });
+
+  it("keeps ambiguous names separate", async () => {
+    await registry.resolveUnits([
+      makeUnit({ persons: ["Bob Smith", "Bob Jones"] }),
+    ]);
+    const unit = makeUnit({ persons: ["Bob"] });
+    await registry.resolveUnits([unit]);
+
+    expect(unit.persons).toEqual(["Bob"]);
+    expect(registry.size).toBe(3);
+  });
+
+  it("links typos and applies extracted types", async () => {
+    await registry.resolveUnits([makeUnit({ entities: ["Starbucks"] })], {
+      Starbucks: "organization",
+    });
+    const unit = makeUnit({ entities: ["Starbuks"] });
+    await registry.resolveUnits([unit]);
+
+    expect(unit.entities).toEqual(["Starbucks"]);
+    expect((await registry.get("starbuks"))?.type).toBe("organization");
+  });
+
+  it("matches persons and other entities separately", async () => {
+    const unit = makeUnit({ persons: ["Jordan"], entities: ["Jordan"] });
+    await registry.resolveUnits([unit], { Jordan: "location" });
+
+    expect((await registry.list("person")).map((e) => e.name)).toEqual([
+      "Jordan",
+    ]);
+    expect((await registry.list("location")).map((e) => e.name)).toEqual([
+      "Jordan",
+    ]);
+  });
+
+  it("renames an entity and keeps the old name as an alias", async () => {
+    await registry.resolveUnits([makeUnit({ persons: ["Bob", "Alice"] })]);
+
+    const renamed = await registry.rename("bob", "Robert Smith");
+    expect(renamed).toMatchObject({ name: "Robert Smith", aliases: ["Bob"] });
+    expect(await registry.canonicalNames(["Bob"], "person")).toEqual([
+      "Robert Smith",
+    ]);
+    await expect(registry.rename("Robert Smith", "Alice")).rejects.toThrow(
+      /merge/,
+    );
+    expect(await registry.rename("Nobody", "X")).toBeNull();
+  });
+
+  it("merges entities and deletes the sources", async () => {
+    await registry.resolveUnits([
+      makeUnit({ persons: ["Bob Smith"] }),
+      makeUnit({ persons: ["Robert"] }),
+    ]);
+
+    const merged = await registry.merge("Bob Smith", ["Robert"]);
+    expect(merged).toMatchObject({ aliases: ["Robert"], mentionCount: 2 });
+    expect(await storage.getAllEntities()).toHaveLength(1);
+    expect(await registry.canonicalNames(["Robert", "Carol"])).toEqual([
+      "Bob Smith",
+      "Carol",
+    ]);
+  });
+
+  it("reloads from storage", async () => {
+    await registry.resolveUnits([makeUnit({ persons: ["Bob Smith"] })]);
+    await registry.resolveUnits([makeUnit({ persons: ["Bob"] })]);
+
+    const reloaded = new EntityRegistry(storage, {}, silentLogger);
+    expect((await reloaded.get("Bob"))?.name).toBe("Bob Smith");
+    expect(await reloaded.describeKnown()).toBe(
+      "- Bob Smith (person; also: Bob)",
+    );
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Entity Registry - Canonical names for persons and entities
+ *
+ * Extraction yields persons and entities as free strings, so one person
+ * can appear as "Bob" and "Bob Smith". The registry keeps one canonical
+ * entity per real-world referent, with its aliases, type and first/last
+ * mention, and rewrites extracted names to the canonical form so filters
+ * and abstraction clustering see a single name.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type {
+  Entity,
+  EntityType,
+  MemoryUnit,
+  StorageAdapter,
+  Logger,
+} from "../types/index.js";
+import { consoleLogger } from "../types/index.js";
+import { fuzzyMatchNames, nameSimilarity } from "../utils/fuzzy.js";
+import { dayjs, now } from "../utils/temporal.js";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface EntityConfig {
+  /**
+   * Resolve extracted persons and entities against the registry
+   * @default true
+   */
+  enabled: boolean;
+
+  /**
+   * Minimum name similarity for linking a new surface form to a known
+   * entity. A name whose tokens all appear in a known name, or that
+   * contains all of a known name's tokens ("Bob" and "Bob Smith", in
+   * either order), links regardless when exactly one entity matches.
+   * @default 0.95
+   */
+  matchThreshold: number;
+
+  /**
+   * Known entities listed in the extraction prompt, most mentioned first
+   * @default 30
+   */
+  promptLimit: number;
+}
+
+export const DEFAULT_ENTITY_CONFIG: EntityConfig = {
+  enabled: true,
+  matchThreshold: 0.95,
+  promptLimit: 30,
+};
+
+/** Persons and other entities are matched separately */
+type EntityKind = "person" | "entity";
+
+function kindOf(type: EntityType): EntityKind {
+  return type === "person" ? "person" : "entity";
+}
+
+function nameKey(kind: EntityKind, name: string): string {
+  return `${kind}:${name.trim().toLowerCase()}`;
+}
+
+// =============================================================================
+// Entity Registry
+// =============================================================================
+
+export class EntityRegistry {
+  private storage: StorageAdapter;
+  private config: EntityConfig;
+  private logger: Logger;
+  private entities: Map<string, Entity> = new Map();
+  /** Kind-qualified lowercase name or alias → entity ID */
+  private names: Map<string, string> = new Map();
+  private loaded = false;
+
+  constructor(
+    storage: StorageAdapter,
+    config: Partial<EntityConfig> = {},
+    logger: Logger = consoleLogger,
+  ) {
+    this.storage = storage;
+    this.config = { ...DEFAULT_ENTITY_CONFIG, ...config };
+    this.logger = logger;
+  }
+
+  /**
+   * List entities, most mentioned first
+   */
+  async list(type?: EntityType): Promise<Entity[]> {
+    await this.ensureLoaded();
+    return [...this.entities.values()]
+      .filter((e) => type === undefined || e.type === type)
+      .sort(
+        (a, b) =>
+          b.mentionCount - a.mentionCount || a.name.localeCompare(b.name),
+      );
+  }
+
+  /**
+   * Find an entity by canonical name or alias (case-insensitive)
+   */
+  async get(name: string): Promise<Entity | null> {
+    await this.ensureLoaded();
+    return this.lookup(name, "entity") ?? this.lookup(name, "person");
+  }
+
+  /**
+   * Rewrite the persons and entities of new units to canonical names,
+   * registering unknown names and updating mention counts and first/last
+   * seen times
+   *
+   * @param types - Entity types suggested by extraction, keyed by name
+   */
+  async resolveUnits(
+    units: MemoryUnit[],
+    types: Record<string, EntityType> = {},
+  ): Promise<void> {
+    await this.ensureLoaded();
+
+    const typeOf = new Map(
+      Object.entries(types).map(([name, type]) => [name.toLowerCase(), type]),
+    );
+    const touched = new Set<Entity>();
+
+    for (const unit of units) {
+      const seenAt = unit.timestamp ?? unit.createdAt ?? now();
+      const mentioned = new Set<string>();
+      const resolve = (name: string, type: EntityType) => {
+        const entity = this.resolveName(name, type, seenAt, mentioned);
+        touched.add(entity);
+        return entity.name;
+      };
+
+      unit.persons = [
+        ...new Set(
+          unit.persons
+            .filter((n) => n.trim())
+            .map((n) => resolve(n, "person")),
+        ),
+      ];
+      unit.entities = [
+        ...new Set(
+          unit.entities
+            .filter((n) => n.trim())
+            .map((n) => resolve(n, typeOf.get(n.toLowerCase()) ?? "other")),
+        ),
+      ];
+    }
+
+    for (const entity of touched) {
+      await this.storage.saveEntity(entity);
+    }
+  }
+
+  /**
+   * Map names to the canonical names of known entities, leaving unknown
+   * names unchanged. Without a type, names are looked up as entities
+   * first, then as persons.
+   */
+  async canonicalNames(names: string[], type?: EntityType): Promise<string[]> {
+    await this.ensureLoaded();
+    const canonical = names.map((name) => {
+      const entity =
+        type !== undefined
+          ? this.lookup(name, kindOf(type))
+          : (this.lookup(name, "entity") ?? this.lookup(name, "person"));
+      return entity?.name ?? name;
+    });
+    return [...new Set(canonical)];
+  }
+
+  /**
+   * Give an entity a new canonical name; the old name becomes an alias
+   *
+   * @returns The renamed entity, or null if `name` is unknown
+   */
+  async rename(name: string, newName: string): Promise<Entity | null> {
+    const entity = await this.get(name);
+    if (!entity) return null;
+
+    const kind = kindOf(entity.type);
+    const existing = this.lookup(newName, kind);
+    if (existing && existing.id !== entity.id) {
+      throw new Error(
+        `"${newName}" already names entity "${existing.name}"; merge them instead`,
+      );
+    }
+
+    this.unindex(entity);
+    const previous = entity.name;
+    entity.name = newName;
+    entity.aliases = entity.aliases.filter(
+      (a) => a.toLowerCase() !== newName.toLowerCase(),
+    );
+    if (previous.toLowerCase() !== newName.toLowerCase()) {
+      entity.aliases.push(previous);
+    }
+    this.index(entity);
+
+    await this.storage.saveEntity(entity);
+    return entity;
+  }
+
+  /**
+   * Merge entities into a target: their names and aliases become aliases
+   * of the target, and mention counts and seen times are combined
+   *
+   * @returns The target entity, or null if `target` is unknown
+   */
+  async merge(target: string, sources: string[]): Promise<Entity | null> {
+    const entity = await this.get(target);
+    if (!entity) return null;
+
+    this.unindex(entity);
+    for (const name of sources) {
+      const source = await this.get(name);
+      if (!source || source.id === entity.id) continue;
+
+      this.unindex(source);
+      this.entities.delete(source.id);
+      await this.storage.deleteEntity(source.id);
+
+      for (const alias of [source.name, ...source.aliases]) {
+        this.addAlias(entity, alias);
+      }
+      entity.mentionCount += source.mentionCount;
+      entity.firstSeen = earliest(entity.firstSeen, source.firstSeen);
+      entity.lastSeen = latest(entity.lastSeen, source.lastSeen);
+      if (entity.type === "other") entity.type = source.type;
+    }
+    this.index(entity);
+
+    await this.storage.saveEntity(entity);
+    return entity;
+  }
+
+  /**
+   * Known entities formatted for the extraction prompt, or an empty string
+   */
+  async describeKnown(limit = this.config.promptLimit): Promise<string> {
+    const entities = (await this.list()).slice(0, limit);
+    return entities
+      .map((e) => {
+        const aliases =
+          e.aliases.length > 0 ? `; also: ${e.aliases.join(", ")}` : "";
+        return `- ${e.name} (${e.type}${aliases})`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Number of known entities
+   */
+  get size(): number {
+    return this.entities.size;
+  }
+
+  /**
+   * Drop the in-memory registry; it is reloaded from storage on next use
+   */
+  reset(): void {
+    this.entities.clear();
+    this.names.clear();
+    this.loaded = false;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    for (const entity of await this.storage.getAllEntities()) {
+      this.entities.set(entity.id, entity);
+      this.index(entity);
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Find or register the entity for a name and record the mention
+   */
+  private resolveName(
+    name: string,
+    type: EntityType,
+    seenAt: string,
+    mentioned: Set<string>,
+  ): Entity {
+    const kind = kindOf(type);
+    let entity = this.lookup(name, kind) ?? this.fuzzyMatch(name, kind);
+
+    if (!entity) {
+      entity = {
+        id: uuidv4(),
+        name: name.trim(),
+        type,
+        aliases: [],
+        firstSeen: seenAt,
+        lastSeen: seenAt,
+        mentionCount: 0,
+      };
+      this.entities.set(entity.id, entity);
+      this.index(entity);
+      this.logger.debug(`Registered ${type} "${entity.name}"`);
+    } else if (!this.names.has(nameKey(kind, name))) {
+      this.addAlias(entity, name.trim());
+      this.names.set(nameKey(kind, name), entity.id);
+      this.logger.debug(`Linked "${name}" to "${entity.name}"`);
+    }
+
+    if (entity.type === "other" && type !== "other") entity.type = type;
+
+    if (!mentioned.has(entity.id)) {
+      mentioned.add(entity.id);
+      entity.mentionCount++;
+      entity.firstSeen = earliest(entity.firstSeen, seenAt);
+      entity.lastSeen = latest(entity.lastSeen, seenAt);
+    }
+    return entity;
+  }
+
+  private lookup(name: string, kind: EntityKind): Entity | null {
+    const id = this.names.get(nameKey(kind, name));
+    return id ? (this.entities.get(id) ?? null) : null;
+  }
+
+  /**
+   * The single entity a name fuzzy-matches, or null when none or several do
+   */
+  private fuzzyMatch(name: string, kind: EntityKind): Entity | null {
+    const byName = new Map<string, string>();
+    for (const entity of this.entities.values()) {
+      if (kindOf(entity.type) !== kind) continue;
+      for (const n of [entity.name, ...entity.aliases]) {
+        byName.set(n, entity.id);
+      }
+    }
+
+    // Token containment either way links "Bob" and "Bob Smith" whichever
+    // comes first, and shadows fuzzy matches
+    const known = [...byName.keys()];
+    const contained = known.filter(
+      (n) => nameSimilarity(name, n) === 1 || nameSimilarity(n, name) === 1,
+    );
+    const matched =
+      contained.length > 0
+        ? contained
+        : fuzzyMatchNames(name, known, this.config.matchThreshold);
+
+    const ids = new Set(matched.map((n) => byName.get(n)!));
+    return ids.size === 1 ? this.entities.get([...ids][0])! : null;
+  }
+
+  private addAlias(entity: Entity, alias: string): void {
+    const lower = alias.toLowerCase();
+    if (
+      entity.name.toLowerCase() !== lower &&
+      !entity.aliases.some((a) => a.toLowerCase() === lower)
+    ) {
+      entity.aliases.push(alias);
+    }
+  }
+
+  private index(entity: Entity): void {
+    const kind = kindOf(entity.type);
+    for (const n of [entity.name, ...entity.aliases]) {
+      this.names.set(nameKey(kind, n), entity.id);
+    }
+  }
+
+  private unindex(entity: Entity): void {
+    const kind = kindOf(entity.type);
+    for (const n of [entity.name, ...entity.aliases]) {
+      if (this.names.get(nameKey(kind, n)) === entity.id) {
+        this.names.delete(nameKey(kind, n));
+      }
+    }
+  }
+}
+
+function earliest(a: string, b: string): string {
+  return dayjs(b).isBefore(dayjs(a)) ? b : a;
+}
+
+function latest(a: string, b: string): string {
+  return dayjs(b).isAfter(dayjs(a)) ? b : a;
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import type {
+  LLMProvider,
+  LLMCompletionOptions,
+  MemoryUnit,
+} from "../types/index";
+import { silentLogger } from "../types/index";
+import { MemoryStorage } from "../storage/memory";
+import { EntityRegistry } from "./entities";
+import { KnowledgeGraph } from "./graph";
+
+// =============================================================================
+// Mock Provider
+// =============================================================================
+
+class MockLLMProvider implements LLMProvider {
+  response: unknown = { relations: [] };
+
+  async complete(
+    _prompt: string,
+    _options?: LLMCompletionOptions,
+  ): Promise<string> {
+    return JSON.stringify(this.response);
+  }
+
+  async completeJSON<T>(_prompt: string, schema: z.ZodType<T>): Promise<T> {
+    return schema.parse(this.response);
+  }
+}
+
+function makeUnit(overrides: Partial<MemoryUnit> = {}): MemoryUnit {
+  return {
+    id: uuidv4(),
+    content: "Alice works with Bob Smith at Acme",
+    keywords: [],
+    persons: ["Alice", "Bob Smith"],
+    entities: ["Acme"],
+    sourceDialogueIds: [],
+    salience: "medium",
+    timestamp: "2025-06-15T14:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("KnowledgeGraph", () => {
+  let llm: MockLLMProvider;
+  let storage: MemoryStorage;
+  let graph: KnowledgeGraph;
+
+  beforeEach(() => {
+    llm = new MockLLMProvider();
+    storage = new MemoryStorage();
+    graph = new KnowledgeGraph(llm, storage, {}, silentLogger);
+  });
+
+  it("extracts triples linked to their source units", async () => {
+    const first = makeUnit({ timestamp: "2025-06-01T00:00:00.000Z" });
+    const second = makeUnit();
+    llm.response = {
+      relations: [
+        { unit: 1, subject: "Alice", predicate: "Works With", object: "Bob" },
+        { unit: 2, subject: "alice", predicate: "works_with", object: "bob" },
+        { unit: 2, subject: "Alice", predicate: "works_at", object: "Acme" },
+        { unit: 3, subject: "Ghost", predicate: "haunts", object: "Acme" },
+        { unit: 1, subject: "Alice", predicate: "is", object: "alice" },
+      ],
+    };
+
+    const relations = await graph.extract([first, second]);
+    expect(relations).toHaveLength(2);
+    expect(relations[0]).toMatchObject({
+      subject: "Alice",
+      predicate: "works_with",
+      object: "Bob",
+      sourceUnitIds: [first.id, second.id],
+      timestamp: second.timestamp,
+    });
+    expect(await storage.getAllRelations()).toHaveLength(2);
+  });
+
+  it("limits relations per unit and uses canonical names", async () => {
+    const registry = new EntityRegistry(storage, {}, silentLogger);
+    await registry.resolveUnits([makeUnit(), makeUnit({ persons: ["Bob"] })]);
+    graph = new KnowledgeGraph(
+      llm,
+      storage,
+      { maxRelationsPerUnit: 1 },
+      silentLogger,
+      registry,
+    );
+    llm.response = {
+      relations: [
+        { unit: 1, subject: "Bob", predicate: "works_at", object: "Acme" },
+        { unit: 1, subject: "Bob", predicate: "likes", object: "Alice" },
+      ],
+    };
+
+    const relations = await graph.extract([makeUnit()]);
+    expect(relations.map((r) => r.subject)).toEqual(["Bob Smith"]);
+  });
+
+  it("keeps the graph unchanged when extraction fails", async () => {
+    llm.completeJSON = async () => {
+      throw new Error("LLM down");
+    };
+    expect(await graph.extract([makeUnit()])).toEqual([]);
+    expect(graph.size).toBe(0);
+  });
+
+  describe("queries", () => {
+    let units: MemoryUnit[];
+
+    beforeEach(async () => {
+      units = [makeUnit(), makeUnit(), makeUnit()];
+      llm.response = {
+        relations: [
+          { unit: 1, subject: "Alice", predicate: "works_with", object: "Bob" },
+          { unit: 2, subject: "Bob", predicate: "works_at", object: "Acme" },
+          { unit: 3, subject: "Acme", predicate: "owns", object: "Widget" },
+          { unit: 3, subject: "Carol", predicate: "owns", object: "Widget" },
+        ],
+      };
+      await graph.extract(units);
+    });
+
+    it("matches triple patterns", async () => {
+      expect(await graph.query({ predicate: "owns" })).toHaveLength(2);
+      expect(
+        (await graph.query({ subject: "bob" })).map((r) => r.object),
+      ).toEqual(["Acme"]);
+      expect(await graph.query({ object: "Bob", subject: "Acme" })).toEqual(
+        [],
+      );
+    });
+
+    it("traverses relations in both directions", async () => {
+      const oneHop = await graph.neighbors("Bob");
+      expect(oneHop.map((n) => n.name).sort()).toEqual(["Acme", "Alice"]);
+
+      const twoHops = await graph.neighbors("Alice", { hops: 2 });
+      expect(twoHops.map((n) => [n.name, n.distance])).toEqual([
+        ["Bob", 1],
+        ["Acme", 2],
+      ]);
+      expect(twoHops[1].path.map((r) => r.predicate)).toEqual([
+        "works_with",
+        "works_at",
+      ]);
+
+      const owners = await graph.neighbors("Widget", {
+        hops: 3,
+        predicates: ["owns"],
+      });
+      expect(owners.map((n) => n.name).sort()).toEqual(["Acme", "Carol"]);
+
+      const filtered = await graph.neighbors("Alice", {
+        hops: 2,
+        where: (r) => r.predicate !== "works_at",
+      });
+      expect(filtered.map((n) => n.name)).toEqual(["Bob"]);
+    });
+
+    it("drops relations whose source units are removed", async () => {
+      const { updatedIds, deletedIds } = await graph.removeSourceUnits([
+        units[2].id,
+      ]);
+      expect(updatedIds).toEqual([]);
+      expect(deletedIds).toHaveLength(2);
+      expect(await graph.neighbors("Widget")).toEqual([]);
+      expect(await storage.getAllRelations()).toHaveLength(2);
+    });
+
+    it("reloads from storage", async () => {
+      const reloaded = new KnowledgeGraph(llm, storage, {}, silentLogger);
+      expect(
+        (await reloaded.neighbors("Alice", { hops: 2 })).map((n) => n.name),
+      ).toEqual(["Bob", "Acme"]);
+    });
+  });
+});
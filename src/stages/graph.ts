@@ -0,0 +1,460 @@
+/**
+ * Knowledge Graph - Relations between entities
+ *
+ * Memory units answer "who works with whom" poorly: the answer is spread
+ * over several units that share no words with the question. An optional
+ * extraction pass turns units into (subject, predicate, object) triples
+ * linked to their source units, which can be queried and traversed, and
+ * lets retrieval follow relations from the entities in a query to units
+ * about their neighbors.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import type {
+  MemoryUnit,
+  Relation,
+  LLMProvider,
+  StorageAdapter,
+  Logger,
+} from "../types/index.js";
+import { consoleLogger } from "../types/index.js";
+import type { EntityRegistry } from "./entities.js";
+import { dayjs, now } from "../utils/temporal.js";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface GraphConfig {
+  /**
+   * Extract relations from new memory units (one extra LLM call per batch)
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Maximum relations kept per memory unit
+   * @default 5
+   */
+  maxRelationsPerUnit: number;
+}
+
+export const DEFAULT_GRAPH_CONFIG: GraphConfig = {
+  enabled: false,
+  maxRelationsPerUnit: 5,
+};
+
+// =============================================================================
+// LLM Response Schema
+// =============================================================================
+
+const RelationResponseSchema = z.object({
+  relations: z
+    .array(
+      z.object({
+        unit: z.number(),
+        subject: z.string(),
+        predicate: z.string(),
+        object: z.string(),
+      }),
+    )
+    .default([]),
+});
+
+// =============================================================================
+// Knowledge Graph
+// =============================================================================
+
+/**
+ * Triple pattern; omitted positions match anything (case-insensitive)
+ */
+export interface RelationPattern {
+  subject?: string;
+  predicate?: string;
+  object?: string;
+}
+
+export interface TraversalOptions {
+  /**
+   * Maximum path length
+   * @default 1
+   */
+  hops?: number;
+
+  /**
+   * Only follow relations with these predicates
+   */
+  predicates?: string[];
+
+  /**
+   * Only follow relations for which this returns true
+   */
+  where?: (relation: Relation) => boolean;
+}
+
+/**
+ * A node reached by traversal and the shortest path leading to it
+ */
+export interface GraphNeighbor {
+  name: string;
+  distance: number;
+  path: Relation[];
+}
+
+export class KnowledgeGraph {
+  private llm: LLMProvider;
+  private storage: StorageAdapter;
+  private config: GraphConfig;
+  private logger: Logger;
+  private entities: EntityRegistry | null;
+  private relations: Map<string, Relation> = new Map();
+  /** Lowercase node name → IDs of relations touching it */
+  private adjacency: Map<string, Set<string>> = new Map();
+  private loaded = false;
+
+  constructor(
+    llm: LLMProvider,
+    storage: StorageAdapter,
+    config: Partial<GraphConfig> = {},
+    logger: Logger = consoleLogger,
+    entities: EntityRegistry | null = null,
+  ) {
+    this.llm = llm;
+    this.storage = storage;
+    this.config = { ...DEFAULT_GRAPH_CONFIG, ...config };
+    this.logger = logger;
+    this.entities = entities;
+  }
+
+  /**
+   * Extract relations from memory units and add them to the graph
+   *
+   * A triple already in the graph gains the new source units instead of
+   * being stored twice. Subjects and objects use canonical registry names.
+   *
+   * @returns Relations created or updated
+   */
+  async extract(units: MemoryUnit[]): Promise<Relation[]> {
+    if (units.length === 0) return [];
+    await this.ensureLoaded();
+
+    const response = await this.llm
+      .completeJSON(this.buildPrompt(units), RelationResponseSchema)
+      .catch((error) => {
+        this.logger.warn("Relation extraction failed, skipping graph", error);
+        return null;
+      });
+    if (!response) return [];
+
+    const perUnit = new Map<number, number>();
+    const touched = new Map<string, Relation>();
+    for (const item of response.relations ?? []) {
+      const unit = units[item.unit - 1];
+      const predicate = normalizePredicate(item.predicate);
+      if (!unit || !predicate) continue;
+
+      const count = perUnit.get(item.unit) ?? 0;
+      if (count >= this.config.maxRelationsPerUnit) continue;
+
+      const [subject, object] = await this.canonical([
+        item.subject.trim(),
+        item.object.trim(),
+      ]);
+      if (!subject || !object || nodeKey(subject) === nodeKey(object)) {
+        continue;
+      }
+
+      const relation = this.record(subject, predicate, object, unit);
+      perUnit.set(item.unit, count + 1);
+      touched.set(relation.id, relation);
+    }
+
+    for (const relation of touched.values()) {
+      await this.storage.saveRelation(relation);
+    }
+    if (touched.size > 0) {
+      this.logger.debug(`Recorded ${touched.size} relations`);
+    }
+    return [...touched.values()];
+  }
+
+  /**
+   * Relations matching a triple pattern
+   */
+  async query(pattern: RelationPattern = {}): Promise<Relation[]> {
+    await this.ensureLoaded();
+
+    const candidates =
+      pattern.subject !== undefined || pattern.object !== undefined
+        ? this.relationsOf(pattern.subject ?? pattern.object!)
+        : [...this.relations.values()];
+    const predicate =
+      pattern.predicate !== undefined
+        ? normalizePredicate(pattern.predicate)
+        : undefined;
+
+    return candidates.filter(
+      (r) =>
+        (pattern.subject === undefined ||
+          nodeKey(r.subject) === nodeKey(pattern.subject)) &&
+        (pattern.object === undefined ||
+          nodeKey(r.object) === nodeKey(pattern.object)) &&
+        (predicate === undefined || r.predicate === predicate),
+    );
+  }
+
+  /**
+   * Nodes within `hops` relations of the start nodes, nearest first,
+   * following relations in either direction
+   */
+  async neighbors(
+    start: string | string[],
+    options: TraversalOptions = {},
+  ): Promise<GraphNeighbor[]> {
+    await this.ensureLoaded();
+
+    const hops = options.hops ?? 1;
+    const predicates = options.predicates?.map(normalizePredicate);
+    const follows = (r: Relation) =>
+      (!predicates || predicates.includes(r.predicate)) &&
+      (!options.where || options.where(r));
+
+    const starts = new Set(
+      (Array.isArray(start) ? start : [start]).map(nodeKey),
+    );
+    const reached = new Map<string, GraphNeighbor>();
+    let frontier = [...starts];
+
+    for (let distance = 1; distance <= hops; distance++) {
+      const next: string[] = [];
+      for (const node of frontier) {
+        const path = reached.get(node)?.path ?? [];
+        for (const id of this.adjacency.get(node) ?? []) {
+          const relation = this.relations.get(id)!;
+          if (!follows(relation)) continue;
+
+          const name =
+            nodeKey(relation.subject) === node
+              ? relation.object
+              : relation.subject;
+          const key = nodeKey(name);
+          if (starts.has(key) || reached.has(key)) continue;
+
+          reached.set(key, { name, distance, path: [...path, relation] });
+          next.push(key);
+        }
+      }
+      frontier = next;
+      if (frontier.length === 0) break;
+    }
+
+    return [...reached.values()];
+  }
+
+  /**
+   * Drop deleted units from relation sources; relations left without a
+   * source are deleted
+   */
+  async removeSourceUnits(
+    unitIds: string[],
+  ): Promise<{ updatedIds: string[]; deletedIds: string[] }> {
+    await this.ensureLoaded();
+
+    const removed = new Set(unitIds);
+    const updatedIds: string[] = [];
+    const deletedIds: string[] = [];
+
+    for (const relation of [...this.relations.values()]) {
+      const remaining = relation.sourceUnitIds.filter((id) => !removed.has(id));
+      if (remaining.length === relation.sourceUnitIds.length) continue;
+
+      if (remaining.length === 0) {
+        this.unindex(relation);
+        this.relations.delete(relation.id);
+        await this.storage.deleteRelation(relation.id);
+        deletedIds.push(relation.id);
+      } else {
+        relation.sourceUnitIds = remaining;
+        await this.storage.saveRelation(relation);
+        updatedIds.push(relation.id);
+      }
+    }
+
+    return { updatedIds, deletedIds };
+  }
+
+  /**
+   * Rewrite subjects and objects to canonical registry names, e.g. after
+   * entities were renamed or merged
+   *
+   * @returns IDs of the relations that changed
+   */
+  async canonicalize(): Promise<string[]> {
+    await this.ensureLoaded();
+
+    const changed: string[] = [];
+    for (const relation of [...this.relations.values()]) {
+      const [subject, object] = await this.canonical([
+        relation.subject,
+        relation.object,
+      ]);
+      if (subject === relation.subject && object === relation.object) {
+        continue;
+      }
+
+      this.unindex(relation);
+      relation.subject = subject;
+      relation.object = object;
+      this.index(relation);
+      await this.storage.saveRelation(relation);
+      changed.push(relation.id);
+    }
+    return changed;
+  }
+
+  /**
+   * Number of relations
+   */
+  get size(): number {
+    return this.relations.size;
+  }
+
+  /**
+   * Drop the in-memory graph; it is reloaded from storage on next use
+   */
+  reset(): void {
+    this.relations.clear();
+    this.adjacency.clear();
+    this.loaded = false;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    for (const relation of await this.storage.getAllRelations()) {
+      this.relations.set(relation.id, relation);
+      this.index(relation);
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Add a source unit to an existing triple, or create the triple
+   */
+  private record(
+    subject: string,
+    predicate: string,
+    object: string,
+    unit: MemoryUnit,
+  ): Relation {
+    const existing = this.relationsOf(subject).find(
+      (r) =>
+        r.predicate === predicate &&
+        nodeKey(r.subject) === nodeKey(subject) &&
+        nodeKey(r.object) === nodeKey(object),
+    );
+
+    if (existing) {
+      if (!existing.sourceUnitIds.includes(unit.id)) {
+        existing.sourceUnitIds.push(unit.id);
+      }
+      if (
+        unit.timestamp &&
+        (!existing.timestamp ||
+          dayjs(unit.timestamp).isAfter(dayjs(existing.timestamp)))
+      ) {
+        existing.timestamp = unit.timestamp;
+      }
+      return existing;
+    }
+
+    const relation: Relation = {
+      id: uuidv4(),
+      subject,
+      predicate,
+      object,
+      timestamp: unit.timestamp,
+      sourceUnitIds: [unit.id],
+      createdAt: now(),
+    };
+    this.relations.set(relation.id, relation);
+    this.index(relation);
+    return relation;
+  }
+
+  private async canonical(names: string[]): Promise<string[]> {
+    const registry = this.entities;
+    if (!registry) return names;
+    return Promise.all(
+      names.map(async (name) =>
+        name ? (await registry.canonicalNames([name]))[0] : name,
+      ),
+    );
+  }
+
+  private relationsOf(name: string): Relation[] {
+    return [...(this.adjacency.get(nodeKey(name)) ?? [])].map(
+      (id) => this.relations.get(id)!,
+    );
+  }
+
+  private index(relation: Relation): void {
+    for (const node of [relation.subject, relation.object]) {
+      const key = nodeKey(node);
+      if (!this.adjacency.has(key)) this.adjacency.set(key, new Set());
+      this.adjacency.get(key)!.add(relation.id);
+    }
+  }
+
+  private unindex(relation: Relation): void {
+    for (const node of [relation.subject, relation.object]) {
+      const ids = this.adjacency.get(nodeKey(node));
+      ids?.delete(relation.id);
+      if (ids?.size === 0) this.adjacency.delete(nodeKey(node));
+    }
+  }
+
+  private buildPrompt(units: MemoryUnit[]): string {
+    const lines = units
+      .map((u, i) => {
+        const names = [...u.persons, ...u.entities];
+        const mentions =
+          names.length > 0 ? ` [names: ${names.join(", ")}]` : "";
+        return `[${i + 1}] ${u.content}${mentions}`;
+      })
+      .join("\n");
+
+    return `Extract relations between people, organizations, places and things from these memory units, as a knowledge graph.
+
+MEMORY UNITS:
+${lines}
+
+INSTRUCTIONS:
+- Each relation is a (subject, predicate, object) triple stated by one unit; give the unit's number.
+- Subjects and objects are names. Use the names listed for the unit where they apply.
+- Predicates are short lowercase snake_case verbs, e.g. works_with, works_at, owns, lives_in, married_to.
+- Only extract relations the unit states; skip units without any.
+
+OUTPUT FORMAT (JSON):
+{
+  "relations": [
+    { "unit": 1, "subject": "Alice", "predicate": "works_at", "object": "Acme" }
+  ]
+}
+
+Return ONLY the JSON object.`;
+  }
+}
+
+function nodeKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function normalizePredicate(predicate: string): string {
+  return predicate
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "_")
+    .replace(/^_+|_+$/g, "");
+}
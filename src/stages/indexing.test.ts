@@ -96,6 +96,19 @@ describe("HybridIndex", () => {
     expect(results[0].matchType).toBe("lexical");
   });
 
+  it("keeps keyword search in sync without a rebuild", async () => {
+    const alice = makeUnit({ content: "Alice meets Bob at Starbucks" });
+    await index.addUnits([alice]);
+    expect(index.keywordSearch("Starbucks")[0].unit.id).toBe(alice.id);
+
+    const charlie = makeUnit({ content: "Charlie runs in the park" });
+    await index.addUnits([charlie]);
+    expect(index.keywordSearch("park")[0].unit.id).toBe(charlie.id);
+
+    index.removeUnit(alice.id);
+    expect(index.keywordSearch("Starbucks")).toEqual([]);
+  });
+
   it("structured search filters by metadata", async () => {
     await index.addUnits([
       makeUnit({ persons: ["Alice"], location: "Starbucks" }),
@@ -128,6 +141,38 @@ describe("HybridIndex", () => {
     expect(results[0].matchType).toBe("hybrid");
   });
 
+  it("excludes superseded units unless requested", async () => {
+    const old = makeUnit({ content: "Alice lives in Berlin" });
+    const current = makeUnit({ content: "Alice moved from Berlin to Lisbon" });
+    old.supersededBy = current.id;
+    await index.addUnits([old, current]);
+
+    const results = await index.hybridSearch("Alice Berlin");
+    expect(results.map((r) => r.unit.id)).not.toContain(old.id);
+    expect(index.keywordSearch("Berlin").map((r) => r.unit.id)).toEqual([
+      current.id,
+    ]);
+
+    const history = await index.hybridSearch("Alice Berlin", undefined, 5, true);
+    expect(history.map((r) => r.unit.id)).toContain(old.id);
+  });
+
+  it("supports an HNSW vector index", async () => {
+    const hnswIndex = new HybridIndex(embeddings, { vectorIndex: "hnsw" });
+    const units = [
+      makeUnit({ content: "Alice loves coffee at Starbucks" }),
+      makeUnit({ content: "Bob plays tennis every Sunday" }),
+    ];
+    await hnswIndex.addUnits(units);
+
+    const results = await hnswIndex.semanticSearch("Bob plays tennis", 1);
+    expect(results[0].unit.id).toBe(units[1].id);
+
+    hnswIndex.removeUnit(units[1].id);
+    const after = await hnswIndex.semanticSearch("Bob plays tennis", 2);
+    expect(after.map((r) => r.unit.id)).toEqual([units[0].id]);
+  });
+
   it("removeUnit works correctly", async () => {
     const unit = makeUnit();
     await index.addUnits([unit]);
@@ -145,3 +190,262 @@ describe("HybridIndex", () => {
     expect(index.size).toBe(0);
   });
 });
+
+describe("HybridIndex fusion strategies", () => {
+  const units = [
+    makeUnit({ content: "Alice loves coffee at Starbucks" }),
+    makeUnit({ content: "Bob plays tennis every Sunday" }),
+    makeUnit({ content: "Alice orders cappuccino at the cafe" }),
+  ];
+
+  for (const fusion of ["weighted", "rrf", "zscore", "logistic"] as const) {
+    it(`ranks results with ${fusion} fusion`, async () => {
+      const index = new HybridIndex(new MockEmbeddingProvider(), { fusion });
+      await index.addUnits(units);
+
+      const results = await index.hybridSearch(
+        "Alice loves coffee at Starbucks",
+        undefined,
+        3,
+      );
+      expect(results[0].unit.id).toBe(units[0].id);
+      expect(results.every((r) => r.matchType === "hybrid")).toBe(true);
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+      }
+    });
+  }
+
+  it("uses a fitted logistic model", async () => {
+    // A model that only trusts the lexical layer
+    const index = new HybridIndex(new MockEmbeddingProvider(), {
+      fusion: "logistic",
+      fusionModel: {
+        bias: 0,
+        semanticWeight: 0,
+        lexicalWeight: 5,
+        symbolicWeight: 0,
+      },
+    });
+    await index.addUnits(units);
+
+    const [top] = await index.hybridSearch("tennis", undefined, 1);
+    expect(top.unit.id).toBe(units[1].id);
+    expect(top.score).toBeCloseTo(1 / (1 + Math.exp(-5)));
+  });
+
+  it("builds labelled training examples", async () => {
+    const index = new HybridIndex(new MockEmbeddingProvider());
+    await index.addUnits(units);
+
+    const examples = await index.fusionTrainingExamples([
+      { query: "Bob tennis", relevantUnitIds: [units[1].id] },
+    ]);
+
+    expect(examples).toHaveLength(3);
+    const relevant = examples.filter((e) => e.relevant);
+    expect(relevant).toHaveLength(1);
+    expect(relevant[0].features.lexical).toBe(1);
+  });
+});
+
+describe("HybridIndex salience and recency scoring", () => {
+  const referenceTime = "2025-06-30T12:00:00.000Z";
+  const recent = makeUnit({
+    content: "Alice talked about her trip",
+    timestamp: "2025-06-29T12:00:00.000Z",
+  });
+  const old = makeUnit({
+    content: "Alice talked about her trip",
+    timestamp: "2025-01-01T12:00:00.000Z",
+  });
+
+  function makeIndex(config: ConstructorParameters<typeof HybridIndex>[1]) {
+    return new HybridIndex(new MockEmbeddingProvider(), {
+      referenceTime,
+      ...config,
+    });
+  }
+
+  async function search(
+    config: ConstructorParameters<typeof HybridIndex>[1],
+    applyDecay?: boolean,
+  ) {
+    const index = makeIndex(config);
+    await index.addUnits([old, recent]);
+    return index.hybridSearch("Alice trip", undefined, 2, false, {
+      applyDecay,
+    });
+  }
+
+  it("favours recent units when temporal decay is enabled", async () => {
+    const results = await search({ temporalDecay: 0.05 });
+
+    expect(results[0].unit.id).toBe(recent.id);
+    expect(results[1].score).toBeLessThan(results[0].score * 0.01);
+  });
+
+  it("skips decay when applyDecay is false", async () => {
+    const results = await search({ temporalDecay: 0.05 }, false);
+    expect(results[0].score).toBeCloseTo(results[1].score);
+  });
+
+  it("floors decay at minRecencyFactor", async () => {
+    const results = await search({ temporalDecay: 0.05, minRecencyFactor: 0.5 });
+    expect(results[1].score / results[0].score).toBeCloseTo(0.5 / Math.exp(-0.05), 2);
+  });
+
+  it("boosts high-salience units", async () => {
+    const index = makeIndex({ salienceBoost: { high: 2, medium: 1, low: 0.5 } });
+    const minor = makeUnit({ content: "Bob mentioned the weather", salience: "low" });
+    const major = makeUnit({ content: "Bob mentioned the weather", salience: "high" });
+    await index.addUnits([minor, major]);
+
+    const results = await index.hybridSearch("Bob weather", undefined, 2);
+    expect(results[0].unit.id).toBe(major.id);
+    expect(results[0].score).toBeCloseTo(results[1].score * 4);
+  });
+});
+
+describe("HybridIndex query routing", () => {
+  const alice = makeUnit({
+    content: "Alice loves coffee at Starbucks",
+    keywords: ["espresso"],
+    persons: ["Alice"],
+    entities: ["Starbucks"],
+  });
+  const bob = makeUnit({
+    content: "Bob plays tennis every Sunday",
+    keywords: ["sport"],
+    persons: ["Bob"],
+    entities: [],
+  });
+  const charlie = makeUnit({
+    content: "Charlie runs in the park",
+    keywords: ["sport"],
+    persons: ["Charlie"],
+    entities: ["Central Park"],
+  });
+
+  async function makeIndex(
+    config: ConstructorParameters<typeof HybridIndex>[1] = {},
+  ) {
+    const index = new HybridIndex(new MockEmbeddingProvider(), config);
+    await index.addUnits([alice, bob, charlie]);
+    return index;
+  }
+
+  it("indexes boosted metadata fields for BM25", async () => {
+    const plain = await makeIndex();
+    expect(plain.keywordSearch("espresso")).toEqual([]);
+
+    const boosted = await makeIndex({
+      fieldBoosts: { keywords: 2, persons: 0, entities: 0 },
+    });
+    expect(boosted.keywordSearch("espresso").map((r) => r.unit.id)).toEqual([
+      alice.id,
+    ]);
+  });
+
+  it("sends lexical keywords to BM25 instead of the semantic text", async () => {
+    const index = await makeIndex({ semanticCandidates: 0 });
+    const results = await index.hybridSearch(
+      { semantic: "Alice loves coffee at Starbucks", lexical: ["tennis"] },
+      undefined,
+      3,
+    );
+
+    expect(results.map((r) => r.unit.id)).toEqual([bob.id]);
+  });
+
+  it("adds entity matches as symbolic candidates", async () => {
+    const index = await makeIndex({ semanticCandidates: 0 });
+    const results = await index.hybridSearch(
+      { semantic: "who went running?", lexical: ["jogging"], entities: ["central park"] },
+      undefined,
+      3,
+    );
+
+    expect(results.map((r) => r.unit.id)).toEqual([charlie.id]);
+  });
+
+  it("drops candidates failing the required filter", async () => {
+    const index = await makeIndex();
+    const results = await index.hybridSearch(
+      "who plays sport?",
+      undefined,
+      3,
+      false,
+      { requiredFilter: { persons: ["Bob"] } },
+    );
+
+    expect(results.map((r) => r.unit.id)).toEqual([bob.id]);
+  });
+
+  it("applies the required filter before taking layer candidates", async () => {
+    const index = await makeIndex({
+      semanticCandidates: 1,
+      lexicalCandidates: 1,
+    });
+    const results = await index.hybridSearch(
+      "Charlie runs in the park",
+      undefined,
+      3,
+      false,
+      { requiredFilter: { persons: ["Bob"] } },
+    );
+
+    expect(results.map((r) => r.unit.id)).toEqual([bob.id]);
+  });
+
+  it("lists the symbolic vocabulary of current units", async () => {
+    const index = new HybridIndex(new MockEmbeddingProvider());
+    await index.addUnits([
+      alice,
+      bob,
+      { ...charlie, supersededBy: alice.id, topic: "running" },
+    ]);
+
+    const vocabulary = index.vocabulary();
+    expect(vocabulary.persons.sort()).toEqual(["Alice", "Bob"]);
+    expect(vocabulary.entities).toEqual(["Starbucks"]);
+    expect(vocabulary.topics).toEqual(["meeting"]);
+  });
+
+  it("keeps the vocabulary in step with index changes", async () => {
+    const index = new HybridIndex(new MockEmbeddingProvider());
+    const current = { ...charlie };
+    await index.addUnits([{ ...alice }, { ...bob }, current]);
+
+    index.removeUnit(bob.id);
+    await index.addUnits([{ ...alice, persons: ["Alicia"] }]);
+    expect(index.vocabulary().persons.sort()).toEqual(["Alicia", "Charlie"]);
+
+    current.supersededBy = alice.id;
+    index.refreshVocabulary([current]);
+    expect(index.vocabulary().persons).toEqual(["Alicia"]);
+    expect(index.vocabulary().entities).toEqual(["Starbucks"]);
+
+    delete current.supersededBy;
+    index.refreshVocabulary([current]);
+    expect(index.vocabulary().persons.sort()).toEqual(["Alicia", "Charlie"]);
+
+    index.clear();
+    expect(index.vocabulary().persons).toEqual([]);
+  });
+
+  it("takes a separate candidate count per layer", async () => {
+    const index = await makeIndex({
+      semanticCandidates: 1,
+      lexicalCandidates: 0,
+      symbolicCandidates: 0,
+    });
+    const results = await index.hybridSearch(
+      { semantic: "Charlie runs in the park", entities: ["Alice"] },
+      undefined,
+      3,
+    );
+
+    expect(results.map((r) => r.unit.id)).toEqual([charlie.id]);
+  });
+});
@@ -14,13 +14,24 @@ import type {
   EmbeddingProvider,
   QueryFilter,
   SearchResult,
+  VectorIndex,
+  Salience,
 } from "../types/index.js";
-import {
-  cosineSimilarity,
-  BM25Scorer,
-  computeHybridScore,
-} from "../utils/similarity.js";
+import { BM25Scorer, type BM25Field } from "../utils/similarity.js";
 import { matchesFilter } from "../utils/filter.js";
+import { dayjs, parseTimestamp } from "../utils/temporal.js";
+import { LRUCache } from "../utils/lru.js";
+import {
+  fuseScores,
+  fusionFeatures,
+  type FusionCandidate,
+  type FusionStrategy,
+  type FusionTrainingExample,
+  type LabelledQuery,
+  type LogisticFusionModel,
+} from "../utils/fusion.js";
+import { BruteForceIndex } from "../vector/brute-force.js";
+import { HNSWIndex, type HNSWOptions } from "../vector/hnsw.js";
 
 // =============================================================================
 // Configuration
@@ -62,6 +73,91 @@ export interface IndexingConfig {
    * @default 0.1
    */
   symbolicWeight: number;
+
+  /**
+   * How semantic, lexical and symbolic signals are combined.
+   * "weighted" is the paper's linear formula over max-normalized BM25;
+   * "rrf" fuses ranks only; "zscore" standardizes each layer first;
+   * "logistic" applies `fusionModel` (see fitLogisticFusion).
+   * @default "weighted"
+   */
+  fusion: FusionStrategy;
+
+  /**
+   * Rank offset k for reciprocal rank fusion
+   * @default 60
+   */
+  rrfK: number;
+
+  /**
+   * Fitted model for "logistic" fusion; defaults to the weights above
+   */
+  fusionModel?: LogisticFusionModel;
+
+  /**
+   * Candidates taken from the semantic layer in hybrid search
+   * @default 2 × topK
+   */
+  semanticCandidates?: number;
+
+  /**
+   * Candidates taken from the lexical (BM25) layer in hybrid search
+   * @default 2 × topK
+   */
+  lexicalCandidates?: number;
+
+  /**
+   * Candidates taken from the symbolic layer (entity matches) in hybrid
+   * search
+   * @default 2 × topK
+   */
+  symbolicCandidates?: number;
+
+  /**
+   * BM25 weight of `keywords`, `persons` and `entities` relative to the
+   * unit content (weight 1). 0 leaves the field out of the lexical index.
+   * @default { keywords: 0, persons: 0, entities: 0 }
+   */
+  fieldBoosts: { keywords: number; persons: number; entities: number };
+
+  /**
+   * Score multiplier per salience level, applied after fusion
+   * @default { high: 1, medium: 1, low: 1 }
+   */
+  salienceBoost: Record<Salience, number>;
+
+  /**
+   * Recency decay rate per day: scores are multiplied by
+   * exp(-temporalDecay × age in days), floored at `minRecencyFactor`.
+   * 0 disables decay.
+   * @default 0
+   */
+  temporalDecay: number;
+
+  /**
+   * Lower bound for the recency multiplier so old memories stay reachable
+   * @default 0
+   */
+  minRecencyFactor: number;
+
+  /**
+   * Time that unit ages are measured from (ISO-8601 or Date).
+   * Defaults to the current time at search time.
+   */
+  referenceTime?: string | Date;
+
+  /**
+   * Vector index for the semantic layer.
+   * "brute-force" scores every unit exactly; "hnsw" uses an approximate
+   * graph index for large stores. A custom VectorIndex may also be passed.
+   * @default "brute-force"
+   */
+  vectorIndex: "brute-force" | "hnsw" | VectorIndex;
+
+  /**
+   * HNSW parameters (M, efConstruction, efSearch) when vectorIndex is "hnsw"
+   */
+  hnsw?: HNSWOptions;
 }
 
 export const DEFAULT_INDEXING_CONFIG: IndexingConfig = {
@@ -71,8 +167,68 @@ export const DEFAULT_INDEXING_CONFIG: IndexingConfig = {
   semanticWeight: 0.6,
   lexicalWeight: 0.3,
   symbolicWeight: 0.1,
+  fusion: "weighted",
+  rrfK: 60,
+  fieldBoosts: { keywords: 0, persons: 0, entities: 0 },
+  salienceBoost: { high: 1, medium: 1, low: 1 },
+  temporalDecay: 0,
+  minRecencyFactor: 0,
+  vectorIndex: "brute-force",
 };
 
+/**
+ * Query routed per retrieval layer, e.g. from query planning
+ */
+export interface HybridQuery {
+  /** Text for the vector search */
+  semantic: string;
+  /** Keywords for BM25 (defaults to the semantic text) */
+  lexical?: string[];
+  /** Person/entity names for the symbolic layer */
+  entities?: string[];
+}
+
+/**
+ * Per-search scoring options for hybridSearch
+ */
+export interface ScoringOptions {
+  /**
+   * Apply recency decay (set false for queries about the past)
+   * @default true
+   */
+  applyDecay?: boolean;
+
+  /**
+   * Overrides the configured reference time for this search
+   */
+  referenceTime?: string | Date;
+
+  /**
+   * Hard constraints: candidates that do not satisfy this filter are
+   * dropped, unlike the soft `filter` argument which only boosts matches
+   */
+  requiredFilter?: QueryFilter;
+}
+
+/**
+ * Distinct symbolic values across indexed units
+ */
+export interface SymbolicVocabulary {
+  persons: string[];
+  entities: string[];
+  locations: string[];
+  topics: string[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const VOCABULARY_KEYS = [
+  "persons",
+  "entities",
+  "locations",
+  "topics",
+] as const;
+
 // =============================================================================
 // Hybrid Index Class
 // =============================================================================
@@ -86,8 +242,22 @@ export class HybridIndex {
   private units: Map<string, MemoryUnit> = new Map();
   private embeddings: EmbeddingProvider;
   private bm25: BM25Scorer;
+  private vectors: VectorIndex;
   private config: IndexingConfig;
-  private needsRebuild = false;
+  /** Recent query embeddings, so a retrieval embeds its query once */
+  private queryEmbeddings = new LRUCache<string, number[]>(32);
+  /** Number of current units holding each symbolic value */
+  private vocabularyCounts: Record<
+    keyof SymbolicVocabulary,
+    Map<string, number>
+  > = {
+    persons: new Map(),
+    entities: new Map(),
+    locations: new Map(),
+    topics: new Map(),
+  };
+  /** Values each unit contributed to `vocabularyCounts` */
+  private vocabularyEntries: Map<string, SymbolicVocabulary> = new Map();
 
   constructor(
     embeddings: EmbeddingProvider,
@@ -96,6 +266,17 @@ export class HybridIndex {
     this.embeddings = embeddings;
     this.config = { ...DEFAULT_INDEXING_CONFIG, ...config };
     this.bm25 = new BM25Scorer();
+    this.vectors = this.createVectorIndex();
+  }
+
+  /**
+   * Build the configured semantic-layer vector index
+   */
+  private createVectorIndex(): VectorIndex {
+    const choice = this.config.vectorIndex;
+    if (choice === "hnsw") return new HNSWIndex(this.config.hnsw);
+    if (choice === "brute-force") return new BruteForceIndex();
+    return choice;
   }
 
   /**
@@ -117,9 +298,12 @@ export class HybridIndex {
     // Add to index
     for (const unit of units) {
       this.units.set(unit.id, unit);
+      if (unit.embedding) {
+        this.vectors.add(unit.id, unit.embedding);
+      }
+      this.bm25.addFieldedDocument(unit.id, this.lexicalFields(unit));
+      this.countVocabulary(unit);
     }
-
-    this.needsRebuild = true;
   }
 
   /**
@@ -127,44 +311,83 @@ export class HybridIndex {
    */
   removeUnit(id: string): void {
     this.units.delete(id);
-    this.needsRebuild = true;
+    this.vectors.remove(id);
+    this.bm25.removeDocument(id);
+    this.uncountVocabulary(id);
   }
 
   /**
-   * Rebuild the BM25 index (call after adding units)
+   * Rebuild the BM25 index from scratch.
+   * Not needed in normal use: addUnits/removeUnit keep it up to date.
    */
   rebuildLexicalIndex(): void {
-    const documents = Array.from(this.units.values()).map((u) => u.content);
-    this.bm25.addDocuments(documents);
-    this.needsRebuild = false;
+    this.bm25.clear();
+    for (const unit of this.units.values()) {
+      this.bm25.addFieldedDocument(unit.id, this.lexicalFields(unit));
+    }
+  }
+
+  /**
+   * BM25 fields of a unit: the content plus any boosted metadata fields
+   */
+  private lexicalFields(unit: MemoryUnit): BM25Field[] {
+    const boosts = this.config.fieldBoosts;
+    return [
+      { text: unit.content, weight: 1 },
+      { text: unit.keywords.join(" "), weight: boosts.keywords },
+      { text: unit.persons.join(" "), weight: boosts.persons },
+      { text: unit.entities.join(" "), weight: boosts.entities },
+    ];
+  }
+
+  /**
+   * Embed texts with the index's embedding provider
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.embeddings.embed(texts);
+  }
+
+  /**
+   * Embed a search query, reusing the embedding of a recent identical one
+   */
+  async embedQuery(query: string): Promise<number[]> {
+    const cached = this.queryEmbeddings.get(query);
+    if (cached) return cached;
+
+    const [embedding] = await this.embeddings.embed([query]);
+    this.queryEmbeddings.set(query, embedding);
+    return embedding;
   }
 
   /**
    * Semantic search using embedding similarity
    *
    * Paper Reference: Section 3.3 - λ₁ · cos(e_q, v_k)
+   *
+   * Superseded units are skipped unless `includeSuperseded` is set, and
+   * units not matching `required` are never returned.
    */
-  async semanticSearch(query: string, topK?: number): Promise<SearchResult[]> {
+  async semanticSearch(
+    query: string,
+    topK?: number,
+    includeSuperseded = false,
+    required?: QueryFilter,
+  ): Promise<SearchResult[]> {
     const k = topK ?? this.config.semanticTopK;
 
     // Get query embedding
-    const [queryEmbedding] = await this.embeddings.embed([query]);
+    const queryEmbedding = await this.embedQuery(query);
 
-    // Score all units
-    const results: SearchResult[] = [];
-    for (const unit of this.units.values()) {
-      if (!unit.embedding) continue;
-
-      const score = cosineSimilarity(queryEmbedding, unit.embedding);
-      results.push({
-        unit,
-        score,
-        matchType: "semantic",
-      });
-    }
+    // Nearest neighbours from the vector index
+    const hits = this.vectors.search(queryEmbedding, k, (id) =>
+      this.admits(id, includeSuperseded, required),
+    );
 
-    // Sort by score and take top-k
-    return results.sort((a, b) => b.score - a.score).slice(0, k);
+    return hits.map((hit) => ({
+      unit: this.units.get(hit.id)!,
+      score: hit.score,
+      matchType: "semantic" as const,
+    }));
   }
 
   /**
@@ -172,23 +395,41 @@ export class HybridIndex {
    *
    * Paper Reference: Section 3.3 - λ₂ · BM25(q_lex, S_k)
    */
-  keywordSearch(query: string, topK?: number): SearchResult[] {
+  keywordSearch(
+    query: string,
+    topK?: number,
+    includeSuperseded = false,
+    required?: QueryFilter,
+  ): SearchResult[] {
     const k = topK ?? this.config.keywordTopK;
 
-    if (this.needsRebuild) {
-      this.rebuildLexicalIndex();
-    }
-
-    const unitsArray = Array.from(this.units.values());
-    const topResults = this.bm25.topK(query, k);
+    const topResults = this.bm25.topKById(query, k, (id) =>
+      this.admits(id, includeSuperseded, required),
+    );
 
-    return topResults.map(([index, score]) => ({
-      unit: unitsArray[index],
+    return topResults.map(([id, score]) => ({
+      unit: this.units.get(id)!,
       score,
       matchType: "lexical" as const,
     }));
   }
 
+  /**
+   * Whether a unit may be returned by a layer search
+   */
+  private admits(
+    id: string,
+    includeSuperseded: boolean,
+    required: QueryFilter | undefined,
+  ): boolean {
+    const unit = this.units.get(id);
+    return (
+      !!unit &&
+      (includeSuperseded || !unit.supersededBy) &&
+      (!required || matchesFilter(unit, required))
+    );
+  }
+
   /**
    * Structured search using metadata filters
    *
@@ -199,6 +440,7 @@ export class HybridIndex {
     const results: SearchResult[] = [];
 
     for (const unit of this.units.values()) {
+      if (unit.supersededBy) continue;
       if (matchesFilter(unit, filter)) {
         results.push({
           unit,
@@ -216,70 +458,279 @@ export class HybridIndex {
    *
    * Paper Reference: Section 3.3
    * S(q, m_k) = α * cos(E(q), v_k) + β * BM25(q, m_k) + γ * 𝕀(constraints)
+   *
+   * A plain string query is used by every layer; a HybridQuery routes
+   * keywords to BM25, the rewrite to vector search and entity names to the
+   * symbolic layer. The combination is set by the `fusion` strategy. Fused
+   * scores are then scaled by salience and recency (see `salienceBoost`,
+   * `temporalDecay`).
    */
   async hybridSearch(
-    query: string,
+    query: string | HybridQuery,
     filter?: QueryFilter,
     topK?: number,
+    includeSuperseded = false,
+    scoring: ScoringOptions = {},
   ): Promise<SearchResult[]> {
     const k = topK ?? this.config.semanticTopK;
+    const candidates = await this.collectCandidates(
+      typeof query === "string" ? { semantic: query } : query,
+      filter,
+      k * 2,
+      includeSuperseded,
+      scoring.requiredFilter,
+    );
+
+    const scores = fuseScores(candidates, this.config.fusion, {
+      semanticWeight: this.config.semanticWeight,
+      lexicalWeight: this.config.lexicalWeight,
+      symbolicWeight: this.config.symbolicWeight,
+      rrfK: this.config.rrfK,
+      model: this.config.fusionModel,
+    });
+
+    const referenceTime = dayjs(
+      scoring.referenceTime ?? this.config.referenceTime ?? new Date(),
+    );
+    const applyDecay =
+      (scoring.applyDecay ?? true) && this.config.temporalDecay > 0;
+
+    const hybridResults: SearchResult[] = candidates.map((c) => {
+      const unit = this.units.get(c.id)!;
+      let multiplier = this.config.salienceBoost[unit.salience] ?? 1;
+      if (applyDecay) multiplier *= this.recencyFactor(unit, referenceTime);
+
+      // Dividing keeps boosts monotonic for negative (z-score) scores
+      const score = scores.get(c.id) ?? 0;
+      return {
+        unit,
+        score:
+          score >= 0 || multiplier <= 0
+            ? score * multiplier
+            : score / multiplier,
+        matchType: "hybrid" as const,
+      };
+    });
+
+    // Sort and return top-k
+    return hybridResults.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Recency multiplier for a unit, from its timestamp (or creation time)
+   */
+  private recencyFactor(unit: MemoryUnit, referenceTime: dayjs.Dayjs): number {
+    const raw = unit.timestamp ?? unit.createdAt;
+    if (!raw) return 1;
+
+    const time = dayjs(parseTimestamp(raw, referenceTime.toDate()));
+    if (!time.isValid()) return 1;
+
+    const ageDays = Math.max(0, referenceTime.diff(time) / MS_PER_DAY);
+    return Math.max(
+      this.config.minRecencyFactor,
+      Math.exp(-this.config.temporalDecay * ageDays),
+    );
+  }
+
+  /**
+   * Build logistic fusion training examples from labelled queries
+   *
+   * Each hybridSearch candidate for a query becomes one example, labelled
+   * relevant if its ID is in `relevantUnitIds`. Relevant units that no
+   * layer retrieves are not included.
+   */
+  async fusionTrainingExamples(
+    queries: LabelledQuery[],
+    topK?: number,
+  ): Promise<FusionTrainingExample[]> {
+    const k = topK ?? this.config.semanticTopK;
+    const examples: FusionTrainingExample[] = [];
+
+    for (const { query, relevantUnitIds } of queries) {
+      const relevant = new Set(relevantUnitIds);
+      const candidates = await this.collectCandidates(
+        { semantic: query },
+        undefined,
+        k * 2,
+      );
+      for (const [id, features] of fusionFeatures(candidates)) {
+        examples.push({ features, relevant: relevant.has(id) });
+      }
+    }
+
+    return examples;
+  }
+
+  /**
+   * Gather per-layer scores and ranks for the union of semantic, lexical
+   * and symbolic (entity) results
+   *
+   * A unit matches the symbolic constraints when it satisfies the filter
+   * and, if entity names were given, mentions one of them. Each layer only
+   * considers units matching `required`, so hard constraints never cost a
+   * matching unit its place among a layer's top results.
+   */
+  private async collectCandidates(
+    query: HybridQuery,
+    filter: QueryFilter | undefined,
+    defaultLayerTopK: number,
+    includeSuperseded = false,
+    required?: QueryFilter,
+  ): Promise<FusionCandidate[]> {
+    const lexicalQuery = query.lexical?.length
+      ? query.lexical.join(" ")
+      : query.semantic;
+    const entities = query.entities ?? [];
 
-    // Get results from all layers
     const [semanticResults, keywordResults] = await Promise.all([
-      this.semanticSearch(query, k * 2),
-      Promise.resolve(this.keywordSearch(query, k * 2)),
+      this.semanticSearch(
+        query.semantic,
+        this.config.semanticCandidates ?? defaultLayerTopK,
+        includeSuperseded,
+        required,
+      ),
+      Promise.resolve(
+        this.keywordSearch(
+          lexicalQuery,
+          this.config.lexicalCandidates ?? defaultLayerTopK,
+          includeSuperseded,
+          required,
+        ),
+      ),
     ]);
+    const entityResults = this.entitySearch(
+      entities,
+      this.config.symbolicCandidates ?? defaultLayerTopK,
+      includeSuperseded,
+      required,
+    );
+
+    const candidates = new Map<string, FusionCandidate>();
+    const candidate = (unit: MemoryUnit): FusionCandidate => {
+      let c = candidates.get(unit.id);
+      if (!c) {
+        c = {
+          id: unit.id,
+          matchesConstraints:
+            (!filter || matchesFilter(unit, filter)) &&
+            (entities.length === 0 || mentionsAny(unit, entities)),
+        };
+        candidates.set(unit.id, c);
+      }
+      return c;
+    };
+
+    semanticResults.forEach((r, i) => {
+      const c = candidate(r.unit);
+      c.semanticScore = r.score;
+      c.semanticRank = i + 1;
+    });
+    keywordResults.forEach((r, i) => {
+      const c = candidate(r.unit);
+      c.lexicalScore = r.score;
+      c.lexicalRank = i + 1;
+    });
+    entityResults.forEach((unit) => candidate(unit));
+
+    return [...candidates.values()];
+  }
 
-    // Normalize BM25 scores to [0, 1]
-    const maxBM25 = Math.max(...keywordResults.map((r) => r.score), 1);
+  /**
+   * Units whose persons or entities mention any of the names
+   */
+  private entitySearch(
+    names: string[],
+    topK: number,
+    includeSuperseded: boolean,
+    required?: QueryFilter,
+  ): MemoryUnit[] {
+    if (names.length === 0) return [];
+
+    const results: MemoryUnit[] = [];
+    for (const unit of this.units.values()) {
+      if (results.length >= topK) break;
+      if (unit.supersededBy && !includeSuperseded) continue;
+      if (required && !matchesFilter(unit, required)) continue;
+      if (mentionsAny(unit, names)) results.push(unit);
+    }
+    return results;
+  }
 
-    // Create score maps
-    const semanticScores = new Map<string, number>();
-    const lexicalScores = new Map<string, number>();
+  /**
+   * Distinct persons, entities, locations and topics of current units,
+   * used to resolve names proposed by the query planner
+   *
+   * Kept up to date by addUnits/removeUnit; call refreshVocabulary after
+   * changing a unit's `supersededBy` in place.
+   */
+  vocabulary(): SymbolicVocabulary {
+    const counts = this.vocabularyCounts;
+    return {
+      persons: [...counts.persons.keys()],
+      entities: [...counts.entities.keys()],
+      locations: [...counts.locations.keys()],
+      topics: [...counts.topics.keys()],
+    };
+  }
 
-    for (const r of semanticResults) {
-      semanticScores.set(r.unit.id, r.score);
-    }
-    for (const r of keywordResults) {
-      lexicalScores.set(r.unit.id, r.score / maxBM25);
+  /**
+   * Recount the vocabulary of indexed units whose supersession changed
+   */
+  refreshVocabulary(units: MemoryUnit[]): void {
+    for (const { id } of units) {
+      const unit = this.units.get(id);
+      if (unit) this.countVocabulary(unit);
     }
+  }
 
-    // Compute hybrid scores for all unique units
-    const allUnitIds = new Set([
-      ...semanticScores.keys(),
-      ...lexicalScores.keys(),
-    ]);
-
-    const hybridResults: SearchResult[] = [];
-
-    for (const unitId of allUnitIds) {
-      const unit = this.units.get(unitId);
-      if (!unit) continue;
-
-      const semanticScore = semanticScores.get(unitId) ?? 0;
-      const lexicalScore = lexicalScores.get(unitId) ?? 0;
-      const matchesConstraints = filter
-        ? matchesFilter(unit, filter)
-        : true;
-
-      const hybridScore = computeHybridScore(
-        semanticScore,
-        lexicalScore,
-        matchesConstraints,
-        this.config.semanticWeight,
-        this.config.lexicalWeight,
-        this.config.symbolicWeight,
-      );
+  /**
+   * Add a unit's symbolic values to the vocabulary, replacing any values
+   * it contributed before. Superseded units contribute nothing.
+   */
+  private countVocabulary(unit: MemoryUnit): void {
+    this.uncountVocabulary(unit.id);
+    if (unit.supersededBy) return;
+
+    const entry: SymbolicVocabulary = {
+      persons: [...new Set(unit.persons)],
+      entities: [...new Set(unit.entities)],
+      locations: unit.location ? [unit.location] : [],
+      topics: unit.topic ? [unit.topic] : [],
+    };
+    this.vocabularyEntries.set(unit.id, entry);
+
+    for (const key of VOCABULARY_KEYS) {
+      const counts = this.vocabularyCounts[key];
+      for (const value of entry[key]) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+  }
 
-      hybridResults.push({
-        unit,
-        score: hybridScore,
-        matchType: "hybrid",
-      });
+  /**
+   * Remove the symbolic values a unit contributed to the vocabulary
+   */
+  private uncountVocabulary(id: string): void {
+    const entry = this.vocabularyEntries.get(id);
+    if (!entry) return;
+    this.vocabularyEntries.delete(id);
+
+    for (const key of VOCABULARY_KEYS) {
+      const counts = this.vocabularyCounts[key];
+      for (const value of entry[key]) {
+        const count = (counts.get(value) ?? 0) - 1;
+        if (count > 0) counts.set(value, count);
+        else counts.delete(value);
+      }
     }
+  }
 
-    // Sort and return top-k
-    return hybridResults.sort((a, b) => b.score - a.score).slice(0, k);
+  /**
+   * Get an indexed unit by ID
+   */
+  getUnit(id: string): MemoryUnit | undefined {
+    return this.units.get(id);
   }
 
   /**
@@ -301,8 +752,22 @@ export class HybridIndex {
    */
   clear(): void {
     this.units.clear();
-    this.bm25 = new BM25Scorer();
-    this.needsRebuild = false;
+    this.vectors.clear();
+    this.bm25.clear();
+    this.vocabularyEntries.clear();
+    for (const key of VOCABULARY_KEYS) this.vocabularyCounts[key].clear();
   }
+}
 
+/**
+ * Case-insensitive substring match of names against persons and entities
+ */
+function mentionsAny(unit: MemoryUnit, names: string[]): boolean {
+  const values = [...unit.persons, ...unit.entities].map((v) =>
+    v.toLowerCase(),
+  );
+  return names.some((name) => {
+    const needle = name.toLowerCase();
+    return values.some((v) => v.includes(needle));
+  });
 }
@@ -7,9 +7,17 @@ import type {
   MemoryUnit,
   LLMCompletionOptions,
   RetrievalContext,
+  AbstractMemory,
+  QueryAnalysis,
+  Tokenizer,
+  Reranker,
+  SearchResult,
+  Relation,
 } from "../types/index";
 import { HybridIndex } from "./indexing";
 import { HybridRetriever, AnswerGenerator } from "./retrieval";
+import { KnowledgeGraph } from "./graph";
+import { MemoryStorage } from "../storage/memory";
 
 // =============================================================================
 // Mock Providers
@@ -33,6 +41,7 @@ class MockEmbeddingProvider implements EmbeddingProvider {
 class MockLLMProvider implements LLMProvider {
   private responses: Map<string, string> = new Map();
   private defaultResponse: string;
+  stream?: LLMProvider["stream"];
 
   constructor(defaultResponse = '{"reasoning":"ok","answer":"mock"}') {
     this.defaultResponse = defaultResponse;
@@ -60,6 +69,27 @@ class MockLLMProvider implements LLMProvider {
   }
 }
 
+/** Counts whitespace-separated words */
+const wordTokenizer: Tokenizer = {
+  count: (text) => text.split(/\s+/).filter(Boolean).length,
+  truncate: (text, maxTokens) =>
+    text.split(/\s+/).filter(Boolean).slice(0, maxTokens).join(" "),
+};
+
+function makeAbstract(overrides: Partial<AbstractMemory> = {}): AbstractMemory {
+  return {
+    id: uuidv4(),
+    pattern: "Alice regularly meets Bob at Starbucks",
+    sourceUnitIds: [],
+    frequency: 3,
+    firstOccurrence: "2025-06-01T10:00:00.000Z",
+    lastOccurrence: "2025-06-15T10:00:00.000Z",
+    entities: ["Starbucks"],
+    isArchived: false,
+    ...overrides,
+  };
+}
+
 function makeUnit(overrides: Partial<MemoryUnit> = {}): MemoryUnit {
   return {
     id: uuidv4(),
@@ -133,6 +163,34 @@ describe("HybridRetriever", () => {
     expect(analysis.lexicalKeywords).toContain("Alice");
   });
 
+  it("routes planner signals to each search layer", async () => {
+    const analysisResponse = JSON.stringify({
+      complexity: "LOW",
+      retrieval_rationale: "Simple fact lookup",
+      lexical_keywords: ["Starbucks"],
+      entities: ["Alice"],
+      semantic_query: "Alice meets Bob somewhere",
+    });
+    const llm = new MockLLMProvider(analysisResponse);
+    const queries: unknown[] = [];
+    const hybridSearch = index.hybridSearch.bind(index);
+    index.hybridSearch = async (query, ...rest) => {
+      queries.push(query);
+      return hybridSearch(query, ...rest);
+    };
+
+    const retriever = new HybridRetriever(llm, index, {
+      enableReflection: false,
+    });
+    await retriever.retrieve("Where does Alice meet Bob?");
+
+    expect(queries[0]).toEqual({
+      semantic: "Alice meets Bob somewhere",
+      lexical: ["Starbucks"],
+      entities: ["Alice"],
+    });
+  });
+
   it("falls back gracefully when LLM analysis fails", async () => {
     const llm = new MockLLMProvider("not json");
     llm.completeJSON = async () => {
@@ -167,6 +225,556 @@ describe("HybridRetriever", () => {
     // We only have 2 units in the index
     expect(context.units.length).toBeLessThanOrEqual(2);
   });
+
+  it("returns no plan when planning is disabled", async () => {
+    const llm = new MockLLMProvider();
+    const retriever = new HybridRetriever(llm, index, {
+      enablePlanning: false,
+    });
+
+    expect(await retriever.plan("Where does Alice meet Bob?")).toBeNull();
+  });
+
+  it("reuses a precomputed analysis without calling the LLM", async () => {
+    const llm = new MockLLMProvider();
+    let calls = 0;
+    llm.completeJSON = async () => {
+      calls++;
+      throw new Error("should not be called");
+    };
+
+    const retriever = new HybridRetriever(llm, index, {
+      enableReflection: false,
+    });
+    const context = await retriever.retrieve("Where does Alice meet Bob?", {
+      complexity: "LOW",
+      rationale: "Precomputed",
+      lexicalKeywords: ["Alice"],
+      semanticQuery: "Alice meets Bob",
+    });
+
+    expect(calls).toBe(0);
+    expect(context.retrievalRationale).toBe("Precomputed");
+  });
+});
+
+// =============================================================================
+// Abstract Retrieval Tests
+// =============================================================================
+
+describe("HybridRetriever abstracts", () => {
+  const query = "Where does Alice meet Bob?";
+  let embeddings: MockEmbeddingProvider;
+  let index: HybridIndex;
+  let storage: MemoryStorage;
+  let queryEmbedding: number[];
+
+  beforeEach(async () => {
+    embeddings = new MockEmbeddingProvider();
+    index = new HybridIndex(embeddings);
+    storage = new MemoryStorage();
+    [queryEmbedding] = await embeddings.embed([query]);
+
+    await index.addUnits([makeUnit()]);
+    index.rebuildLexicalIndex();
+  });
+
+  function makeRetriever(config: Record<string, unknown> = {}) {
+    return new HybridRetriever(
+      new MockLLMProvider(),
+      index,
+      { enablePlanning: false, enableReflection: false, ...config },
+      undefined,
+      storage,
+    );
+  }
+
+  it("ranks abstracts by similarity and drops those below the threshold", async () => {
+    const relevant = makeAbstract({ embedding: queryEmbedding });
+    const irrelevant = makeAbstract({
+      pattern: "Unrelated habit",
+      embedding: queryEmbedding.map((v) => -v),
+    });
+    await storage.saveAbstract(irrelevant);
+    await storage.saveAbstract(relevant);
+
+    const context = await makeRetriever().retrieve(query);
+
+    expect(context.abstracts.map((a) => a.id)).toEqual([relevant.id]);
+    expect(context.abstractTokens).toBeGreaterThan(0);
+    expect(context.totalTokens).toBeGreaterThan(context.abstractTokens!);
+  });
+
+  it("skips archived abstracts", async () => {
+    await storage.saveAbstract(
+      makeAbstract({ embedding: queryEmbedding, isArchived: true }),
+    );
+
+    const context = await makeRetriever().retrieve(query);
+    expect(context.abstracts).toEqual([]);
+    expect(context.abstractTokens).toBe(0);
+  });
+
+  it("respects abstractTopK and abstractTokenBudget", async () => {
+    const short = makeAbstract({ pattern: "Short", embedding: queryEmbedding });
+    const long = makeAbstract({
+      pattern: "A long pattern ".repeat(20),
+      embedding: queryEmbedding,
+    });
+    await storage.saveAbstract(long);
+    await storage.saveAbstract(short);
+
+    const topOne = await makeRetriever({ abstractTopK: 1 }).retrieve(query);
+    expect(topOne.abstracts).toHaveLength(1);
+
+    const budgeted = await makeRetriever({
+      abstractTokenBudget: 40,
+    }).retrieve(query);
+    expect(budgeted.abstracts.map((a) => a.id)).toEqual([short.id]);
+  });
+
+  it("embeds and persists abstracts without an embedding", async () => {
+    const abstract = makeAbstract();
+    await storage.saveAbstract(abstract);
+
+    await makeRetriever({ abstractThreshold: -1 }).retrieve(query);
+
+    const [stored] = await storage.getAllAbstracts();
+    expect(stored.embedding).toEqual(
+      (await embeddings.embed([abstract.pattern]))[0],
+    );
+  });
+
+  it("caches abstracts and the query embedding until invalidated", async () => {
+    await storage.saveAbstract(makeAbstract({ embedding: queryEmbedding }));
+    const retriever = makeRetriever();
+    const embedded: string[] = [];
+    const embed = embeddings.embed.bind(embeddings);
+    embeddings.embed = async (texts) => {
+      embedded.push(...texts);
+      return embed(texts);
+    };
+    let loads = 0;
+    const getAllAbstracts = storage.getAllAbstracts.bind(storage);
+    storage.getAllAbstracts = async () => {
+      loads++;
+      return getAllAbstracts();
+    };
+
+    await retriever.retrieve(query);
+    await retriever.retrieve(query);
+    expect(embedded).toEqual([query]);
+    expect(loads).toBe(1);
+
+    await storage.clear();
+    retriever.invalidateAbstracts();
+    expect((await retriever.retrieve(query)).abstracts).toEqual([]);
+    expect(loads).toBe(2);
+  });
+});
+
+// =============================================================================
+// Context Budget Tests
+// =============================================================================
+
+describe("HybridRetriever context budget", () => {
+  const query = "Alice Bob Starbucks";
+  let index: HybridIndex;
+  let long: MemoryUnit;
+
+  beforeEach(async () => {
+    index = new HybridIndex(new MockEmbeddingProvider());
+    long = makeUnit({
+      content: `Alice and Bob ${"talked about Starbucks coffee ".repeat(20)}`,
+    });
+    await index.addUnits([
+      makeUnit({ content: "Alice meets Bob at Starbucks" }),
+      long,
+      makeUnit({ content: "Bob orders a latte at Starbucks with Alice" }),
+    ]);
+    index.rebuildLexicalIndex();
+  });
+
+  function makeRetriever(maxContextTokens: number) {
+    return new HybridRetriever(
+      new MockLLMProvider(),
+      index,
+      {
+        enablePlanning: false,
+        enableReflection: false,
+        baseK: 3,
+        maxContextTokens,
+      },
+      undefined,
+      null,
+      wordTokenizer,
+    );
+  }
+
+  it("reports exact token counts from the configured tokenizer", async () => {
+    const context = await makeRetriever(Infinity).retrieve(query);
+    expect(context.units).toHaveLength(3);
+    expect(context.droppedUnitIds).toEqual([]);
+
+    const llm = new MockLLMProvider();
+    let prompt = "";
+    llm.completeJSON = async <T>(p: string, schema: z.ZodType<T>) => {
+      prompt = p;
+      return schema.parse({ reasoning: "ok", answer: "mock" });
+    };
+    await new AnswerGenerator(llm).generate(query, context);
+
+    const contextText = prompt
+      .split("Relevant Context:\n")[1]
+      .split("\n\nRequirements:")[0];
+    expect(context.totalTokens).toBe(wordTokenizer.count(contextText));
+  });
+
+  it("keeps the context within maxContextTokens", async () => {
+    const context = await makeRetriever(60).retrieve(query);
+
+    expect(context.totalTokens).toBeLessThanOrEqual(60);
+    expect(
+      context.units.length + context.droppedUnitIds!.length,
+    ).toBe(3);
+  });
+
+  it("truncates a unit that does not fit whole", async () => {
+    const context = await makeRetriever(80).retrieve(query);
+    const truncated = context.units.find((u) => u.id === long.id);
+
+    expect(context.truncatedUnitIds).toEqual([long.id]);
+    expect(truncated?.content.endsWith("…")).toBe(true);
+    expect(long.content.endsWith("…")).toBe(false);
+    expect(context.totalTokens).toBeLessThanOrEqual(80);
+  });
+
+  it("drops units when too little budget remains to truncate", async () => {
+    const context = await makeRetriever(10).retrieve(query);
+
+    expect(context.units).toEqual([]);
+    expect(context.truncatedUnitIds).toEqual([]);
+    expect(context.droppedUnitIds).toHaveLength(3);
+    expect(context.totalTokens).toBe(0);
+  });
+});
+
+// =============================================================================
+// Recency Tests
+// =============================================================================
+
+describe("HybridRetriever recency", () => {
+  const recent = makeUnit({
+    content: "Alice talked about her trip",
+    timestamp: "2025-06-29T12:00:00.000Z",
+  });
+  const old = makeUnit({
+    content: "Alice talked about her trip",
+    timestamp: "2025-01-01T12:00:00.000Z",
+  });
+  let index: HybridIndex;
+
+  beforeEach(async () => {
+    index = new HybridIndex(new MockEmbeddingProvider(), {
+      temporalDecay: 0.05,
+      referenceTime: "2025-06-30T12:00:00.000Z",
+    });
+    await index.addUnits([old, recent]);
+  });
+
+  function retrieve(temporalFocus?: "recent" | "past") {
+    const retriever = new HybridRetriever(new MockLLMProvider(), index, {
+      enableReflection: false,
+      baseK: 1,
+    });
+    return retriever.retrieve("What did Alice say about her trip?", {
+      complexity: "LOW",
+      rationale: "test",
+      lexicalKeywords: [],
+      semanticQuery: "Alice trip",
+      temporalFocus,
+    });
+  }
+
+  it("applies recency decay to recent-focused queries", async () => {
+    const context = await retrieve("recent");
+    expect(context.units.map((u) => u.id)).toEqual([recent.id]);
+  });
+
+  it("exempts queries about the past from decay", async () => {
+    const context = await retrieve("past");
+    // Without decay the identical units tie and keep insertion order
+    expect(context.units.map((u) => u.id)).toEqual([old.id]);
+  });
+
+  it("reads temporal_focus from the query analysis", async () => {
+    const llm = new MockLLMProvider(
+      JSON.stringify({
+        complexity: "LOW",
+        retrieval_rationale: "History",
+        lexical_keywords: ["trip"],
+        temporal_focus: "Past",
+        semantic_query: "Alice trip",
+      }),
+    );
+    const analysis = await new HybridRetriever(llm, index).analyzeQuery(
+      "What did Alice first say about her trip?",
+    );
+    expect(analysis.temporalFocus).toBe("past");
+  });
+});
+
+// =============================================================================
+// Symbolic Constraint Tests
+// =============================================================================
+
+describe("HybridRetriever symbolic constraints", () => {
+  const bob = makeUnit({
+    content: "Bob went hiking in the mountains",
+    persons: ["Bob Smith"],
+    entities: [],
+    topic: "cooking",
+  });
+  const alice = makeUnit({
+    content: "Alice went hiking in the mountains",
+    persons: ["Alice"],
+    entities: [],
+    topic: "hiking",
+  });
+  let index: HybridIndex;
+
+  beforeEach(async () => {
+    index = new HybridIndex(new MockEmbeddingProvider());
+    await index.addUnits([alice, bob]);
+  });
+
+  function retrieve(
+    symbolicConstraints: QueryAnalysis["symbolicConstraints"],
+  ) {
+    const retriever = new HybridRetriever(new MockLLMProvider(), index, {
+      enableReflection: false,
+      baseK: 2,
+    });
+    return retriever.retrieve("Who went hiking with Bob?", {
+      complexity: "LOW",
+      rationale: "test",
+      lexicalKeywords: [],
+      semanticQuery: "went hiking in the mountains",
+      symbolicConstraints,
+    });
+  }
+
+  it("applies confident constraints as hard filters", async () => {
+    const context = await retrieve({ persons: ["bob"], confidence: 0.9 });
+    expect(context.units.map((u) => u.id)).toEqual([bob.id]);
+  });
+
+  it("only boosts matches for low-confidence constraints", async () => {
+    const context = await retrieve({ persons: ["Bob"], confidence: 0.3 });
+    expect(context.units.map((u) => u.id)).toEqual([bob.id, alice.id]);
+  });
+
+  it("ignores names missing from the vocabulary", async () => {
+    const context = await retrieve({ persons: ["Zed"], confidence: 0.9 });
+    expect(context.units).toHaveLength(2);
+  });
+
+  it("relaxes a hard filter that no unit satisfies", async () => {
+    const context = await retrieve({
+      persons: ["Bob"],
+      topic: "hiking",
+      confidence: 0.9,
+    });
+    expect(context.units).toHaveLength(2);
+  });
+
+  it("reads symbolic_constraints from the query analysis", async () => {
+    const llm = new MockLLMProvider(
+      JSON.stringify({
+        complexity: "LOW",
+        retrieval_rationale: "Person lookup",
+        lexical_keywords: ["Bob"],
+        symbolic_constraints: { persons: ["Bob"], confidence: 1.5 },
+        semantic_query: "Bob hiking",
+      }),
+    );
+    const analysis = await new HybridRetriever(llm, index).analyzeQuery(
+      "Where did Bob go hiking?",
+    );
+    expect(analysis.symbolicConstraints).toEqual({
+      persons: ["Bob"],
+      confidence: 1,
+    });
+  });
+});
+
+// =============================================================================
+// Knowledge Graph Expansion Tests
+// =============================================================================
+
+describe("HybridRetriever graph expansion", () => {
+  const alice = makeUnit({
+    content: "Alice works with Bob",
+    persons: ["Alice", "Bob"],
+    entities: [],
+  });
+  const bob = makeUnit({
+    content: "Bob works at Acme",
+    persons: ["Bob"],
+    entities: ["Acme"],
+  });
+  const acme = makeUnit({
+    content: "Acme is based in Lisbon",
+    persons: [],
+    entities: ["Acme", "Lisbon"],
+  });
+  let index: HybridIndex;
+  let graph: KnowledgeGraph;
+
+  function relation(
+    subject: string,
+    predicate: string,
+    object: string,
+    unit: MemoryUnit,
+  ): Relation {
+    return {
+      id: uuidv4(),
+      subject,
+      predicate,
+      object,
+      sourceUnitIds: [unit.id],
+      createdAt: "2025-06-15T12:00:00.000Z",
+    };
+  }
+
+  beforeEach(async () => {
+    index = new HybridIndex(new MockEmbeddingProvider());
+    await index.addUnits([alice, bob, acme].map((u) => ({ ...u })));
+
+    const storage = new MemoryStorage();
+    await storage.saveRelation(relation("Alice", "works_with", "Bob", alice));
+    await storage.saveRelation(relation("Bob", "works_at", "Acme", bob));
+    await storage.saveRelation(relation("Acme", "based_in", "Lisbon", acme));
+    graph = new KnowledgeGraph(new MockLLMProvider(), storage);
+  });
+
+  function retrieve(graphHops: number, withGraph = true) {
+    const retriever = new HybridRetriever(
+      new MockLLMProvider(),
+      index,
+      { enableReflection: false, baseK: 1, graphHops },
+      undefined,
+      null,
+      undefined,
+      null,
+      withGraph ? graph : null,
+    );
+    return retriever.retrieve("Who does Alice work with?", {
+      complexity: "LOW",
+      rationale: "test",
+      lexicalKeywords: [],
+      semanticQuery: "Alice works with",
+      symbolicConstraints: { persons: ["Alice"], confidence: 0.9 },
+    });
+  }
+
+  it("adds units about one-hop neighbors", async () => {
+    const context = await retrieve(1);
+    expect(context.units.map((u) => u.id)).toEqual([alice.id, bob.id]);
+    expect(context.graphUnitIds).toEqual([bob.id]);
+  });
+
+  it("follows two-hop neighborhoods", async () => {
+    const context = await retrieve(2);
+    expect(context.units.map((u) => u.id)).toEqual([
+      alice.id,
+      bob.id,
+      acme.id,
+    ]);
+  });
+
+  it("skips expansion when disabled or without a graph", async () => {
+    expect((await retrieve(0)).graphUnitIds).toEqual([]);
+    const context = await retrieve(1, false);
+    expect(context.units).toHaveLength(1);
+    expect(context.graphUnitIds).toBeUndefined();
+  });
+
+  it("does not follow relations stated only by superseded units", async () => {
+    index.getUnit(bob.id)!.supersededBy = uuidv4();
+    const context = await retrieve(2);
+    expect(context.units.map((u) => u.id)).toEqual([alice.id]);
+  });
+});
+
+// =============================================================================
+// Reranking Tests
+// =============================================================================
+
+describe("HybridRetriever reranking", () => {
+  let index: HybridIndex;
+  let units: MemoryUnit[];
+
+  /** Ranks units by content length, longest first */
+  class LengthReranker implements Reranker {
+    seen = 0;
+
+    async rerank(_query: string, results: SearchResult[]) {
+      this.seen = results.length;
+      return results
+        .map((r) => ({ ...r, rerankScore: r.unit.content.length }))
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+    }
+  }
+
+  beforeEach(async () => {
+    index = new HybridIndex(new MockEmbeddingProvider());
+    units = [
+      makeUnit({ content: "Alice meets Bob" }),
+      makeUnit({ content: "Alice meets Bob at Starbucks every Monday" }),
+      makeUnit({ content: "Alice meets Bob at Starbucks" }),
+      makeUnit({ content: "Charlie goes running" }),
+    ];
+    await index.addUnits(units);
+  });
+
+  function makeRetriever(reranker: Reranker) {
+    return new HybridRetriever(
+      new MockLLMProvider(),
+      index,
+      { enablePlanning: false, enableReflection: false, baseK: 2 },
+      undefined,
+      null,
+      undefined,
+      reranker,
+    );
+  }
+
+  it("reranks a wider candidate set before cutting to dynamic K", async () => {
+    const reranker = new LengthReranker();
+    const context = await makeRetriever(reranker).retrieve("Alice meets Bob");
+
+    expect(reranker.seen).toBe(4);
+    expect(context.units.map((u) => u.id)).toEqual([units[1].id, units[2].id]);
+    expect(context.rerankScores).toEqual({
+      [units[1].id]: units[1].content.length,
+      [units[2].id]: units[2].content.length,
+    });
+  });
+
+  it("keeps the hybrid order when reranking fails", async () => {
+    const failing: Reranker = {
+      rerank: async () => {
+        throw new Error("reranker down");
+      },
+    };
+    const expected = await index.hybridSearch("Alice meets Bob", undefined, 2);
+
+    const context = await makeRetriever(failing).retrieve("Alice meets Bob");
+    expect(context.units.map((u) => u.id)).toEqual(
+      expected.map((r) => r.unit.id),
+    );
+  });
 });
 
 // =============================================================================
@@ -232,3 +840,141 @@ describe("AnswerGenerator", () => {
     expect(answer.length).toBeGreaterThan(0);
   });
 });
+
+describe("AnswerGenerator.generateWithSources", () => {
+  const units = [
+    makeUnit({ content: "Alice moved to Lisbon in March 2025" }),
+    makeUnit({ content: "Alice works at a bakery" }),
+  ];
+  const abstracts: AbstractMemory[] = [
+    {
+      id: "abstract-1",
+      pattern: "Alice relocates often",
+      sourceUnitIds: [],
+      frequency: 3,
+      firstOccurrence: "2024-01-10T00:00:00.000Z",
+      lastOccurrence: "2025-03-01T00:00:00.000Z",
+      entities: [],
+      isArchived: false,
+    },
+  ];
+  const context: RetrievalContext = { abstracts, units, totalTokens: 50 };
+
+  function answering(answer: string): MockLLMProvider {
+    return new MockLLMProvider(JSON.stringify({ reasoning: "ok", answer }));
+  }
+
+  it("resolves citation markers to unit and abstract IDs", async () => {
+    const generator = new AnswerGenerator(
+      answering("Lisbon [Context 1] [Pattern 1]"),
+    );
+    const result = await generator.generateWithSources("Where?", context);
+
+    expect(result.answer).toBe("Lisbon");
+    expect(result.unitIds).toEqual([units[0].id]);
+    expect(result.abstractIds).toEqual(["abstract-1"]);
+  });
+
+  it("parses grouped citations and removes duplicates", async () => {
+    const generator = new AnswerGenerator(
+      answering("Lisbon, at a bakery [Context 2, Context 1][Context 2]."),
+    );
+    const result = await generator.generateWithSources("Where?", context);
+
+    expect(result.answer).toBe("Lisbon, at a bakery.");
+    expect(result.unitIds).toEqual([units[1].id, units[0].id]);
+  });
+
+  it("drops citations outside the retrieval context", async () => {
+    const generator = new AnswerGenerator(
+      answering("Lisbon [Context 7] [Pattern 2]"),
+    );
+    const result = await generator.generateWithSources("Where?", context);
+
+    expect(result.answer).toBe("Lisbon");
+    expect(result.unitIds).toEqual([]);
+    expect(result.abstractIds).toEqual([]);
+  });
+
+  it("asks for citation markers in the prompt", async () => {
+    const llm = answering("Lisbon");
+    let prompt = "";
+    const completeJSON = llm.completeJSON.bind(llm);
+    llm.completeJSON = async (p, schema) => {
+      prompt = p;
+      return completeJSON(p, schema);
+    };
+
+    await new AnswerGenerator(llm).generateWithSources("Where?", context);
+    expect(prompt).toContain("[Context 1]");
+    expect(prompt).toContain("citation markers");
+  });
+
+  it("generate() returns the answer without markers", async () => {
+    const generator = new AnswerGenerator(answering("Lisbon [Context 1]"));
+    expect(await generator.generate("Where?", context)).toBe("Lisbon");
+  });
+});
+
+describe("AnswerGenerator.generateStream", () => {
+  const context: RetrievalContext = {
+    abstracts: [],
+    units: [makeUnit()],
+    totalTokens: 50,
+  };
+
+  async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+  }
+
+  it("yields chunks from the provider stream", async () => {
+    const llm = new MockLLMProvider();
+    llm.stream = async function* () {
+      yield "Star";
+      yield "bucks";
+    };
+
+    const generator = new AnswerGenerator(llm);
+    const chunks = await collect(generator.generateStream("Where?", context));
+
+    expect(chunks).toEqual(["Star", "bucks"]);
+  });
+
+  it("yields the full answer once when the provider cannot stream", async () => {
+    const llm = new MockLLMProvider(
+      JSON.stringify({ reasoning: "ok", answer: "Starbucks" }),
+    );
+
+    const generator = new AnswerGenerator(llm);
+    const chunks = await collect(generator.generateStream("Where?", context));
+
+    expect(chunks).toEqual(["Starbucks"]);
+  });
+
+  it("falls back to generate when streaming fails before any chunk", async () => {
+    const llm = new MockLLMProvider(
+      JSON.stringify({ reasoning: "ok", answer: "Starbucks" }),
+    );
+    llm.stream = async function* () {
+      throw new Error("stream unavailable");
+    };
+
+    const generator = new AnswerGenerator(llm);
+    const chunks = await collect(generator.generateStream("Where?", context));
+
+    expect(chunks).toEqual(["Starbucks"]);
+  });
+
+  it("yields the no-info message when no units provided", async () => {
+    const llm = new MockLLMProvider();
+    const generator = new AnswerGenerator(llm);
+    const chunks = await collect(
+      generator.generateStream("Where?", { ...context, units: [] }),
+    );
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toContain("do not have enough information");
+  });
+});
@@ -13,16 +13,29 @@
 import { z } from "zod";
 import type {
   MemoryUnit,
+  AbstractMemory,
   LLMProvider,
   StorageAdapter,
   RetrievalContext,
   QueryFilter,
   QueryAnalysis,
+  AnswerWithSources,
+  Tokenizer,
+  Reranker,
+  SearchResult,
+  Relation,
   Logger,
 } from "../types/index.js";
 import { consoleLogger } from "../types/index.js";
-import { HybridIndex } from "./indexing.js";
-import { computeDynamicK } from "../utils/similarity.js";
+import {
+  HybridIndex,
+  type HybridQuery,
+  type ScoringOptions,
+} from "./indexing.js";
+import type { KnowledgeGraph } from "./graph.js";
+import { computeDynamicK, cosineSimilarity } from "../utils/similarity.js";
+import { defaultTokenizer } from "../utils/tokenizer.js";
+import { fuzzyMatchNames } from "../utils/fuzzy.js";
 
 // =============================================================================
 // Configuration
@@ -58,6 +71,68 @@ export interface RetrievalConfig {
    * @default 2
    */
   maxReflectionRounds: number;
+
+  /**
+   * Maximum abstract memories added to the context
+   * @default 3
+   */
+  abstractTopK: number;
+
+  /**
+   * Minimum cosine similarity between query and abstract pattern
+   * @default 0.3
+   */
+  abstractThreshold: number;
+
+  /**
+   * Token budget for abstract memories, taken out of maxContextTokens
+   * @default 500
+   */
+  abstractTokenBudget: number;
+
+  /**
+   * Maximum tokens of formatted context passed to answer generation, as
+   * counted by the configured tokenizer (an estimate with the default).
+   * Units that do not fit are truncated or dropped; use Infinity to disable.
+   * @default 4000
+   */
+  maxContextTokens: number;
+
+  /**
+   * Candidates fetched from hybrid search for the reranker before cutting
+   * to the dynamic depth (only used when a reranker is configured)
+   * @default 20
+   */
+  rerankCandidates: number;
+
+  /**
+   * Planner confidence at or above which symbolic constraints (persons,
+   * entities, location, topic) become hard filters; below it they only
+   * boost matching units
+   * @default 0.8
+   */
+  hardFilterConfidence: number;
+
+  /**
+   * Minimum name similarity when resolving planned persons and entities
+   * against the indexed vocabulary
+   * @default 0.85
+   */
+  fuzzyMatchThreshold: number;
+
+  /**
+   * Knowledge-graph neighborhood followed from the query's entities and
+   * the retrieved units' names: 1 or 2 hops, 0 disables expansion (only
+   * used when a knowledge graph is configured)
+   * @default 1
+   */
+  graphHops: number;
+
+  /**
+   * Maximum units added by knowledge-graph expansion
+   * @default 3
+   */
+  graphExpansionK: number;
 }
 
 export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
@@ -66,8 +141,72 @@ export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
   enablePlanning: true,
   enableReflection: true,
   maxReflectionRounds: 2,
+  abstractTopK: 3,
+  abstractThreshold: 0.3,
+  abstractTokenBudget: 500,
+  maxContextTokens: 4000,
+  rerankCandidates: 20,
+  hardFilterConfidence: 0.8,
+  fuzzyMatchThreshold: 0.85,
+  graphHops: 1,
+  graphExpansionK: 3,
 };
 
+/** Smallest content budget worth truncating a unit into */
+const MIN_TRUNCATED_CONTENT_TOKENS = 16;
+
+const TRUNCATION_MARKER = "…";
+
+// =============================================================================
+// Context Formatting
+// =============================================================================
+
+const ENTRY_SEPARATOR = "\n\n";
+
+/**
+ * Format an abstract memory as it appears in the answer prompt
+ */
+function formatAbstract(abstract: AbstractMemory, position: number): string {
+  const lines = [
+    `[Pattern ${position}]`,
+    `Pattern: ${abstract.pattern}`,
+    `Frequency: ${abstract.frequency} occurrences`,
+  ];
+  if (abstract.entities.length > 0)
+    lines.push(`Entities: ${abstract.entities.join(", ")}`);
+  return lines.join("\n");
+}
+
+/**
+ * Format a memory unit as it appears in the answer prompt
+ */
+function formatUnit(unit: MemoryUnit, position: number): string {
+  const lines = [`[Context ${position}]`, `Content: ${unit.content}`];
+
+  if (unit.timestamp) lines.push(`Time: ${unit.timestamp}`);
+  if (unit.location) lines.push(`Location: ${unit.location}`);
+  if (unit.persons.length > 0)
+    lines.push(`Persons: ${unit.persons.join(", ")}`);
+  if (unit.entities.length > 0)
+    lines.push(`Entities: ${unit.entities.join(", ")}`);
+  if (unit.topic) lines.push(`Topic: ${unit.topic}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Format retrieval context for the prompt, abstracts (high-level patterns)
+ * first
+ */
+function formatContext(
+  context: Pick<RetrievalContext, "abstracts" | "units">,
+): string {
+  return [
+    ...context.abstracts.map((a, i) => formatAbstract(a, i + 1)),
+    ...context.units.map((u, i) => formatUnit(u, i + 1)),
+  ].join(ENTRY_SEPARATOR);
+}
+
 // =============================================================================
 // Query Analysis Schema
 // =============================================================================
@@ -76,15 +215,28 @@ const QueryAnalysisResponseSchema = z.object({
   complexity: z.enum(["LOW", "HIGH"]),
   retrieval_rationale: z.string(),
   lexical_keywords: z.array(z.string()),
+  entities: z.array(z.string()).optional(),
+  symbolic_constraints: z
+    .object({
+      persons: z.array(z.string()).optional(),
+      entities: z.array(z.string()).optional(),
+      location: z.string().optional(),
+      topic: z.string().optional(),
+      confidence: z.number().optional(),
+    })
+    .optional(),
   temporal_constraints: z
     .object({
       start: z.string().optional(),
       end: z.string().optional(),
     })
     .optional(),
+  temporal_focus: z.string().optional(),
   semantic_query: z.string(),
 });
 
+const TEMPORAL_FOCUS_VALUES = ["recent", "past", "any"] as const;
+
 // =============================================================================
 // Hybrid Retriever Class
 // =============================================================================
@@ -100,6 +252,13 @@ export class HybridRetriever {
   private storage: StorageAdapter | null;
   private config: RetrievalConfig;
   private logger: Logger;
+  private tokenizer: Tokenizer;
+  private reranker: Reranker | null;
+  private graph: KnowledgeGraph | null;
+  /** Active abstracts with embeddings, loaded from storage on first use */
+  private abstracts: AbstractMemory[] | null = null;
+  /** Bumped by invalidateAbstracts() so stale loads are not cached */
+  private abstractGeneration = 0;
 
   constructor(
     llm: LLMProvider,
@@ -107,35 +266,56 @@ export class HybridRetriever {
     config: Partial<RetrievalConfig> = {},
     logger: Logger = consoleLogger,
     storage: StorageAdapter | null = null,
+    tokenizer: Tokenizer = defaultTokenizer,
+    reranker: Reranker | null = null,
+    graph: KnowledgeGraph | null = null,
   ) {
     this.llm = llm;
     this.index = index;
     this.storage = storage;
     this.config = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
     this.logger = logger;
+    this.tokenizer = tokenizer;
+    this.reranker = reranker;
+    this.graph = graph;
+  }
+
+  /**
+   * Analyze the query if planning is enabled, otherwise return null
+   */
+  async plan(query: string): Promise<QueryAnalysis | null> {
+    return this.config.enablePlanning ? this.analyzeQuery(query) : null;
   }
 
   /**
    * Retrieve relevant memory units for a query
+   *
+   * @param query User query
+   * @param analysis Result of plan() if already computed; planned here when omitted
    */
-  async retrieve(query: string): Promise<RetrievalContext> {
+  async retrieve(
+    query: string,
+    analysis?: QueryAnalysis | null,
+  ): Promise<RetrievalContext> {
     // Step 1: Analyze query if planning is enabled
-    let analysis: QueryAnalysis | null = null;
-    let filter: QueryFilter | undefined;
+    if (analysis === undefined) {
+      analysis = await this.plan(query);
+    }
 
-    if (this.config.enablePlanning) {
-      analysis = await this.analyzeQuery(query);
-
-      // Build filter from analysis
-      if (
-        analysis.temporalConstraints?.start ||
-        analysis.temporalConstraints?.end
-      ) {
-        filter = {
-          timestampRange: analysis.temporalConstraints,
-        };
-      }
+    // Build filters from analysis: temporal constraints and low-confidence
+    // symbolic constraints boost matches, confident symbolic ones are hard
+    let filter: QueryFilter | undefined;
+    if (
+      analysis?.temporalConstraints?.start ||
+      analysis?.temporalConstraints?.end
+    ) {
+      filter = {
+        timestampRange: analysis.temporalConstraints,
+      };
     }
+    const symbolic = this.resolveSymbolicConstraints(analysis);
+    const softFilter =
+      symbolic && !symbolic.hard ? { ...filter, ...symbolic.filter } : filter;
 
     // Step 2: Compute dynamic retrieval depth
     const complexityScore = analysis?.complexity === "HIGH" ? 1.0 : 0.0;
@@ -145,37 +325,336 @@ export class HybridRetriever {
       this.config.complexityDelta,
     );
 
-    // Step 3: Execute hybrid search
+    // Step 3: Execute hybrid search with the planner's signals routed to
+    // each layer, reranking a wider candidate set
     const searchQuery = analysis?.semanticQuery ?? query;
-    const results = await this.index.hybridSearch(
-      searchQuery,
-      filter,
+    const hybridQuery: HybridQuery = {
+      semantic: searchQuery,
+      lexical: analysis?.lexicalKeywords,
+      entities: [
+        ...new Set([
+          ...(analysis?.entities ?? []),
+          ...(symbolic?.filter.persons ?? []),
+          ...(symbolic?.filter.entities ?? []),
+        ]),
+      ],
+    };
+    let scoring: ScoringOptions = {
+      ...this.scoringOptions(analysis),
+      requiredFilter: symbolic?.hard ? symbolic.filter : undefined,
+    };
+    let results = await this.search(
+      hybridQuery,
+      softFilter,
       dynamicK,
+      false,
+      scoring,
     );
 
-    // Step 4: Optional reflection for more context
+    // A hard filter nothing satisfies is more likely a planning mistake
+    // than an empty answer, so retry with it as a soft filter
+    if (results.length === 0 && scoring.requiredFilter) {
+      this.logger.debug("No units satisfy the symbolic filter, relaxing it");
+      scoring = { ...scoring, requiredFilter: undefined };
+      results = await this.search(
+        hybridQuery,
+        { ...filter, ...symbolic!.filter },
+        dynamicK,
+        false,
+        scoring,
+      );
+    }
+
+    // Step 4: Follow knowledge-graph relations to units about neighbors
+    // of the entities involved
     let allUnits = results.map((r) => r.unit);
+    const graphUnits = await this.expandThroughGraph(
+      [
+        ...hybridQuery.entities!,
+        ...allUnits.flatMap((u) => [...u.persons, ...u.entities]),
+      ],
+      allUnits,
+    );
+    allUnits = [...allUnits, ...graphUnits];
 
+    // Step 5: Optional reflection for more context
     if (this.config.enableReflection && analysis?.complexity === "HIGH") {
-      allUnits = await this.reflectionSearch(query, allUnits);
+      allUnits = await this.reflectionSearch(query, allUnits, scoring);
     }
 
-    // Step 5: Fetch abstract memories if storage is available
-    const abstracts = this.storage
-      ? await this.storage.getAllAbstracts()
-      : [];
+    // Step 6: Rank abstract memories if storage is available
+    const abstracts = await this.retrieveAbstracts(searchQuery);
 
-    // Step 6: Build retrieval context
-    const totalTokens = this.estimateTokens(allUnits);
+    // Step 7: Pack units into the remaining token budget
+    const { units, truncatedUnitIds, droppedUnitIds } = this.packUnits(
+      allUnits,
+      abstracts,
+    );
+    const rerankScores = this.reranker
+      ? Object.fromEntries(
+          results
+            .filter((r) => r.rerankScore !== undefined)
+            .map((r) => [r.unit.id, r.rerankScore!]),
+        )
+      : undefined;
+    if (droppedUnitIds.length > 0 || truncatedUnitIds.length > 0) {
+      this.logger.debug(
+        `Context budget: truncated ${truncatedUnitIds.length}, dropped ${droppedUnitIds.length} units`,
+      );
+    }
 
     return {
       abstracts,
-      units: allUnits,
-      totalTokens,
+      units,
+      totalTokens: this.tokenizer.count(formatContext({ abstracts, units })),
+      abstractTokens: this.tokenizer.count(
+        formatContext({ abstracts, units: [] }),
+      ),
+      truncatedUnitIds,
+      droppedUnitIds,
+      rerankScores,
+      graphUnitIds: this.graph ? graphUnits.map((u) => u.id) : undefined,
       retrievalRationale: analysis?.rationale,
     };
   }
 
+  /**
+   * Hybrid search, reranked when a reranker is configured
+   *
+   * With a reranker, `rerankCandidates` results (at least topK) are fetched
+   * and reordered before cutting to topK. Without topK, the index's default
+   * number of results is reranked. If reranking fails, the hybrid order is
+   * kept. The reranker is given the semantic text of a routed query.
+   */
+  async search(
+    query: string | HybridQuery,
+    filter?: QueryFilter,
+    topK?: number,
+    includeSuperseded = false,
+    scoring: ScoringOptions = {},
+  ): Promise<SearchResult[]> {
+    if (!this.reranker) {
+      return this.index.hybridSearch(
+        query,
+        filter,
+        topK,
+        includeSuperseded,
+        scoring,
+      );
+    }
+
+    const candidates = await this.index.hybridSearch(
+      query,
+      filter,
+      topK === undefined
+        ? undefined
+        : Math.max(topK, this.config.rerankCandidates),
+      includeSuperseded,
+      scoring,
+    );
+
+    try {
+      const reranked = await this.reranker.rerank(
+        typeof query === "string" ? query : query.semantic,
+        candidates,
+      );
+      return reranked.slice(0, topK);
+    } catch (error) {
+      this.logger.warn("Reranking failed, keeping hybrid order", error);
+      return candidates.slice(0, topK);
+    }
+  }
+
+  /**
+   * Resolve the planner's symbolic constraints against the indexed
+   * vocabulary
+   *
+   * Names without a match are dropped, so a misheard name cannot filter
+   * out every unit. Returns null when nothing resolves.
+   */
+  private resolveSymbolicConstraints(
+    analysis: QueryAnalysis | null,
+  ): { filter: QueryFilter; hard: boolean } | null {
+    const constraints = analysis?.symbolicConstraints;
+    if (!constraints) return null;
+
+    const vocabulary = this.index.vocabulary();
+    const threshold = this.config.fuzzyMatchThreshold;
+    const resolve = (names: string[] | undefined, values: string[]) => [
+      ...new Set(
+        (names ?? []).flatMap((n) => fuzzyMatchNames(n, values, threshold)),
+      ),
+    ];
+
+    const filter: QueryFilter = {};
+    const persons = resolve(constraints.persons, vocabulary.persons);
+    const entities = resolve(constraints.entities, vocabulary.entities);
+    const [location] = resolve(
+      constraints.location ? [constraints.location] : [],
+      vocabulary.locations,
+    );
+    const [topic] = resolve(
+      constraints.topic ? [constraints.topic] : [],
+      vocabulary.topics,
+    );
+    if (persons.length > 0) filter.persons = persons;
+    if (entities.length > 0) filter.entities = entities;
+    if (location) filter.location = location;
+    if (topic) filter.topic = topic;
+
+    if (Object.keys(filter).length === 0) return null;
+
+    const hard = constraints.confidence >= this.config.hardFilterConfidence;
+    this.logger.debug(
+      `Symbolic ${hard ? "hard" : "soft"} filter: ${JSON.stringify(filter)}`,
+    );
+    return { filter, hard };
+  }
+
+  /**
+   * Current units stating the relations on paths from the seed names to
+   * their graph neighbors, nearest neighbors first
+   *
+   * Relations whose source units are all superseded or gone are not
+   * followed. Units already retrieved are skipped.
+   */
+  private async expandThroughGraph(
+    seeds: string[],
+    retrieved: MemoryUnit[],
+  ): Promise<MemoryUnit[]> {
+    const limit = this.config.graphExpansionK;
+    const hops = Math.min(this.config.graphHops, 2);
+    if (!this.graph || hops <= 0 || limit <= 0 || seeds.length === 0) {
+      return [];
+    }
+
+    const current = (id: string) => {
+      const unit = this.index.getUnit(id);
+      return unit && !unit.supersededBy ? unit : undefined;
+    };
+    const neighbors = await this.graph.neighbors([...new Set(seeds)], {
+      hops,
+      where: (r: Relation) => r.sourceUnitIds.some((id) => current(id)),
+    });
+
+    const seen = new Set(retrieved.map((u) => u.id));
+    const added: MemoryUnit[] = [];
+    const sourceIds = neighbors.flatMap((n) =>
+      n.path.flatMap((r) => r.sourceUnitIds),
+    );
+    for (const id of sourceIds) {
+      const unit = current(id);
+      if (!unit || seen.has(id)) continue;
+      seen.add(id);
+      added.push(unit);
+      if (added.length >= limit) break;
+    }
+
+    if (added.length > 0) {
+      this.logger.debug(`Graph expansion added ${added.length} units`);
+    }
+    return added;
+  }
+
+  /**
+   * Recency decay is skipped for queries about the past: an explicit
+   * "past" focus, or temporal constraints when no focus was given
+   */
+  private scoringOptions(analysis: QueryAnalysis | null): ScoringOptions {
+    const focus = analysis?.temporalFocus;
+    const constrained = !!(
+      analysis?.temporalConstraints?.start || analysis?.temporalConstraints?.end
+    );
+    return {
+      applyDecay: !(focus === "past" || (focus === undefined && constrained)),
+    };
+  }
+
+  /**
+   * Rank active abstract memories against the query
+   *
+   * Archived abstracts are skipped. Abstracts and their embeddings are
+   * kept in memory until invalidateAbstracts(), and the query embedding of
+   * the unit search is reused. Results above `abstractThreshold` are
+   * packed in score order into `abstractTokenBudget` (capped by
+   * `maxContextTokens`).
+   */
+  async retrieveAbstracts(query: string): Promise<AbstractMemory[]> {
+    if (!this.storage || this.config.abstractTopK <= 0) return [];
+
+    const abstracts = await this.loadAbstracts(this.storage);
+    if (abstracts.length === 0) return [];
+
+    const queryEmbedding = await this.index.embedQuery(query);
+    const ranked = abstracts
+      .map((abstract) => ({
+        abstract,
+        score: cosineSimilarity(queryEmbedding, abstract.embedding!),
+      }))
+      .filter((r) => r.score >= this.config.abstractThreshold)
+      .sort((a, b) => b.score - a.score);
+
+    const budget = Math.min(
+      this.config.abstractTokenBudget,
+      this.config.maxContextTokens,
+    );
+    const separatorTokens = this.tokenizer.count(ENTRY_SEPARATOR);
+    const selected: AbstractMemory[] = [];
+    let usedTokens = 0;
+    for (const { abstract } of ranked) {
+      if (selected.length >= this.config.abstractTopK) break;
+
+      const tokens =
+        this.tokenizer.count(formatAbstract(abstract, selected.length + 1)) +
+        (selected.length > 0 ? separatorTokens : 0);
+      if (usedTokens + tokens > budget) continue;
+
+      selected.push(abstract);
+      usedTokens += tokens;
+    }
+
+    return selected;
+  }
+
+  /**
+   * Drop the cached abstracts; call whenever abstracts are created,
+   * changed or deleted
+   */
+  invalidateAbstracts(): void {
+    this.abstracts = null;
+    this.abstractGeneration++;
+  }
+
+  /**
+   * Active abstracts with embeddings. Abstracts without an embedding are
+   * embedded and saved back to storage.
+   */
+  private async loadAbstracts(
+    storage: StorageAdapter,
+  ): Promise<AbstractMemory[]> {
+    if (this.abstracts) return this.abstracts;
+
+    const generation = this.abstractGeneration;
+    const abstracts = (await storage.getAllAbstracts()).filter(
+      (a) => !a.isArchived,
+    );
+
+    const unembedded = abstracts.filter((a) => !a.embedding?.length);
+    if (unembedded.length > 0) {
+      const embeddings = await this.index.embed(
+        unembedded.map((a) => a.pattern),
+      );
+      for (let i = 0; i < unembedded.length; i++) {
+        unembedded[i].embedding = embeddings[i];
+        await storage.saveAbstract(unembedded[i]);
+      }
+    }
+
+    // Abstracts changed while loading are reloaded next time
+    if (generation === this.abstractGeneration) this.abstracts = abstracts;
+    return abstracts;
+  }
+
   /**
    * Analyze query to determine complexity and extract signals
    *
@@ -194,7 +673,10 @@ INSTRUCTIONS:
 
 2. Retrieval Signals:
    - Lexical layer: extract exact keywords or entity names.
+   - Symbolic layer: extract names of people, places and organizations the query is about.
+   - Symbolic constraints: persons, entities, location or topic that every relevant memory must involve, with your confidence (0-1) that memories without them are irrelevant. Omit if the query has no such constraint.
    - Temporal layer: infer absolute time ranges if relevant (use ISO 8601 format).
+   - Temporal focus: "recent" if the query asks about recent events (e.g. "lately", "recently"), "past" if it asks about an earlier period or the history of something, otherwise "any".
    - Semantic layer: rewrite the query into a declarative form suitable for semantic matching.
 
 OUTPUT FORMAT (JSON):
@@ -202,10 +684,17 @@ OUTPUT FORMAT (JSON):
   "complexity": "HIGH",
   "retrieval_rationale": "The query requires reasoning over multiple temporally separated events.",
   "lexical_keywords": ["Starbucks", "Bob"],
+  "entities": ["Bob", "Starbucks"],
+  "symbolic_constraints": {
+    "persons": ["Bob"],
+    "location": "Starbucks",
+    "confidence": 0.9
+  },
   "temporal_constraints": {
     "start": "2025-11-01T00:00:00",
     "end": "2025-11-30T23:59:59"
   },
+  "temporal_focus": "past",
   "semantic_query": "The user is asking about the scheduled meeting with Bob, including location and time."
 }
 
@@ -221,7 +710,18 @@ Return ONLY the JSON object.`;
         complexity: response.complexity,
         rationale: response.retrieval_rationale,
         lexicalKeywords: response.lexical_keywords,
+        entities: response.entities,
+        symbolicConstraints: response.symbolic_constraints && {
+          ...response.symbolic_constraints,
+          confidence: Math.min(
+            1,
+            Math.max(0, response.symbolic_constraints.confidence ?? 0.5),
+          ),
+        },
         temporalConstraints: response.temporal_constraints,
+        temporalFocus: TEMPORAL_FOCUS_VALUES.find(
+          (v) => v === response.temporal_focus?.toLowerCase(),
+        ),
         semanticQuery: response.semantic_query,
       };
     } catch (error) {
@@ -232,7 +732,8 @@ Return ONLY the JSON object.`;
       return {
         complexity: "LOW",
         rationale: "Default analysis",
-        lexicalKeywords: query.split(/\s+/).filter((w) => w.length > 3),
+        // Every word, so BM25 sees the same text as before planning
+        lexicalKeywords: query.split(/\s+/).filter(Boolean),
         semanticQuery: query,
       };
     }
@@ -246,11 +747,18 @@ Return ONLY the JSON object.`;
   private async reflectionSearch(
     originalQuery: string,
     initialResults: MemoryUnit[],
+    scoring: ScoringOptions,
   ): Promise<MemoryUnit[]> {
     const allUnits = [...initialResults];
     const seenIds = new Set(initialResults.map((u) => u.id));
 
     for (let round = 0; round < this.config.maxReflectionRounds; round++) {
+      // Stop once more units could not fit in the context anyway
+      const tokens = this.tokenizer.count(
+        formatContext({ abstracts: [], units: allUnits }),
+      );
+      if (tokens >= this.config.maxContextTokens) break;
+
       // Check if we have enough context
       const isAdequate = await this.checkAdequacy(originalQuery, allUnits);
       if (isAdequate) break;
@@ -265,7 +773,13 @@ Return ONLY the JSON object.`;
 
       // Execute additional searches
       for (const q of additionalQueries) {
-        const results = await this.index.hybridSearch(q, undefined, 3);
+        const results = await this.index.hybridSearch(
+          q,
+          undefined,
+          3,
+          false,
+          scoring,
+        );
         for (const r of results) {
           if (!seenIds.has(r.unit.id)) {
             allUnits.push(r.unit);
@@ -350,20 +864,82 @@ Example: ["meeting time with Alice", "location of the discussion"]`;
   }
 
   /**
-   * Estimate token count for memory units
+   * Pack ranked units into the budget left after abstracts
+   *
+   * Units are kept in rank order. The first unit that does not fit whole is
+   * truncated when enough budget remains; later units that still do not fit
+   * are dropped.
    */
-  private estimateTokens(units: MemoryUnit[]): number {
-    // Rough estimate: 1 token ≈ 4 characters
-    const totalChars = units.reduce((sum, u) => {
-      return (
-        sum +
-        u.content.length +
-        (u.location?.length ?? 0) +
-        u.persons.join(" ").length
+  private packUnits(
+    units: MemoryUnit[],
+    abstracts: AbstractMemory[],
+  ): {
+    units: MemoryUnit[];
+    truncatedUnitIds: string[];
+    droppedUnitIds: string[];
+  } {
+    const budget = this.config.maxContextTokens;
+    const separatorTokens = this.tokenizer.count(ENTRY_SEPARATOR);
+    let used =
+      abstracts.length > 0
+        ? this.tokenizer.count(formatContext({ abstracts, units: [] }))
+        : 0;
+
+    const packed: MemoryUnit[] = [];
+    const truncatedUnitIds: string[] = [];
+    const droppedUnitIds: string[] = [];
+
+    for (const unit of units) {
+      const position = packed.length + 1;
+      const separator = used > 0 ? separatorTokens : 0;
+      const tokens = this.tokenizer.count(formatUnit(unit, position));
+      if (used + separator + tokens <= budget) {
+        packed.push(unit);
+        used += separator + tokens;
+        continue;
+      }
+
+      const truncated = this.truncateUnit(
+        unit,
+        position,
+        budget - used - separator,
       );
-    }, 0);
+      if (truncated) {
+        packed.push(truncated);
+        truncatedUnitIds.push(unit.id);
+        used += separator + this.tokenizer.count(formatUnit(truncated, position));
+      } else {
+        droppedUnitIds.push(unit.id);
+      }
+    }
 
-    return Math.ceil(totalChars / 4);
+    return { units: packed, truncatedUnitIds, droppedUnitIds };
+  }
+
+  /**
+   * Copy of the unit with its content cut to fit, or null if too little
+   * budget remains
+   */
+  private truncateUnit(
+    unit: MemoryUnit,
+    position: number,
+    budget: number,
+  ): MemoryUnit | null {
+    const overhead =
+      this.tokenizer.count(formatUnit({ ...unit, content: "" }, position)) +
+      this.tokenizer.count(TRUNCATION_MARKER);
+    const contentBudget = budget - overhead;
+    if (contentBudget < MIN_TRUNCATED_CONTENT_TOKENS) return null;
+
+    const content =
+      this.tokenizer.truncate(unit.content, contentBudget).trimEnd() +
+      TRUNCATION_MARKER;
+    const truncated = { ...unit, content };
+
+    // Token boundaries can shift when text is joined; verify the result
+    return this.tokenizer.count(formatUnit(truncated, position)) <= budget
+      ? truncated
+      : null;
   }
 }
 
@@ -371,6 +947,16 @@ Example: ["meeting time with Alice", "location of the discussion"]`;
 // Answer Generator
 // =============================================================================
 
+const NO_INFORMATION_ANSWER =
+  "I do not have enough information in my memory to answer this question.";
+
+/** A bracketed group of one or more citations, e.g. [Context 1, Pattern 2] */
+const CITATION_GROUP_PATTERN =
+  /\[\s*(?:context|pattern)\s*\d+(?:\s*[,;]\s*(?:context|pattern)\s*\d+)*\s*\]/gi;
+
+/** A single citation inside a group */
+const CITATION_PATTERN = /(context|pattern)\s*(\d+)/gi;
+
 /**
  * Generate answers from retrieved context
  *
@@ -389,11 +975,24 @@ export class AnswerGenerator {
    * Generate an answer from the retrieval context
    */
   async generate(query: string, context: RetrievalContext): Promise<string> {
+    const { answer } = await this.generateWithSources(query, context);
+    return answer;
+  }
+
+  /**
+   * Generate an answer and resolve its citation markers to memory IDs.
+   *
+   * Markers that point outside the retrieval context are dropped.
+   */
+  async generateWithSources(
+    query: string,
+    context: RetrievalContext,
+  ): Promise<AnswerWithSources> {
     if (context.units.length === 0) {
-      return "I do not have enough information in my memory to answer this question.";
+      return { answer: NO_INFORMATION_ANSWER, unitIds: [], abstractIds: [] };
     }
 
-    const contextStr = this.formatContext(context);
+    const contextStr = formatContext(context);
     const prompt = this.buildPrompt(query, contextStr);
 
     const AnswerSchema = z.object({
@@ -401,54 +1000,97 @@ export class AnswerGenerator {
       answer: z.string(),
     });
 
+    let raw: string;
     try {
       const response = await this.llm.completeJSON(prompt, AnswerSchema);
-      return response.answer;
+      raw = response.answer;
     } catch (error) {
       this.logger.warn(
         "JSON answer generation failed, falling back to plain completion",
         error,
       );
-      const response = await this.llm.complete(prompt, { temperature: 0.1 });
-      return response;
+      raw = await this.llm.complete(prompt, { temperature: 0.1 });
     }
+
+    return this.resolveCitations(raw, context);
   }
 
   /**
-   * Format retrieval context for the prompt
+   * Stream an answer as text chunks.
+   *
+   * Uses the provider's stream() with a plain-text prompt. Providers that
+   * cannot stream get the full generate() answer as a single chunk.
    */
-  private formatContext(context: RetrievalContext): string {
-    const parts: string[] = [];
-
-    // Include abstract memories (high-level patterns) first
-    for (let i = 0; i < context.abstracts.length; i++) {
-      const abstract = context.abstracts[i];
-      const lines = [
-        `[Pattern ${i + 1}]`,
-        `Pattern: ${abstract.pattern}`,
-        `Frequency: ${abstract.frequency} occurrences`,
-      ];
-      if (abstract.entities.length > 0)
-        lines.push(`Entities: ${abstract.entities.join(", ")}`);
-      parts.push(lines.join("\n"));
+  async *generateStream(
+    query: string,
+    context: RetrievalContext,
+  ): AsyncIterable<string> {
+    if (context.units.length === 0) {
+      yield NO_INFORMATION_ANSWER;
+      return;
     }
 
-    for (let i = 0; i < context.units.length; i++) {
-      const unit = context.units[i];
-      const lines = [`[Context ${i + 1}]`, `Content: ${unit.content}`];
+    if (!this.llm.stream) {
+      yield await this.generate(query, context);
+      return;
+    }
 
-      if (unit.timestamp) lines.push(`Time: ${unit.timestamp}`);
-      if (unit.location) lines.push(`Location: ${unit.location}`);
-      if (unit.persons.length > 0)
-        lines.push(`Persons: ${unit.persons.join(", ")}`);
-      if (unit.entities.length > 0)
-        lines.push(`Entities: ${unit.entities.join(", ")}`);
-      if (unit.topic) lines.push(`Topic: ${unit.topic}`);
+    const prompt = this.buildStreamingPrompt(
+      query,
+      formatContext(context),
+    );
 
-      parts.push(lines.join("\n"));
+    let started = false;
+    try {
+      for await (const chunk of this.llm.stream(prompt, { temperature: 0.1 })) {
+        started = true;
+        yield chunk;
+      }
+    } catch (error) {
+      // Chunks already sent cannot be taken back
+      if (started) throw error;
+      this.logger.warn(
+        "Streaming answer generation failed, falling back to generate()",
+        error,
+      );
+      yield await this.generate(query, context);
     }
+  }
+
+  /**
+   * Strip citation markers from an answer and map them to memory IDs
+   */
+  private resolveCitations(
+    raw: string,
+    context: RetrievalContext,
+  ): AnswerWithSources {
+    const unitIds = new Set<string>();
+    const abstractIds = new Set<string>();
+
+    const answer = raw
+      .replace(CITATION_GROUP_PATTERN, (group: string) => {
+        for (const [, kind, num] of group.matchAll(CITATION_PATTERN)) {
+          const idx = parseInt(num, 10) - 1;
+          const isPattern = kind.toLowerCase() === "pattern";
+          const target = isPattern ? context.abstracts[idx] : context.units[idx];
+
+          if (!target) {
+            this.logger.debug(`Ignoring invalid citation ${kind} ${num}`);
+            continue;
+          }
+          (isPattern ? abstractIds : unitIds).add(target.id);
+        }
+        return "";
+      })
+      .replace(/\s+([.,;:!?])/g, "$1")
+      .replace(/\s{2,}/g, " ")
+      .trim();
 
-    return parts.join("\n\n");
+    return {
+      answer,
+      unitIds: [...unitIds],
+      abstractIds: [...abstractIds],
+    };
   }
 
   /**
@@ -467,24 +1109,44 @@ Requirements:
 2. Then provide a very CONCISE answer (short phrase about core information)
 3. Answer must be based ONLY on the provided context
 4. All dates in the response must be formatted as 'DD Month YYYY' when appropriate
-5. Return your response in JSON format
+5. Cite the context entries the answer relies on with inline markers such as [Context 1] or [Pattern 2]
+6. Return your response in JSON format
 
 Output Format:
 {
   "reasoning": "Brief explanation of your thought process",
-  "answer": "Concise answer in a short phrase"
+  "answer": "Concise answer in a short phrase with citation markers"
 }
 
 Example:
 Question: "When will they meet?"
-Context: "Alice suggested meeting Bob at 2025-11-16T14:00:00..."
+Context: "[Context 1] Alice suggested meeting Bob at 2025-11-16T14:00:00..."
 
 Output:
 {
   "reasoning": "The context explicitly states the meeting time as 2025-11-16T14:00:00",
-  "answer": "16 November 2025 at 2:00 PM"
+  "answer": "16 November 2025 at 2:00 PM [Context 1]"
 }
 
 Return ONLY the JSON, no other text.`;
   }
+
+  /**
+   * Build the plain-text prompt used for streaming answers
+   */
+  private buildStreamingPrompt(query: string, contextStr: string): string {
+    return `Answer the user's question based on the provided context.
+
+User Question: ${query}
+
+Relevant Context:
+${contextStr}
+
+Requirements:
+1. Provide a very CONCISE answer (short phrase about core information)
+2. Answer must be based ONLY on the provided context
+3. All dates in the response must be formatted as 'DD Month YYYY' when appropriate
+4. If the context does not contain the answer, say "I do not have enough information in my memory."
+5. Respond with the answer text only - no reasoning, no JSON, no preamble`;
+  }
 }
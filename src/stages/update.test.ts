@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import type {
+  LLMProvider,
+  LLMCompletionOptions,
+  MemoryUnit,
+} from "../types/index";
+import { silentLogger } from "../types/index";
+import { MemoryUpdater } from "./update";
+
+// =============================================================================
+// Mock Provider
+// =============================================================================
+
+class MockLLMProvider implements LLMProvider {
+  calls = 0;
+  private response: string;
+
+  constructor(response = '{"superseded":[]}') {
+    this.response = response;
+  }
+
+  async complete(
+    _prompt: string,
+    _options?: LLMCompletionOptions,
+  ): Promise<string> {
+    return this.response;
+  }
+
+  async completeJSON<T>(_prompt: string, schema: z.ZodType<T>): Promise<T> {
+    this.calls++;
+    return schema.parse(JSON.parse(this.response));
+  }
+}
+
+function makeUnit(overrides: Partial<MemoryUnit> = {}): MemoryUnit {
+  return {
+    id: uuidv4(),
+    content: "Alice lives in Berlin",
+    keywords: ["alice", "berlin"],
+    persons: ["Alice"],
+    entities: ["Berlin"],
+    sourceDialogueIds: [1],
+    salience: "medium",
+    timestamp: "2025-01-10T09:00:00.000Z",
+    embedding: [1, 0, 0, 0],
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("MemoryUpdater", () => {
+  let oldUnit: MemoryUnit;
+  let newUnit: MemoryUnit;
+
+  beforeEach(() => {
+    oldUnit = makeUnit();
+    newUnit = makeUnit({
+      content: "Alice moved from Berlin to Lisbon",
+      entities: ["Berlin", "Lisbon"],
+      timestamp: "2025-06-01T09:00:00.000Z",
+      embedding: [0.9, 0.1, 0, 0],
+    });
+  });
+
+  it("marks units the LLM judges as superseded", async () => {
+    const llm = new MockLLMProvider(
+      '{"superseded":[{"index":1,"reason":"Alice moved"}]}',
+    );
+    const updater = new MemoryUpdater(llm);
+
+    const results = await updater.resolve([newUnit], [oldUnit]);
+    expect(results).toHaveLength(1);
+    expect(results[0].reason).toBe("Alice moved");
+    expect(oldUnit.supersededBy).toBe(newUnit.id);
+    expect(oldUnit.supersededAt).toBeDefined();
+  });
+
+  it("keeps units active when the LLM finds no conflict", async () => {
+    const updater = new MemoryUpdater(new MockLLMProvider());
+    const results = await updater.resolve([newUnit], [oldUnit]);
+    expect(results).toEqual([]);
+    expect(oldUnit.supersededBy).toBeUndefined();
+  });
+
+  it("skips candidates without shared persons or entities", () => {
+    const updater = new MemoryUpdater(new MockLLMProvider());
+    const unrelated = makeUnit({ persons: ["Bob"], entities: ["Paris"] });
+    expect(updater.findCandidates(newUnit, [unrelated])).toEqual([]);
+  });
+
+  it("skips dissimilar, newer and already superseded candidates", () => {
+    const updater = new MemoryUpdater(new MockLLMProvider());
+    const dissimilar = makeUnit({ embedding: [0, 1, 0, 0] });
+    const newer = makeUnit({ timestamp: "2025-12-01T00:00:00.000Z" });
+    const superseded = makeUnit({ supersededBy: uuidv4() });
+
+    expect(
+      updater.findCandidates(newUnit, [dissimilar, newer, superseded]),
+    ).toEqual([]);
+    expect(updater.findCandidates(newUnit, [oldUnit])).toEqual([oldUnit]);
+  });
+
+  it("does not call the LLM without candidates or when disabled", async () => {
+    const llm = new MockLLMProvider();
+    await new MemoryUpdater(llm).resolve([newUnit], []);
+    await new MemoryUpdater(llm, { enabled: false }).resolve(
+      [newUnit],
+      [oldUnit],
+    );
+    expect(llm.calls).toBe(0);
+  });
+
+  it("ignores out-of-range indices and LLM failures", async () => {
+    const updater = new MemoryUpdater(
+      new MockLLMProvider('{"superseded":[{"index":7}]}'),
+    );
+    expect(await updater.resolve([newUnit], [oldUnit])).toEqual([]);
+
+    const failing = new MockLLMProvider();
+    failing.completeJSON = async () => {
+      throw new Error("LLM failure");
+    };
+    const results = await new MemoryUpdater(failing, {}, silentLogger).resolve(
+      [newUnit],
+      [oldUnit],
+    );
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Memory Update - Contradiction Resolution
+ *
+ * Runs after extraction to keep memory consistent over time. When a new
+ * memory unit updates or contradicts an existing one ("moved from Berlin
+ * to Lisbon"), the old unit is marked as superseded and linked to its
+ * replacement. Superseded units are excluded from retrieval by default
+ * but remain in storage for history queries.
+ */
+
+import { z } from "zod";
+import type { MemoryUnit, LLMProvider, Logger } from "../types/index.js";
+import { consoleLogger } from "../types/index.js";
+import { cosineSimilarity } from "../utils/similarity.js";
+import { dayjs, now } from "../utils/temporal.js";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface UpdateConfig {
+  /**
+   * Whether to run contradiction resolution on new units
+   * @default true
+   */
+  enabled: boolean;
+
+  /**
+   * Minimum cosine similarity for an existing unit to be a conflict candidate
+   * @default 0.6
+   */
+  similarityThreshold: number;
+
+  /**
+   * Maximum candidates sent to the LLM per new unit
+   * @default 5
+   */
+  maxCandidates: number;
+
+  /**
+   * Only consider candidates sharing at least one person or entity
+   * @default true
+   */
+  requireSharedEntity: boolean;
+}
+
+export const DEFAULT_UPDATE_CONFIG: UpdateConfig = {
+  enabled: true,
+  similarityThreshold: 0.6,
+  maxCandidates: 5,
+  requireSharedEntity: true,
+};
+
+// =============================================================================
+// LLM Response Schema
+// =============================================================================
+
+const SupersessionResponseSchema = z.object({
+  superseded: z
+    .array(
+      z.object({
+        index: z.number(),
+        reason: z.string().optional(),
+      }),
+    )
+    .default([]),
+});
+
+// =============================================================================
+// Memory Updater
+// =============================================================================
+
+/**
+ * A single supersession decision
+ */
+export interface SupersessionResult {
+  unit: MemoryUnit;
+  supersededBy: string;
+  reason?: string;
+}
+
+export class MemoryUpdater {
+  private llm: LLMProvider;
+  private config: UpdateConfig;
+  private logger: Logger;
+
+  constructor(
+    llm: LLMProvider,
+    config: Partial<UpdateConfig> = {},
+    logger: Logger = consoleLogger,
+  ) {
+    this.llm = llm;
+    this.config = { ...DEFAULT_UPDATE_CONFIG, ...config };
+    this.logger = logger;
+  }
+
+  /**
+   * Find existing units superseded by the new units and mark them.
+   *
+   * Units in `existingUnits` are mutated in place (`supersededBy`,
+   * `supersededAt`); the returned list tells the caller what to persist.
+   */
+  async resolve(
+    newUnits: MemoryUnit[],
+    existingUnits: MemoryUnit[],
+  ): Promise<SupersessionResult[]> {
+    if (!this.config.enabled) return [];
+
+    const results: SupersessionResult[] = [];
+
+    for (const newUnit of newUnits) {
+      const candidates = this.findCandidates(newUnit, existingUnits);
+      if (candidates.length === 0) continue;
+
+      const decisions = await this.judge(newUnit, candidates);
+      for (const { unit, reason } of decisions) {
+        unit.supersededBy = newUnit.id;
+        unit.supersededAt = now();
+        results.push({ unit, supersededBy: newUnit.id, reason });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Select active existing units that could conflict with a new unit.
+   *
+   * Candidates share a person or entity (when required), are semantically
+   * similar, and are not newer than the new unit.
+   */
+  findCandidates(
+    newUnit: MemoryUnit,
+    existingUnits: MemoryUnit[],
+  ): MemoryUnit[] {
+    if (!newUnit.embedding) return [];
+
+    const newNames = new Set(
+      [...newUnit.persons, ...newUnit.entities].map((n) => n.toLowerCase()),
+    );
+
+    const scored: Array<{ unit: MemoryUnit; similarity: number }> = [];
+
+    for (const unit of existingUnits) {
+      if (unit.id === newUnit.id || unit.supersededBy || !unit.embedding) {
+        continue;
+      }
+
+      if (this.config.requireSharedEntity) {
+        const shared = [...unit.persons, ...unit.entities].some((n) =>
+          newNames.has(n.toLowerCase()),
+        );
+        if (!shared) continue;
+      }
+
+      // An older fact cannot supersede a newer one
+      if (
+        newUnit.timestamp &&
+        unit.timestamp &&
+        dayjs(unit.timestamp).isAfter(dayjs(newUnit.timestamp))
+      ) {
+        continue;
+      }
+
+      const similarity = cosineSimilarity(newUnit.embedding, unit.embedding);
+      if (similarity >= this.config.similarityThreshold) {
+        scored.push({ unit, similarity });
+      }
+    }
+
+    return scored
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, this.config.maxCandidates)
+      .map((s) => s.unit);
+  }
+
+  /**
+   * Ask the LLM which candidates are no longer true given the new unit
+   */
+  private async judge(
+    newUnit: MemoryUnit,
+    candidates: MemoryUnit[],
+  ): Promise<Array<{ unit: MemoryUnit; reason?: string }>> {
+    const formatUnit = (u: MemoryUnit) =>
+      u.timestamp ? `(${u.timestamp}) ${u.content}` : u.content;
+
+    const existing = candidates
+      .map((u, i) => `[${i + 1}] ${formatUnit(u)}`)
+      .join("\n");
+
+    const prompt = `You are maintaining a long-term memory. A NEW memory unit has been extracted. Decide which EXISTING memory units it supersedes.
+
+NEW MEMORY:
+${formatUnit(newUnit)}
+
+EXISTING MEMORIES:
+${existing}
+
+INSTRUCTIONS:
+- An existing memory is superseded if the new memory updates, corrects or contradicts it, so that it is no longer true.
+  Example: "Alice lives in Berlin" is superseded by "Alice moved from Berlin to Lisbon".
+- Do NOT mark memories that are merely related, or that can still be true at the same time.
+- If nothing is superseded, return an empty list.
+
+OUTPUT FORMAT (JSON):
+{
+  "superseded": [
+    { "index": 1, "reason": "Alice no longer lives in Berlin" }
+  ]
+}
+
+Return ONLY the JSON object.`;
+
+    try {
+      const response = await this.llm.completeJSON(
+        prompt,
+        SupersessionResponseSchema,
+      );
+
+      const seen = new Set<number>();
+      const decisions: Array<{ unit: MemoryUnit; reason?: string }> = [];
+      for (const item of response.superseded ?? []) {
+        const idx = item.index - 1;
+        if (idx < 0 || idx >= candidates.length || seen.has(idx)) continue;
+        seen.add(idx);
+        decisions.push({ unit: candidates[idx], reason: item.reason });
+      }
+      return decisions;
+    } catch (error) {
+      this.logger.warn(
+        "Contradiction check failed, keeping existing units active",
+        error,
+      );
+      return [];
+    }
+  }
+}
@@ -9,12 +9,22 @@ import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { dirname } from "node:path";
 import type {
   StorageAdapter,
+  Dialogue,
+  DialogueRef,
   MemoryUnit,
   AbstractMemory,
+  Entity,
+  Relation,
+  BuilderCheckpoint,
   QueryFilter,
   ExportData,
 } from "../types/index.js";
-import { matchesFilter } from "../utils/filter.js";
+import {
+  matchesFilter,
+  matchesNamespace,
+  dialogueKey,
+  isReferencedDialogue,
+} from "../utils/filter.js";
 
 export interface FileStorageOptions {
   /**
@@ -35,12 +45,23 @@ export interface FileStorageOptions {
   prettyPrint?: boolean;
 }
 
+/**
+ * File contents: export data plus builder checkpoints, which are kept out
+ * of export()
+ */
+type StoredData = ExportData & { checkpoints?: BuilderCheckpoint[] };
+
 /**
  * File-based storage adapter using JSON
  */
 export class FileStorage implements StorageAdapter {
   private units: Map<string, MemoryUnit> = new Map();
   private abstracts: Map<string, AbstractMemory> = new Map();
+  private entities: Map<string, Entity> = new Map();
+  private relations: Map<string, Relation> = new Map();
+  private dialogues: Map<string, Dialogue> = new Map();
+  /** Builder checkpoints by namespace ("" without one) */
+  private checkpoints: Map<string, BuilderCheckpoint> = new Map();
   private filePath: string;
   private autoSave: boolean;
   private prettyPrint: boolean;
@@ -60,7 +81,7 @@ export class FileStorage implements StorageAdapter {
 
     try {
       const content = await readFile(this.filePath, "utf-8");
-      const data: ExportData = JSON.parse(content);
+      const data: StoredData = JSON.parse(content);
 
       for (const unit of data.units) {
         this.units.set(unit.id, unit);
@@ -68,6 +89,18 @@ export class FileStorage implements StorageAdapter {
       for (const abstract of data.abstracts) {
         this.abstracts.set(abstract.id, abstract);
       }
+      for (const entity of data.entities ?? []) {
+        this.entities.set(entity.id, entity);
+      }
+      for (const relation of data.relations ?? []) {
+        this.relations.set(relation.id, relation);
+      }
+      for (const dialogue of data.dialogues ?? []) {
+        this.dialogues.set(dialogueKey(dialogue), dialogue);
+      }
+      for (const checkpoint of data.checkpoints ?? []) {
+        this.checkpoints.set(checkpoint.namespace ?? "", checkpoint);
+      }
     } catch (error) {
       // File doesn't exist yet - start with empty state
       if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
@@ -84,9 +117,13 @@ export class FileStorage implements StorageAdapter {
   private async persist(): Promise<void> {
     if (!this.autoSave) return;
 
-    const data: ExportData = {
+    const data: StoredData = {
       units: Array.from(this.units.values()),
       abstracts: Array.from(this.abstracts.values()),
+      entities: Array.from(this.entities.values()),
+      relations: Array.from(this.relations.values()),
+      dialogues: Array.from(this.dialogues.values()),
+      checkpoints: Array.from(this.checkpoints.values()),
       version: "1.0.0",
       exportedAt: new Date().toISOString(),
     };
@@ -120,9 +157,11 @@ export class FileStorage implements StorageAdapter {
     return this.units.get(id) ?? null;
   }
 
-  async getAllUnits(): Promise<MemoryUnit[]> {
+  async getAllUnits(namespace?: string): Promise<MemoryUnit[]> {
     await this.ensureLoaded();
-    return Array.from(this.units.values());
+    return Array.from(this.units.values()).filter((u) =>
+      matchesNamespace(u, namespace),
+    );
   }
 
   async queryUnits(filter: QueryFilter): Promise<MemoryUnit[]> {
@@ -150,35 +189,186 @@ export class FileStorage implements StorageAdapter {
     await this.persist();
   }
 
-  async getAllAbstracts(): Promise<AbstractMemory[]> {
+  async getAbstract(id: string): Promise<AbstractMemory | null> {
+    await this.ensureLoaded();
+    return this.abstracts.get(id) ?? null;
+  }
+
+  async getAllAbstracts(namespace?: string): Promise<AbstractMemory[]> {
+    await this.ensureLoaded();
+    return Array.from(this.abstracts.values()).filter((a) =>
+      matchesNamespace(a, namespace),
+    );
+  }
+
+  async deleteAbstract(id: string): Promise<void> {
+    await this.ensureLoaded();
+    this.abstracts.delete(id);
+    await this.persist();
+  }
+
+  async saveEntity(entity: Entity): Promise<void> {
+    await this.ensureLoaded();
+    this.entities.set(entity.id, entity);
+    await this.persist();
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    await this.ensureLoaded();
+    return this.entities.get(id) ?? null;
+  }
+
+  async getAllEntities(namespace?: string): Promise<Entity[]> {
+    await this.ensureLoaded();
+    return Array.from(this.entities.values()).filter((e) =>
+      matchesNamespace(e, namespace),
+    );
+  }
+
+  async deleteEntity(id: string): Promise<void> {
+    await this.ensureLoaded();
+    this.entities.delete(id);
+    await this.persist();
+  }
+
+  async saveRelation(relation: Relation): Promise<void> {
+    await this.ensureLoaded();
+    this.relations.set(relation.id, relation);
+    await this.persist();
+  }
+
+  async getRelation(id: string): Promise<Relation | null> {
+    await this.ensureLoaded();
+    return this.relations.get(id) ?? null;
+  }
+
+  async getAllRelations(namespace?: string): Promise<Relation[]> {
+    await this.ensureLoaded();
+    return Array.from(this.relations.values()).filter((r) =>
+      matchesNamespace(r, namespace),
+    );
+  }
+
+  async deleteRelation(id: string): Promise<void> {
+    await this.ensureLoaded();
+    this.relations.delete(id);
+    await this.persist();
+  }
+
+  async saveDialogues(dialogues: Dialogue[]): Promise<void> {
+    await this.ensureLoaded();
+    for (const dialogue of dialogues) {
+      this.dialogues.set(dialogueKey(dialogue), dialogue);
+    }
+    await this.persist();
+  }
+
+  async getDialogues(
+    sessionId: string,
+    namespace?: string,
+  ): Promise<Dialogue[]> {
+    await this.ensureLoaded();
+    return Array.from(this.dialogues.values())
+      .filter(
+        (d) => d.sessionId === sessionId && matchesNamespace(d, namespace),
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async deleteDialogues(
+    refs: DialogueRef[],
+    namespace?: string,
+  ): Promise<void> {
+    await this.ensureLoaded();
+    for (const [key, dialogue] of this.dialogues) {
+      if (
+        matchesNamespace(dialogue, namespace) &&
+        isReferencedDialogue(dialogue, refs)
+      ) {
+        this.dialogues.delete(key);
+      }
+    }
+    await this.persist();
+  }
+
+  async saveCheckpoint(checkpoint: BuilderCheckpoint): Promise<void> {
+    await this.ensureLoaded();
+    this.checkpoints.set(checkpoint.namespace ?? "", checkpoint);
+    await this.persist();
+  }
+
+  async getCheckpoint(namespace?: string): Promise<BuilderCheckpoint | null> {
     await this.ensureLoaded();
-    return Array.from(this.abstracts.values());
+    return this.checkpoints.get(namespace ?? "") ?? null;
   }
 
-  async clear(): Promise<void> {
-    this.units.clear();
-    this.abstracts.clear();
+  async clear(namespace?: string): Promise<void> {
+    if (namespace === undefined) {
+      this.units.clear();
+      this.abstracts.clear();
+      this.entities.clear();
+      this.relations.clear();
+      this.dialogues.clear();
+      this.checkpoints.clear();
+      await this.persist();
+      return;
+    }
+
+    // Scoped clear must keep other tenants' data, so load it first
+    await this.ensureLoaded();
+    for (const [id, unit] of this.units) {
+      if (unit.namespace === namespace) this.units.delete(id);
+    }
+    for (const [id, abstract] of this.abstracts) {
+      if (abstract.namespace === namespace) this.abstracts.delete(id);
+    }
+    for (const [id, entity] of this.entities) {
+      if (entity.namespace === namespace) this.entities.delete(id);
+    }
+    for (const [id, relation] of this.relations) {
+      if (relation.namespace === namespace) this.relations.delete(id);
+    }
+    for (const [key, dialogue] of this.dialogues) {
+      if (dialogue.namespace === namespace) this.dialogues.delete(key);
+    }
+    this.checkpoints.delete(namespace);
     await this.persist();
   }
 
-  async export(): Promise<ExportData> {
+  async export(namespace?: string): Promise<ExportData> {
     await this.ensureLoaded();
     return {
-      units: Array.from(this.units.values()),
-      abstracts: Array.from(this.abstracts.values()),
+      units: await this.getAllUnits(namespace),
+      abstracts: await this.getAllAbstracts(namespace),
+      entities: await this.getAllEntities(namespace),
+      relations: await this.getAllRelations(namespace),
+      dialogues: Array.from(this.dialogues.values()).filter((d) =>
+        matchesNamespace(d, namespace),
+      ),
       version: "1.0.0",
       exportedAt: new Date().toISOString(),
+      namespace,
     };
   }
 
-  async import(data: ExportData): Promise<void> {
+  async import(data: ExportData): Promise<MemoryUnit[]> {
     for (const unit of data.units) {
       this.units.set(unit.id, unit);
     }
     for (const abstract of data.abstracts) {
       this.abstracts.set(abstract.id, abstract);
     }
+    for (const entity of data.entities ?? []) {
+      this.entities.set(entity.id, entity);
+    }
+    for (const relation of data.relations ?? []) {
+      this.relations.set(relation.id, relation);
+    }
+    for (const dialogue of data.dialogues ?? []) {
+      this.dialogues.set(dialogueKey(dialogue), dialogue);
+    }
     await this.persist();
+    return data.units;
   }
 
   /**
@@ -4,3 +4,4 @@
 
 export * from "./memory.js";
 export * from "./file.js";
+export * from "./namespaced.js";
@@ -7,12 +7,22 @@
 
 import type {
   StorageAdapter,
+  Dialogue,
+  DialogueRef,
   MemoryUnit,
   AbstractMemory,
+  Entity,
+  Relation,
+  BuilderCheckpoint,
   QueryFilter,
   ExportData,
 } from "../types/index.js";
-import { matchesFilter } from "../utils/filter.js";
+import {
+  matchesFilter,
+  matchesNamespace,
+  dialogueKey,
+  isReferencedDialogue,
+} from "../utils/filter.js";
 
 /**
  * In-memory storage adapter using JavaScript Maps
@@ -20,6 +30,11 @@ import { matchesFilter } from "../utils/filter.js";
 export class MemoryStorage implements StorageAdapter {
   private units: Map<string, MemoryUnit> = new Map();
   private abstracts: Map<string, AbstractMemory> = new Map();
+  private entities: Map<string, Entity> = new Map();
+  private relations: Map<string, Relation> = new Map();
+  private dialogues: Map<string, Dialogue> = new Map();
+  /** Builder checkpoints by namespace ("" without one) */
+  private checkpoints: Map<string, BuilderCheckpoint> = new Map();
 
   async saveUnit(unit: MemoryUnit): Promise<void> {
     this.units.set(unit.id, unit);
@@ -35,8 +50,10 @@ export class MemoryStorage implements StorageAdapter {
     return this.units.get(id) ?? null;
   }
 
-  async getAllUnits(): Promise<MemoryUnit[]> {
-    return Array.from(this.units.values());
+  async getAllUnits(namespace?: string): Promise<MemoryUnit[]> {
+    return Array.from(this.units.values()).filter((u) =>
+      matchesNamespace(u, namespace),
+    );
   }
 
   async queryUnits(filter: QueryFilter): Promise<MemoryUnit[]> {
@@ -59,30 +76,153 @@ export class MemoryStorage implements StorageAdapter {
     this.abstracts.set(abstract.id, abstract);
   }
 
-  async getAllAbstracts(): Promise<AbstractMemory[]> {
-    return Array.from(this.abstracts.values());
+  async getAbstract(id: string): Promise<AbstractMemory | null> {
+    return this.abstracts.get(id) ?? null;
   }
 
-  async clear(): Promise<void> {
-    this.units.clear();
-    this.abstracts.clear();
+  async getAllAbstracts(namespace?: string): Promise<AbstractMemory[]> {
+    return Array.from(this.abstracts.values()).filter((a) =>
+      matchesNamespace(a, namespace),
+    );
   }
 
-  async export(): Promise<ExportData> {
+  async deleteAbstract(id: string): Promise<void> {
+    this.abstracts.delete(id);
+  }
+
+  async saveEntity(entity: Entity): Promise<void> {
+    this.entities.set(entity.id, entity);
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    return this.entities.get(id) ?? null;
+  }
+
+  async getAllEntities(namespace?: string): Promise<Entity[]> {
+    return Array.from(this.entities.values()).filter((e) =>
+      matchesNamespace(e, namespace),
+    );
+  }
+
+  async deleteEntity(id: string): Promise<void> {
+    this.entities.delete(id);
+  }
+
+  async saveRelation(relation: Relation): Promise<void> {
+    this.relations.set(relation.id, relation);
+  }
+
+  async getRelation(id: string): Promise<Relation | null> {
+    return this.relations.get(id) ?? null;
+  }
+
+  async getAllRelations(namespace?: string): Promise<Relation[]> {
+    return Array.from(this.relations.values()).filter((r) =>
+      matchesNamespace(r, namespace),
+    );
+  }
+
+  async deleteRelation(id: string): Promise<void> {
+    this.relations.delete(id);
+  }
+
+  async saveDialogues(dialogues: Dialogue[]): Promise<void> {
+    for (const dialogue of dialogues) {
+      this.dialogues.set(dialogueKey(dialogue), dialogue);
+    }
+  }
+
+  async getDialogues(
+    sessionId: string,
+    namespace?: string,
+  ): Promise<Dialogue[]> {
+    return Array.from(this.dialogues.values())
+      .filter(
+        (d) => d.sessionId === sessionId && matchesNamespace(d, namespace),
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async deleteDialogues(
+    refs: DialogueRef[],
+    namespace?: string,
+  ): Promise<void> {
+    for (const [key, dialogue] of this.dialogues) {
+      if (
+        matchesNamespace(dialogue, namespace) &&
+        isReferencedDialogue(dialogue, refs)
+      ) {
+        this.dialogues.delete(key);
+      }
+    }
+  }
+
+  async saveCheckpoint(checkpoint: BuilderCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.namespace ?? "", checkpoint);
+  }
+
+  async getCheckpoint(namespace?: string): Promise<BuilderCheckpoint | null> {
+    return this.checkpoints.get(namespace ?? "") ?? null;
+  }
+
+  async clear(namespace?: string): Promise<void> {
+    if (namespace === undefined) {
+      this.units.clear();
+      this.abstracts.clear();
+      this.entities.clear();
+      this.relations.clear();
+      this.dialogues.clear();
+      this.checkpoints.clear();
+      return;
+    }
+
+    for (const [id, unit] of this.units) {
+      if (unit.namespace === namespace) this.units.delete(id);
+    }
+    for (const [id, abstract] of this.abstracts) {
+      if (abstract.namespace === namespace) this.abstracts.delete(id);
+    }
+    for (const [id, entity] of this.entities) {
+      if (entity.namespace === namespace) this.entities.delete(id);
+    }
+    for (const [id, relation] of this.relations) {
+      if (relation.namespace === namespace) this.relations.delete(id);
+    }
+    for (const [key, dialogue] of this.dialogues) {
+      if (dialogue.namespace === namespace) this.dialogues.delete(key);
+    }
+    this.checkpoints.delete(namespace);
+  }
+
+  async export(namespace?: string): Promise<ExportData> {
     return {
-      units: Array.from(this.units.values()),
-      abstracts: Array.from(this.abstracts.values()),
+      units: await this.getAllUnits(namespace),
+      abstracts: await this.getAllAbstracts(namespace),
+      entities: await this.getAllEntities(namespace),
+      relations: await this.getAllRelations(namespace),
+      dialogues: Array.from(this.dialogues.values()).filter((d) =>
+        matchesNamespace(d, namespace),
+      ),
       version: "1.0.0",
       exportedAt: new Date().toISOString(),
+      namespace,
     };
   }
 
-  async import(data: ExportData): Promise<void> {
+  async import(data: ExportData): Promise<MemoryUnit[]> {
     for (const unit of data.units) {
       this.units.set(unit.id, unit);
     }
     for (const abstract of data.abstracts) {
       this.abstracts.set(abstract.id, abstract);
     }
+    for (const entity of data.entities ?? []) {
+      this.entities.set(entity.id, entity);
+    }
+    for (const relation of data.relations ?? []) {
+      this.relations.set(relation.id, relation);
+    }
+    await this.saveDialogues(data.dialogues ?? []);
+    return data.units;
   }
 }
@@ -0,0 +1,263 @@
+/**
+ * Namespaced Storage Adapter
+ *
+ * Scopes any StorageAdapter to a single tenant namespace so that many
+ * SimpleMem instances can share one underlying database.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type {
+  StorageAdapter,
+  MemoryUnit,
+  AbstractMemory,
+  Entity,
+  Relation,
+  Dialogue,
+  DialogueRef,
+  BuilderCheckpoint,
+  QueryFilter,
+  ExportData,
+} from "../types/index.js";
+
+/**
+ * Storage adapter view restricted to one namespace.
+ *
+ * Writes are stamped with the namespace; reads, clear() and export()
+ * only see data belonging to it. Records of another tenant cannot be
+ * overwritten, and imported records whose IDs another tenant uses get new
+ * IDs.
+ */
+export class NamespacedStorage implements StorageAdapter {
+  private inner: StorageAdapter;
+  readonly namespace: string;
+
+  constructor(inner: StorageAdapter, namespace: string) {
+    this.inner = inner;
+    this.namespace = namespace;
+  }
+
+  async saveUnit(unit: MemoryUnit): Promise<void> {
+    await this.assertOwn("Unit", [unit], (id) => this.inner.getUnit(id));
+    await this.inner.saveUnit({ ...unit, namespace: this.namespace });
+  }
+
+  async saveUnits(units: MemoryUnit[]): Promise<void> {
+    await this.assertOwn("Unit", units, (id) => this.inner.getUnit(id));
+    await this.inner.saveUnits(
+      units.map((u) => ({ ...u, namespace: this.namespace })),
+    );
+  }
+
+  async getUnit(id: string): Promise<MemoryUnit | null> {
+    const unit = await this.inner.getUnit(id);
+    return unit?.namespace === this.namespace ? unit : null;
+  }
+
+  async getAllUnits(): Promise<MemoryUnit[]> {
+    return this.inner.getAllUnits(this.namespace);
+  }
+
+  async queryUnits(filter: QueryFilter): Promise<MemoryUnit[]> {
+    return this.inner.queryUnits({ ...filter, namespace: this.namespace });
+  }
+
+  async deleteUnit(id: string): Promise<void> {
+    // Never delete another tenant's unit
+    if (await this.getUnit(id)) {
+      await this.inner.deleteUnit(id);
+    }
+  }
+
+  async saveAbstract(abstract: AbstractMemory): Promise<void> {
+    await this.assertOwn("Abstract", [abstract], (id) =>
+      this.inner.getAbstract(id),
+    );
+    await this.inner.saveAbstract({ ...abstract, namespace: this.namespace });
+  }
+
+  async getAbstract(id: string): Promise<AbstractMemory | null> {
+    const abstract = await this.inner.getAbstract(id);
+    return abstract?.namespace === this.namespace ? abstract : null;
+  }
+
+  async getAllAbstracts(): Promise<AbstractMemory[]> {
+    return this.inner.getAllAbstracts(this.namespace);
+  }
+
+  async deleteAbstract(id: string): Promise<void> {
+    // Never delete another tenant's abstract
+    if (await this.getAbstract(id)) {
+      await this.inner.deleteAbstract(id);
+    }
+  }
+
+  async saveEntity(entity: Entity): Promise<void> {
+    await this.assertOwn("Entity", [entity], (id) => this.inner.getEntity(id));
+    await this.inner.saveEntity({ ...entity, namespace: this.namespace });
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    const entity = await this.inner.getEntity(id);
+    return entity?.namespace === this.namespace ? entity : null;
+  }
+
+  async getAllEntities(): Promise<Entity[]> {
+    return this.inner.getAllEntities(this.namespace);
+  }
+
+  async deleteEntity(id: string): Promise<void> {
+    // Never delete another tenant's entity
+    if (await this.getEntity(id)) {
+      await this.inner.deleteEntity(id);
+    }
+  }
+
+  async saveRelation(relation: Relation): Promise<void> {
+    await this.assertOwn("Relation", [relation], (id) =>
+      this.inner.getRelation(id),
+    );
+    await this.inner.saveRelation({ ...relation, namespace: this.namespace });
+  }
+
+  async getRelation(id: string): Promise<Relation | null> {
+    const relation = await this.inner.getRelation(id);
+    return relation?.namespace === this.namespace ? relation : null;
+  }
+
+  async getAllRelations(): Promise<Relation[]> {
+    return this.inner.getAllRelations(this.namespace);
+  }
+
+  async deleteRelation(id: string): Promise<void> {
+    // Never delete another tenant's relation
+    if (await this.getRelation(id)) {
+      await this.inner.deleteRelation(id);
+    }
+  }
+
+  async saveDialogues(dialogues: Dialogue[]): Promise<void> {
+    await this.inner.saveDialogues(
+      dialogues.map((d) => ({ ...d, namespace: this.namespace })),
+    );
+  }
+
+  async getDialogues(sessionId: string): Promise<Dialogue[]> {
+    return this.inner.getDialogues(sessionId, this.namespace);
+  }
+
+  async deleteDialogues(refs: DialogueRef[]): Promise<void> {
+    await this.inner.deleteDialogues(refs, this.namespace);
+  }
+
+  async saveCheckpoint(checkpoint: BuilderCheckpoint): Promise<void> {
+    await this.inner.saveCheckpoint({
+      ...checkpoint,
+      namespace: this.namespace,
+    });
+  }
+
+  async getCheckpoint(): Promise<BuilderCheckpoint | null> {
+    return this.inner.getCheckpoint(this.namespace);
+  }
+
+  async clear(): Promise<void> {
+    await this.inner.clear(this.namespace);
+  }
+
+  async export(): Promise<ExportData> {
+    return this.inner.export(this.namespace);
+  }
+
+  async import(data: ExportData): Promise<MemoryUnit[]> {
+    // Copies of another tenant's records get new IDs instead of taking
+    // over its rows; references to them follow
+    const unitIds = await this.ownIds(
+      [
+        ...data.units.flatMap((u) =>
+          u.supersededBy ? [u.id, u.supersededBy] : [u.id],
+        ),
+        ...data.abstracts.flatMap((a) => a.sourceUnitIds),
+        ...(data.relations ?? []).flatMap((r) => r.sourceUnitIds),
+      ],
+      (id) => this.inner.getUnit(id),
+    );
+    const abstractIds = await this.ownIds(
+      data.abstracts.map((a) => a.id),
+      (id) => this.inner.getAbstract(id),
+    );
+    const entityIds = await this.ownIds(
+      (data.entities ?? []).map((e) => e.id),
+      (id) => this.inner.getEntity(id),
+    );
+    const relationIds = await this.ownIds(
+      (data.relations ?? []).map((r) => r.id),
+      (id) => this.inner.getRelation(id),
+    );
+    const unitId = (id: string): string => unitIds.get(id) ?? id;
+
+    return this.inner.import({
+      ...data,
+      units: data.units.map((u) => ({
+        ...u,
+        id: unitId(u.id),
+        ...(u.supersededBy ? { supersededBy: unitId(u.supersededBy) } : {}),
+        namespace: this.namespace,
+      })),
+      abstracts: data.abstracts.map((a) => ({
+        ...a,
+        id: abstractIds.get(a.id) ?? a.id,
+        sourceUnitIds: a.sourceUnitIds.map(unitId),
+        namespace: this.namespace,
+      })),
+      entities: data.entities?.map((e) => ({
+        ...e,
+        id: entityIds.get(e.id) ?? e.id,
+        namespace: this.namespace,
+      })),
+      relations: data.relations?.map((r) => ({
+        ...r,
+        id: relationIds.get(r.id) ?? r.id,
+        sourceUnitIds: r.sourceUnitIds.map(unitId),
+        namespace: this.namespace,
+      })),
+      dialogues: data.dialogues?.map((d) => ({
+        ...d,
+        namespace: this.namespace,
+      })),
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Reject records whose IDs belong to another tenant's records
+   */
+  private async assertOwn(
+    kind: string,
+    records: Array<{ id: string }>,
+    get: (id: string) => Promise<{ namespace?: string } | null>,
+  ): Promise<void> {
+    for (const { id } of records) {
+      const existing = await get(id);
+      if (existing && existing.namespace !== this.namespace) {
+        throw new Error(`${kind} ${id} belongs to another namespace`);
+      }
+    }
+  }
+
+  /**
+   * New IDs for the given IDs of records that belong to other tenants
+   */
+  private async ownIds(
+    ids: string[],
+    get: (id: string) => Promise<{ namespace?: string } | null>,
+  ): Promise<Map<string, string>> {
+    const renamed = new Map<string, string>();
+    for (const id of new Set(ids)) {
+      const existing = await get(id);
+      if (existing && existing.namespace !== this.namespace) {
+        renamed.set(id, uuidv4());
+      }
+    }
+    return renamed;
+  }
+}
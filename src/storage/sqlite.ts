@@ -11,10 +11,16 @@ import type {
   StorageAdapter,
   MemoryUnit,
   AbstractMemory,
+  Entity,
+  Relation,
+  Dialogue,
+  DialogueRef,
+  BuilderCheckpoint,
   QueryFilter,
   ExportData,
 } from "../types/index.js";
 import { detectRuntime } from "../utils/runtime.js";
+import { dialogueKey } from "../utils/filter.js";
 
 export interface SQLiteStorageOptions {
   /**
@@ -30,6 +36,38 @@ export interface SQLiteStorageOptions {
   walMode?: boolean;
 }
 
+/**
+ * Open a SQLite database with bun:sqlite under Bun, better-sqlite3 elsewhere
+ */
+export async function openSQLiteDatabase(
+  path: string,
+  walMode = true,
+): Promise<any> {
+  let db: any;
+
+  if (detectRuntime() === "bun") {
+    const mod = await (Function('return import("bun:sqlite")')() as Promise<any>);
+    const Database = mod.Database ?? mod.default?.Database ?? mod.default;
+    db = new Database(path);
+  } else {
+    try {
+      const mod = await (Function('return import("better-sqlite3")')() as Promise<any>);
+      const Database = mod.default ?? mod;
+      db = new Database(path);
+    } catch {
+      throw new Error(
+        "Failed to import better-sqlite3. Install it with: npm install better-sqlite3",
+      );
+    }
+  }
+
+  if (walMode) {
+    db.exec("PRAGMA journal_mode=WAL");
+  }
+
+  return db;
+}
+
 /**
  * SQLite storage adapter with indexed queries and ACID transactions.
  */
@@ -47,27 +85,7 @@ export class SQLiteStorage implements StorageAdapter {
   private async ensureInitialized(): Promise<void> {
     if (this.initialized) return;
 
-    const runtime = detectRuntime();
-
-    if (runtime === "bun") {
-      const mod = await (Function('return import("bun:sqlite")')() as Promise<any>);
-      const Database = mod.Database ?? mod.default?.Database ?? mod.default;
-      this.db = new Database(this.dbPath);
-    } else {
-      try {
-        const mod = await (Function('return import("better-sqlite3")')() as Promise<any>);
-        const Database = mod.default ?? mod;
-        this.db = new Database(this.dbPath);
-      } catch {
-        throw new Error(
-          "Failed to import better-sqlite3. Install it with: npm install better-sqlite3",
-        );
-      }
-    }
-
-    if (this.walMode) {
-      this.db.exec("PRAGMA journal_mode=WAL");
-    }
+    this.db = await openSQLiteDatabase(this.dbPath, this.walMode);
 
     this.createTables();
     this.initialized = true;
@@ -87,7 +105,11 @@ export class SQLiteStorage implements StorageAdapter {
         salience TEXT NOT NULL DEFAULT 'medium',
         embedding TEXT,
         source_dialogue_ids TEXT NOT NULL DEFAULT '[]',
-        created_at TEXT
+        created_at TEXT,
+        namespace TEXT,
+        superseded_by TEXT,
+        superseded_at TEXT,
+        source_dialogues TEXT
       );
 
       CREATE TABLE IF NOT EXISTS abstract_memories (
@@ -99,7 +121,46 @@ export class SQLiteStorage implements StorageAdapter {
         last_occurrence TEXT NOT NULL,
         entities TEXT NOT NULL DEFAULT '[]',
         embedding TEXT,
-        is_archived INTEGER NOT NULL DEFAULT 0
+        is_archived INTEGER NOT NULL DEFAULT 0,
+        namespace TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS entities (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'other',
+        aliases TEXT NOT NULL DEFAULT '[]',
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL,
+        mention_count INTEGER NOT NULL DEFAULT 0,
+        namespace TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS relations (
+        id TEXT PRIMARY KEY,
+        subject TEXT NOT NULL,
+        predicate TEXT NOT NULL,
+        object TEXT NOT NULL,
+        timestamp TEXT,
+        source_unit_ids TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        namespace TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS dialogues (
+        key TEXT PRIMARY KEY,
+        id INTEGER NOT NULL,
+        session_id TEXT,
+        speaker TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT,
+        namespace TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS builder_checkpoints (
+        namespace TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at TEXT NOT NULL
       );
 
       CREATE INDEX IF NOT EXISTS idx_units_timestamp ON memory_units(timestamp);
@@ -107,6 +168,46 @@ export class SQLiteStorage implements StorageAdapter {
       CREATE INDEX IF NOT EXISTS idx_units_topic ON memory_units(topic);
       CREATE INDEX IF NOT EXISTS idx_units_salience ON memory_units(salience);
     `);
+
+    this.migrateTables();
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_units_namespace ON memory_units(namespace);
+      CREATE INDEX IF NOT EXISTS idx_abstracts_namespace ON abstract_memories(namespace);
+      CREATE INDEX IF NOT EXISTS idx_entities_namespace ON entities(namespace);
+      CREATE INDEX IF NOT EXISTS idx_relations_namespace ON relations(namespace);
+      CREATE INDEX IF NOT EXISTS idx_dialogues_session ON dialogues(session_id, namespace);
+    `);
+  }
+
+  /**
+   * Add columns introduced after the initial schema to existing databases
+   */
+  private migrateTables(): void {
+    const ensureColumn = (table: string, column: string, type: string) => {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all();
+      if (!columns.some((c: any) => c.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    };
+
+    ensureColumn("memory_units", "namespace", "TEXT");
+    ensureColumn("abstract_memories", "namespace", "TEXT");
+    ensureColumn("memory_units", "superseded_by", "TEXT");
+    ensureColumn("memory_units", "superseded_at", "TEXT");
+    ensureColumn("memory_units", "source_dialogues", "TEXT");
+  }
+
+  /**
+   * Build a WHERE clause scoping a query to a namespace
+   */
+  private namespaceClause(namespace?: string): {
+    where: string;
+    params: unknown[];
+  } {
+    return namespace === undefined
+      ? { where: "", params: [] }
+      : { where: " WHERE namespace = ?", params: [namespace] };
   }
 
   // ---------------------------------------------------------------------------
@@ -127,6 +228,12 @@ export class SQLiteStorage implements StorageAdapter {
       embedding: unit.embedding ? JSON.stringify(unit.embedding) : null,
       source_dialogue_ids: JSON.stringify(unit.sourceDialogueIds),
       created_at: unit.createdAt ?? null,
+      namespace: unit.namespace ?? null,
+      superseded_by: unit.supersededBy ?? null,
+      superseded_at: unit.supersededAt ?? null,
+      source_dialogues: unit.sourceDialogues
+        ? JSON.stringify(unit.sourceDialogues)
+        : null,
     };
   }
 
@@ -144,6 +251,12 @@ export class SQLiteStorage implements StorageAdapter {
       embedding: row.embedding ? JSON.parse(row.embedding) : undefined,
       sourceDialogueIds: JSON.parse(row.source_dialogue_ids || "[]"),
       createdAt: row.created_at ?? undefined,
+      namespace: row.namespace ?? undefined,
+      supersededBy: row.superseded_by ?? undefined,
+      supersededAt: row.superseded_at ?? undefined,
+      sourceDialogues: row.source_dialogues
+        ? JSON.parse(row.source_dialogues)
+        : undefined,
     };
   }
 
@@ -160,6 +273,7 @@ export class SQLiteStorage implements StorageAdapter {
         ? JSON.stringify(abstract.embedding)
         : null,
       is_archived: abstract.isArchived ? 1 : 0,
+      namespace: abstract.namespace ?? null,
     };
   }
 
@@ -174,6 +288,70 @@ export class SQLiteStorage implements StorageAdapter {
       entities: JSON.parse(row.entities || "[]"),
       embedding: row.embedding ? JSON.parse(row.embedding) : undefined,
       isArchived: row.is_archived === 1,
+      namespace: row.namespace ?? undefined,
+    };
+  }
+
+  private serializeEntity(entity: Entity): Record<string, unknown> {
+    return {
+      id: entity.id,
+      name: entity.name,
+      type: entity.type,
+      aliases: JSON.stringify(entity.aliases),
+      first_seen: entity.firstSeen,
+      last_seen: entity.lastSeen,
+      mention_count: entity.mentionCount,
+      namespace: entity.namespace ?? null,
+    };
+  }
+
+  private deserializeEntity(row: any): Entity {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      aliases: JSON.parse(row.aliases || "[]"),
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+      mentionCount: row.mention_count,
+      namespace: row.namespace ?? undefined,
+    };
+  }
+
+  private serializeRelation(relation: Relation): Record<string, unknown> {
+    return {
+      id: relation.id,
+      subject: relation.subject,
+      predicate: relation.predicate,
+      object: relation.object,
+      timestamp: relation.timestamp ?? null,
+      source_unit_ids: JSON.stringify(relation.sourceUnitIds),
+      created_at: relation.createdAt,
+      namespace: relation.namespace ?? null,
+    };
+  }
+
+  private deserializeDialogue(row: any): Dialogue {
+    return {
+      id: row.id,
+      sessionId: row.session_id ?? undefined,
+      speaker: row.speaker,
+      content: row.content,
+      timestamp: row.timestamp ?? undefined,
+      namespace: row.namespace ?? undefined,
+    };
+  }
+
+  private deserializeRelation(row: any): Relation {
+    return {
+      id: row.id,
+      subject: row.subject,
+      predicate: row.predicate,
+      object: row.object,
+      timestamp: row.timestamp ?? undefined,
+      sourceUnitIds: JSON.parse(row.source_unit_ids || "[]"),
+      createdAt: row.created_at,
+      namespace: row.namespace ?? undefined,
     };
   }
 
@@ -187,13 +365,15 @@ export class SQLiteStorage implements StorageAdapter {
     this.db
       .prepare(
         `INSERT OR REPLACE INTO memory_units
-         (id, content, keywords, timestamp, location, persons, entities, topic, salience, embedding, source_dialogue_ids, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+         (id, content, keywords, timestamp, location, persons, entities, topic, salience, embedding, source_dialogue_ids, created_at, namespace, superseded_by, superseded_at, source_dialogues)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       )
       .run(
         data.id, data.content, data.keywords, data.timestamp,
         data.location, data.persons, data.entities, data.topic,
         data.salience, data.embedding, data.source_dialogue_ids, data.created_at,
+        data.namespace, data.superseded_by, data.superseded_at,
+        data.source_dialogues,
       );
   }
 
@@ -201,8 +381,8 @@ export class SQLiteStorage implements StorageAdapter {
     await this.ensureInitialized();
     const stmt = this.db.prepare(
       `INSERT OR REPLACE INTO memory_units
-       (id, content, keywords, timestamp, location, persons, entities, topic, salience, embedding, source_dialogue_ids, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       (id, content, keywords, timestamp, location, persons, entities, topic, salience, embedding, source_dialogue_ids, created_at, namespace, superseded_by, superseded_at, source_dialogues)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     );
 
     const insertMany = this.db.transaction((items: MemoryUnit[]) => {
@@ -212,6 +392,8 @@ export class SQLiteStorage implements StorageAdapter {
           data.id, data.content, data.keywords, data.timestamp,
           data.location, data.persons, data.entities, data.topic,
           data.salience, data.embedding, data.source_dialogue_ids, data.created_at,
+          data.namespace, data.superseded_by, data.superseded_at,
+          data.source_dialogues,
         );
       }
     });
@@ -227,11 +409,12 @@ export class SQLiteStorage implements StorageAdapter {
     return row ? this.deserializeUnit(row) : null;
   }
 
-  async getAllUnits(): Promise<MemoryUnit[]> {
+  async getAllUnits(namespace?: string): Promise<MemoryUnit[]> {
     await this.ensureInitialized();
+    const { where, params } = this.namespaceClause(namespace);
     const rows = this.db
-      .prepare("SELECT * FROM memory_units")
-      .all();
+      .prepare(`SELECT * FROM memory_units${where}`)
+      .all(...params);
     return rows.map((r: any) => this.deserializeUnit(r));
   }
 
@@ -241,7 +424,7 @@ export class SQLiteStorage implements StorageAdapter {
     // For complex JSON-based filtering, fetch all and filter in JS
     // This is pragmatic: SQLite's json_each requires careful SQL generation
     // and the in-memory filter is fast for typical agent workloads (<100K units)
-    const allUnits = await this.getAllUnits();
+    const allUnits = await this.getAllUnits(filter.namespace);
     const { matchesFilter } = await import("../utils/filter.js");
     return allUnits.filter((unit) => matchesFilter(unit, filter));
   }
@@ -257,41 +440,223 @@ export class SQLiteStorage implements StorageAdapter {
     this.db
       .prepare(
         `INSERT OR REPLACE INTO abstract_memories
-         (id, pattern, source_unit_ids, frequency, first_occurrence, last_occurrence, entities, embedding, is_archived)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+         (id, pattern, source_unit_ids, frequency, first_occurrence, last_occurrence, entities, embedding, is_archived, namespace)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       )
       .run(
         data.id, data.pattern, data.source_unit_ids, data.frequency,
         data.first_occurrence, data.last_occurrence, data.entities,
-        data.embedding, data.is_archived,
+        data.embedding, data.is_archived, data.namespace,
       );
   }
 
-  async getAllAbstracts(): Promise<AbstractMemory[]> {
+  async getAbstract(id: string): Promise<AbstractMemory | null> {
     await this.ensureInitialized();
+    const row = this.db
+      .prepare("SELECT * FROM abstract_memories WHERE id = ?")
+      .get(id);
+    return row ? this.deserializeAbstract(row) : null;
+  }
+
+  async getAllAbstracts(namespace?: string): Promise<AbstractMemory[]> {
+    await this.ensureInitialized();
+    const { where, params } = this.namespaceClause(namespace);
     const rows = this.db
-      .prepare("SELECT * FROM abstract_memories")
-      .all();
+      .prepare(`SELECT * FROM abstract_memories${where}`)
+      .all(...params);
     return rows.map((r: any) => this.deserializeAbstract(r));
   }
 
-  async clear(): Promise<void> {
+  async deleteAbstract(id: string): Promise<void> {
     await this.ensureInitialized();
-    this.db.exec("DELETE FROM memory_units");
-    this.db.exec("DELETE FROM abstract_memories");
+    this.db.prepare("DELETE FROM abstract_memories WHERE id = ?").run(id);
   }
 
-  async export(): Promise<ExportData> {
+  async saveEntity(entity: Entity): Promise<void> {
     await this.ensureInitialized();
+    const data = this.serializeEntity(entity);
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO entities
+         (id, name, type, aliases, first_seen, last_seen, mention_count, namespace)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        data.id, data.name, data.type, data.aliases,
+        data.first_seen, data.last_seen, data.mention_count, data.namespace,
+      );
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    await this.ensureInitialized();
+    const row = this.db
+      .prepare("SELECT * FROM entities WHERE id = ?")
+      .get(id);
+    return row ? this.deserializeEntity(row) : null;
+  }
+
+  async getAllEntities(namespace?: string): Promise<Entity[]> {
+    await this.ensureInitialized();
+    const { where, params } = this.namespaceClause(namespace);
+    const rows = this.db
+      .prepare(`SELECT * FROM entities${where}`)
+      .all(...params);
+    return rows.map((r: any) => this.deserializeEntity(r));
+  }
+
+  async deleteEntity(id: string): Promise<void> {
+    await this.ensureInitialized();
+    this.db.prepare("DELETE FROM entities WHERE id = ?").run(id);
+  }
+
+  async saveRelation(relation: Relation): Promise<void> {
+    await this.ensureInitialized();
+    const data = this.serializeRelation(relation);
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO relations
+         (id, subject, predicate, object, timestamp, source_unit_ids, created_at, namespace)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        data.id, data.subject, data.predicate, data.object,
+        data.timestamp, data.source_unit_ids, data.created_at, data.namespace,
+      );
+  }
+
+  async getRelation(id: string): Promise<Relation | null> {
+    await this.ensureInitialized();
+    const row = this.db
+      .prepare("SELECT * FROM relations WHERE id = ?")
+      .get(id);
+    return row ? this.deserializeRelation(row) : null;
+  }
+
+  async getAllRelations(namespace?: string): Promise<Relation[]> {
+    await this.ensureInitialized();
+    const { where, params } = this.namespaceClause(namespace);
+    const rows = this.db
+      .prepare(`SELECT * FROM relations${where}`)
+      .all(...params);
+    return rows.map((r: any) => this.deserializeRelation(r));
+  }
+
+  async deleteRelation(id: string): Promise<void> {
+    await this.ensureInitialized();
+    this.db.prepare("DELETE FROM relations WHERE id = ?").run(id);
+  }
+
+  async saveDialogues(dialogues: Dialogue[]): Promise<void> {
+    await this.ensureInitialized();
+    const stmt = this.db.prepare(
+      `INSERT OR REPLACE INTO dialogues
+       (key, id, session_id, speaker, content, timestamp, namespace)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    const insertMany = this.db.transaction((items: Dialogue[]) => {
+      for (const d of items) {
+        stmt.run(
+          dialogueKey(d), d.id, d.sessionId ?? null, d.speaker, d.content,
+          d.timestamp ?? null, d.namespace ?? null,
+        );
+      }
+    });
+
+    insertMany(dialogues);
+  }
+
+  async getDialogues(
+    sessionId: string,
+    namespace?: string,
+  ): Promise<Dialogue[]> {
+    await this.ensureInitialized();
+    const scoped = namespace === undefined ? "" : " AND namespace = ?";
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM dialogues WHERE session_id = ?${scoped} ORDER BY id`,
+      )
+      .all(sessionId, ...(namespace === undefined ? [] : [namespace]));
+    return rows.map((r: any) => this.deserializeDialogue(r));
+  }
+
+  async deleteDialogues(
+    refs: DialogueRef[],
+    namespace?: string,
+  ): Promise<void> {
+    await this.ensureInitialized();
+    const scoped = namespace === undefined ? "" : " AND namespace = ?";
+    const stmt = this.db.prepare(
+      `DELETE FROM dialogues WHERE session_id = ? AND id = ?${scoped}`,
+    );
+
+    const deleteMany = this.db.transaction((items: DialogueRef[]) => {
+      for (const ref of items) {
+        stmt.run(
+          ref.sessionId,
+          ref.dialogueId,
+          ...(namespace === undefined ? [] : [namespace]),
+        );
+      }
+    });
+
+    deleteMany(refs);
+  }
+
+  async saveCheckpoint(checkpoint: BuilderCheckpoint): Promise<void> {
+    await this.ensureInitialized();
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO builder_checkpoints
+         (namespace, state, updated_at) VALUES (?, ?, ?)`,
+      )
+      .run(
+        checkpoint.namespace ?? "",
+        JSON.stringify(checkpoint),
+        checkpoint.updatedAt,
+      );
+  }
+
+  async getCheckpoint(namespace?: string): Promise<BuilderCheckpoint | null> {
+    await this.ensureInitialized();
+    const row: any = this.db
+      .prepare("SELECT state FROM builder_checkpoints WHERE namespace = ?")
+      .get(namespace ?? "");
+    return row ? JSON.parse(row.state) : null;
+  }
+
+  async clear(namespace?: string): Promise<void> {
+    await this.ensureInitialized();
+    const { where, params } = this.namespaceClause(namespace);
+    this.db.prepare(`DELETE FROM memory_units${where}`).run(...params);
+    this.db.prepare(`DELETE FROM abstract_memories${where}`).run(...params);
+    this.db.prepare(`DELETE FROM entities${where}`).run(...params);
+    this.db.prepare(`DELETE FROM relations${where}`).run(...params);
+    this.db.prepare(`DELETE FROM dialogues${where}`).run(...params);
+    this.db
+      .prepare(`DELETE FROM builder_checkpoints${where}`)
+      .run(...params);
+  }
+
+  async export(namespace?: string): Promise<ExportData> {
+    await this.ensureInitialized();
+    const { where, params } = this.namespaceClause(namespace);
     return {
-      units: await this.getAllUnits(),
-      abstracts: await this.getAllAbstracts(),
+      units: await this.getAllUnits(namespace),
+      abstracts: await this.getAllAbstracts(namespace),
+      entities: await this.getAllEntities(namespace),
+      relations: await this.getAllRelations(namespace),
+      dialogues: this.db
+        .prepare(`SELECT * FROM dialogues${where} ORDER BY session_id, id`)
+        .all(...params)
+        .map((r: any) => this.deserializeDialogue(r)),
       version: "1.0.0",
       exportedAt: new Date().toISOString(),
+      namespace,
     };
   }
 
-  async import(data: ExportData): Promise<void> {
+  async import(data: ExportData): Promise<MemoryUnit[]> {
     await this.ensureInitialized();
     if (data.units.length > 0) {
       await this.saveUnits(data.units);
@@ -299,6 +664,16 @@ export class SQLiteStorage implements StorageAdapter {
     for (const abstract of data.abstracts) {
       await this.saveAbstract(abstract);
     }
+    for (const entity of data.entities ?? []) {
+      await this.saveEntity(entity);
+    }
+    for (const relation of data.relations ?? []) {
+      await this.saveRelation(relation);
+    }
+    if (data.dialogues && data.dialogues.length > 0) {
+      await this.saveDialogues(data.dialogues);
+    }
+    return data.units;
   }
 
   /**
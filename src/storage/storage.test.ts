@@ -5,7 +5,16 @@ import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { MemoryStorage } from "./memory";
 import { FileStorage } from "./file";
-import type { StorageAdapter, MemoryUnit, AbstractMemory } from "../types/index";
+import { NamespacedStorage } from "./namespaced";
+import { SQLiteStorage, openSQLiteDatabase } from "./sqlite";
+import type {
+  StorageAdapter,
+  MemoryUnit,
+  AbstractMemory,
+  Entity,
+  Relation,
+  BuilderCheckpoint,
+} from "../types/index";
 
 // =============================================================================
 // Helpers
@@ -42,6 +51,48 @@ function makeAbstract(overrides: Partial<AbstractMemory> = {}): AbstractMemory {
   };
 }
 
+function makeEntity(overrides: Partial<Entity> = {}): Entity {
+  return {
+    id: randomUUID(),
+    name: "Bob Smith",
+    type: "person",
+    aliases: ["Bob"],
+    firstSeen: "2025-01-01T00:00:00.000Z",
+    lastSeen: "2025-06-01T00:00:00.000Z",
+    mentionCount: 3,
+    ...overrides,
+  };
+}
+
+function makeCheckpoint(
+  overrides: Partial<BuilderCheckpoint> = {},
+): BuilderCheckpoint {
+  return {
+    dialogueBuffer: [
+      { id: 3, sessionId: "s1", speaker: "Alice", content: "See you Monday" },
+    ],
+    processedDialogueKeys: ["s1:0", "s1:1", "s1:2"],
+    previousEntities: ["alice", "bob"],
+    previousWindowEmbedding: [0.1, 0.2, 0.3],
+    windowCounter: 1,
+    updatedAt: "2025-06-15T14:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function makeRelation(overrides: Partial<Relation> = {}): Relation {
+  return {
+    id: randomUUID(),
+    subject: "Alice",
+    predicate: "works_with",
+    object: "Bob Smith",
+    timestamp: "2025-06-15T14:00:00.000Z",
+    sourceUnitIds: [randomUUID()],
+    createdAt: "2025-06-15T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
 // =============================================================================
 // Shared test suite for all StorageAdapter implementations
 // =============================================================================
@@ -196,6 +247,209 @@ function testStorageAdapter(
         expect(all).toHaveLength(1);
         expect(all[0].pattern).toBe(abs.pattern);
       });
+
+      it("gets an abstract by ID", async () => {
+        const abs = makeAbstract();
+        await storage.saveAbstract(abs);
+        await storage.saveAbstract(makeAbstract());
+
+        expect((await storage.getAbstract(abs.id))!.pattern).toBe(abs.pattern);
+        expect(await storage.getAbstract(randomUUID())).toBeNull();
+      });
+
+      it("deletes an abstract", async () => {
+        const abs = makeAbstract();
+        await storage.saveAbstract(abs);
+        await storage.saveAbstract(makeAbstract());
+        await storage.deleteAbstract(abs.id);
+
+        const all = await storage.getAllAbstracts();
+        expect(all).toHaveLength(1);
+        expect(all[0].id).not.toBe(abs.id);
+      });
+    });
+
+    // --- Entities ---
+
+    describe("entities", () => {
+      it("saves, overwrites and deletes entities", async () => {
+        const entity = makeEntity();
+        await storage.saveEntity(entity);
+        await storage.saveEntity({ ...entity, aliases: ["Bob", "Bobby"] });
+        await storage.saveEntity(makeEntity({ name: "Alice", aliases: [] }));
+
+        const all = await storage.getAllEntities();
+        expect(all).toHaveLength(2);
+        expect(all.find((e) => e.id === entity.id)).toEqual({
+          ...entity,
+          aliases: ["Bob", "Bobby"],
+        });
+
+        await storage.deleteEntity(entity.id);
+        expect(await storage.getAllEntities()).toHaveLength(1);
+      });
+
+      it("gets an entity by ID", async () => {
+        const entity = makeEntity({ namespace: "alice" });
+        await storage.saveEntity(entity);
+        await storage.saveEntity(makeEntity());
+
+        expect(await storage.getEntity(entity.id)).toEqual(entity);
+        expect(await storage.getEntity(randomUUID())).toBeNull();
+      });
+
+      it("scopes, clears and exports entities by namespace", async () => {
+        await storage.saveEntity(makeEntity({ namespace: "alice" }));
+        await storage.saveEntity(makeEntity({ namespace: "bob" }));
+
+        expect(await storage.getAllEntities("alice")).toHaveLength(1);
+        expect((await storage.export("bob")).entities).toHaveLength(1);
+
+        await storage.clear("alice");
+        expect(await storage.getAllEntities()).toHaveLength(1);
+        await storage.clear();
+        expect(await storage.getAllEntities()).toHaveLength(0);
+      });
+    });
+
+    // --- Relations ---
+
+    describe("relations", () => {
+      it("saves, overwrites and deletes relations", async () => {
+        const relation = makeRelation();
+        const sourceUnitIds = [...relation.sourceUnitIds, randomUUID()];
+        await storage.saveRelation(relation);
+        await storage.saveRelation({ ...relation, sourceUnitIds });
+        await storage.saveRelation(
+          makeRelation({ predicate: "owns", timestamp: undefined }),
+        );
+
+        const all = await storage.getAllRelations();
+        expect(all).toHaveLength(2);
+        expect(all.find((r) => r.id === relation.id)).toEqual({
+          ...relation,
+          sourceUnitIds,
+        });
+
+        await storage.deleteRelation(relation.id);
+        expect(await storage.getAllRelations()).toHaveLength(1);
+      });
+
+      it("gets a relation by ID", async () => {
+        const relation = makeRelation({ namespace: "alice" });
+        await storage.saveRelation(relation);
+        await storage.saveRelation(makeRelation());
+
+        expect(await storage.getRelation(relation.id)).toEqual(relation);
+        expect(await storage.getRelation(randomUUID())).toBeNull();
+      });
+
+      it("scopes, clears and exports relations by namespace", async () => {
+        await storage.saveRelation(makeRelation({ namespace: "alice" }));
+        await storage.saveRelation(makeRelation({ namespace: "bob" }));
+
+        expect(await storage.getAllRelations("alice")).toHaveLength(1);
+        expect((await storage.export("bob")).relations).toHaveLength(1);
+
+        await storage.clear("alice");
+        expect(await storage.getAllRelations()).toHaveLength(1);
+        await storage.clear();
+        expect(await storage.getAllRelations()).toHaveLength(0);
+      });
+    });
+
+    // --- Dialogues ---
+
+    describe("dialogues", () => {
+      const turn = (id: number, sessionId: string, namespace?: string) => ({
+        id,
+        sessionId,
+        speaker: "Alice",
+        content: `Turn ${id} of ${sessionId}`,
+        timestamp: "2025-06-15T14:00:00.000Z",
+        namespace,
+      });
+
+      it("stores turns per session in turn order", async () => {
+        await storage.saveDialogues([turn(1, "a"), turn(0, "a"), turn(0, "b")]);
+        await storage.saveDialogues([{ ...turn(1, "a"), content: "Edited" }]);
+
+        const session = await storage.getDialogues("a");
+        expect(session.map((d) => [d.id, d.content])).toEqual([
+          [0, "Turn 0 of a"],
+          [1, "Edited"],
+        ]);
+        expect(await storage.getDialogues("b")).toHaveLength(1);
+        expect(await storage.getDialogues("missing")).toEqual([]);
+      });
+
+      it("scopes, clears and exports turns by namespace", async () => {
+        await storage.saveDialogues([
+          turn(0, "a", "alice"),
+          turn(0, "a", "bob"),
+        ]);
+
+        expect(await storage.getDialogues("a", "alice")).toHaveLength(1);
+        expect(await storage.getDialogues("a")).toHaveLength(2);
+        expect((await storage.export("bob")).dialogues).toHaveLength(1);
+
+        await storage.clear("alice");
+        expect(await storage.getDialogues("a")).toHaveLength(1);
+        await storage.clear();
+        expect(await storage.getDialogues("a")).toHaveLength(0);
+      });
+
+      it("deletes turns by session, ID and namespace", async () => {
+        await storage.saveDialogues([
+          turn(0, "a", "alice"),
+          turn(1, "a", "alice"),
+          turn(0, "b", "alice"),
+          turn(0, "a", "bob"),
+        ]);
+
+        await storage.deleteDialogues(
+          [{ sessionId: "a", dialogueId: 0 }],
+          "alice",
+        );
+        expect(
+          (await storage.getDialogues("a")).map((d) => [d.id, d.namespace]),
+        ).toEqual([
+          [0, "bob"],
+          [1, "alice"],
+        ]);
+        expect(await storage.getDialogues("b")).toHaveLength(1);
+      });
+    });
+
+    // --- Builder checkpoints ---
+
+    describe("checkpoints", () => {
+      it("saves, replaces and scopes checkpoints by namespace", async () => {
+        expect(await storage.getCheckpoint()).toBeNull();
+
+        await storage.saveCheckpoint(makeCheckpoint());
+        await storage.saveCheckpoint(makeCheckpoint({ windowCounter: 2 }));
+        await storage.saveCheckpoint(
+          makeCheckpoint({ windowCounter: 5, namespace: "alice" }),
+        );
+
+        expect(await storage.getCheckpoint()).toEqual(
+          makeCheckpoint({ windowCounter: 2 }),
+        );
+        expect((await storage.getCheckpoint("alice"))!.windowCounter).toBe(5);
+        expect(await storage.getCheckpoint("bob")).toBeNull();
+      });
+
+      it("clears checkpoints with the namespace's data", async () => {
+        await storage.saveCheckpoint(makeCheckpoint());
+        await storage.saveCheckpoint(makeCheckpoint({ namespace: "alice" }));
+
+        await storage.clear("alice");
+        expect(await storage.getCheckpoint("alice")).toBeNull();
+        expect(await storage.getCheckpoint()).not.toBeNull();
+        await storage.clear();
+        expect(await storage.getCheckpoint()).toBeNull();
+      });
     });
 
     // --- Clear ---
@@ -210,6 +464,62 @@ function testStorageAdapter(
       });
     });
 
+    // --- Namespaces ---
+
+    describe("namespaces", () => {
+      it("scopes getAllUnits and getAllAbstracts to a namespace", async () => {
+        await storage.saveUnits([
+          makeUnit({ namespace: "alice" }),
+          makeUnit({ namespace: "alice" }),
+          makeUnit({ namespace: "bob" }),
+        ]);
+        await storage.saveAbstract(makeAbstract({ namespace: "bob" }));
+
+        expect(await storage.getAllUnits("alice")).toHaveLength(2);
+        expect(await storage.getAllUnits("bob")).toHaveLength(1);
+        expect(await storage.getAllUnits()).toHaveLength(3);
+        expect(await storage.getAllAbstracts("alice")).toHaveLength(0);
+        expect(await storage.getAllAbstracts("bob")).toHaveLength(1);
+      });
+
+      it("filters queryUnits by namespace", async () => {
+        await storage.saveUnits([
+          makeUnit({ namespace: "alice" }),
+          makeUnit({ namespace: "bob" }),
+        ]);
+        const results = await storage.queryUnits({
+          persons: ["Alice"],
+          namespace: "bob",
+        });
+        expect(results).toHaveLength(1);
+        expect(results[0].namespace).toBe("bob");
+      });
+
+      it("clear(namespace) keeps other namespaces", async () => {
+        await storage.saveUnits([
+          makeUnit({ namespace: "alice" }),
+          makeUnit({ namespace: "bob" }),
+        ]);
+        await storage.saveAbstract(makeAbstract({ namespace: "alice" }));
+        await storage.clear("alice");
+
+        const remaining = await storage.getAllUnits();
+        expect(remaining).toHaveLength(1);
+        expect(remaining[0].namespace).toBe("bob");
+        expect(await storage.getAllAbstracts()).toHaveLength(0);
+      });
+
+      it("export(namespace) only includes that namespace", async () => {
+        await storage.saveUnits([
+          makeUnit({ namespace: "alice" }),
+          makeUnit({ namespace: "bob" }),
+        ]);
+        const exported = await storage.export("alice");
+        expect(exported.units).toHaveLength(1);
+        expect(exported.namespace).toBe("alice");
+      });
+    });
+
     // --- Export / Import ---
 
     describe("export/import", () => {
@@ -218,6 +528,11 @@ function testStorageAdapter(
         const abs = makeAbstract();
         await storage.saveUnits(units);
         await storage.saveAbstract(abs);
+        await storage.saveEntity(makeEntity());
+        await storage.saveRelation(makeRelation());
+        await storage.saveDialogues([
+          { id: 0, sessionId: "s1", speaker: "Alice", content: "Hi" },
+        ]);
 
         const exported = await storage.export();
         expect(exported.units).toHaveLength(2);
@@ -230,6 +545,9 @@ function testStorageAdapter(
         await fresh.import(exported);
         expect(await fresh.getAllUnits()).toHaveLength(2);
         expect(await fresh.getAllAbstracts()).toHaveLength(1);
+        expect(await fresh.getAllEntities()).toHaveLength(1);
+        expect(await fresh.getAllRelations()).toHaveLength(1);
+        expect(await fresh.getDialogues("s1")).toHaveLength(1);
       });
     });
   });
@@ -252,6 +570,240 @@ testStorageAdapter(
   },
 );
 
+const isBun = typeof globalThis !== "undefined" && "Bun" in globalThis;
+
+describe.skipIf(!isBun)("SQLite", () => {
+  const opened: SQLiteStorage[] = [];
+  testStorageAdapter(
+    "SQLiteStorage",
+    () => {
+      const storage = new SQLiteStorage({ path: ":memory:" });
+      opened.push(storage);
+      return storage;
+    },
+    async () => {
+      for (const storage of opened.splice(0)) storage.close();
+    },
+  );
+
+  it("adds newer columns to an existing database", async () => {
+    const path = join(tmpdir(), `simplemem-test-${Date.now()}.db`);
+    const db = await openSQLiteDatabase(path, false);
+    db.exec(`
+      CREATE TABLE memory_units (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        keywords TEXT NOT NULL DEFAULT '[]',
+        timestamp TEXT,
+        location TEXT,
+        persons TEXT NOT NULL DEFAULT '[]',
+        entities TEXT NOT NULL DEFAULT '[]',
+        topic TEXT,
+        salience TEXT NOT NULL DEFAULT 'medium',
+        embedding TEXT,
+        source_dialogue_ids TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT
+      );
+      CREATE TABLE abstract_memories (
+        id TEXT PRIMARY KEY,
+        pattern TEXT NOT NULL,
+        source_unit_ids TEXT NOT NULL DEFAULT '[]',
+        frequency INTEGER NOT NULL DEFAULT 1,
+        first_occurrence TEXT NOT NULL,
+        last_occurrence TEXT NOT NULL,
+        entities TEXT NOT NULL DEFAULT '[]',
+        embedding TEXT,
+        is_archived INTEGER NOT NULL DEFAULT 0
+      );
+      INSERT INTO memory_units (id, content) VALUES ('old', 'Old memory');
+    `);
+    db.close();
+
+    const storage = new SQLiteStorage({ path, walMode: false });
+    try {
+      const old = await storage.getUnit("old");
+      expect(old).toMatchObject({ content: "Old memory", salience: "medium" });
+      expect(old!.namespace).toBeUndefined();
+
+      const unit = makeUnit({
+        namespace: "alice",
+        supersededBy: "old",
+        sourceDialogues: [{ sessionId: "s1", dialogueId: 1 }],
+      });
+      await storage.saveUnit(unit);
+      await storage.saveAbstract(makeAbstract({ namespace: "alice" }));
+
+      expect(await storage.getAllUnits("alice")).toEqual([
+        expect.objectContaining({
+          id: unit.id,
+          supersededBy: "old",
+          sourceDialogues: [{ sessionId: "s1", dialogueId: 1 }],
+        }),
+      ]);
+      expect(await storage.getAllAbstracts("alice")).toHaveLength(1);
+    } finally {
+      storage.close();
+      await rm(path, { force: true });
+    }
+  });
+});
+
+// =============================================================================
+// NamespacedStorage tests
+// =============================================================================
+
+describe("NamespacedStorage", () => {
+  it("isolates tenants sharing one adapter", async () => {
+    const shared = new MemoryStorage();
+    const alice = new NamespacedStorage(shared, "alice");
+    const bob = new NamespacedStorage(shared, "bob");
+
+    const unit = makeUnit();
+    await alice.saveUnit(unit);
+    await bob.saveUnits([makeUnit(), makeUnit()]);
+
+    expect(await alice.getAllUnits()).toHaveLength(1);
+    expect(await bob.getAllUnits()).toHaveLength(2);
+    expect(await bob.getUnit(unit.id)).toBeNull();
+    expect((await shared.getUnit(unit.id))!.namespace).toBe("alice");
+  });
+
+  it("does not delete or clear another tenant's data", async () => {
+    const shared = new MemoryStorage();
+    const alice = new NamespacedStorage(shared, "alice");
+    const bob = new NamespacedStorage(shared, "bob");
+
+    const unit = makeUnit();
+    const abs = makeAbstract();
+    const entity = makeEntity();
+    const relation = makeRelation();
+    await alice.saveUnit(unit);
+    await alice.saveAbstract(abs);
+    await alice.saveEntity(entity);
+    await alice.saveRelation(relation);
+    await bob.deleteUnit(unit.id);
+    await bob.deleteAbstract(abs.id);
+    await bob.deleteEntity(entity.id);
+    await bob.deleteRelation(relation.id);
+    await bob.clear();
+
+    expect(await alice.getUnit(unit.id)).not.toBeNull();
+    expect(await alice.getAllAbstracts()).toHaveLength(1);
+    expect(await alice.getAllEntities()).toHaveLength(1);
+    expect(await alice.getAllRelations()).toHaveLength(1);
+    expect(await bob.getAbstract(abs.id)).toBeNull();
+    expect(await bob.getEntity(entity.id)).toBeNull();
+    expect(await bob.getRelation(relation.id)).toBeNull();
+    expect(await alice.getEntity(entity.id)).not.toBeNull();
+  });
+
+  it("does not overwrite another tenant's unit", async () => {
+    const shared = new MemoryStorage();
+    const unit = makeUnit();
+    await new NamespacedStorage(shared, "alice").saveUnit(unit);
+
+    const bob = new NamespacedStorage(shared, "bob");
+    await expect(
+      bob.saveUnits([makeUnit(), { ...unit, content: "Bob's" }]),
+    ).rejects.toThrow(`Unit ${unit.id} belongs to another namespace`);
+    expect(await shared.getUnit(unit.id)).toEqual({
+      ...unit,
+      namespace: "alice",
+    });
+  });
+
+  it("does not overwrite another tenant's abstract", async () => {
+    const shared = new MemoryStorage();
+    const abs = makeAbstract();
+    await new NamespacedStorage(shared, "alice").saveAbstract(abs);
+
+    const bob = new NamespacedStorage(shared, "bob");
+    await expect(
+      bob.saveAbstract({ ...abs, pattern: "Bob's" }),
+    ).rejects.toThrow(`Abstract ${abs.id} belongs to another namespace`);
+    expect(await shared.getAbstract(abs.id)).toEqual({
+      ...abs,
+      namespace: "alice",
+    });
+  });
+
+  it("does not overwrite another tenant's entity", async () => {
+    const shared = new MemoryStorage();
+    const entity = makeEntity();
+    await new NamespacedStorage(shared, "alice").saveEntity(entity);
+
+    const bob = new NamespacedStorage(shared, "bob");
+    await expect(
+      bob.saveEntity({ ...entity, name: "Bob's" }),
+    ).rejects.toThrow(`Entity ${entity.id} belongs to another namespace`);
+    expect(await shared.getEntity(entity.id)).toEqual({
+      ...entity,
+      namespace: "alice",
+    });
+  });
+
+  it("does not overwrite another tenant's relation", async () => {
+    const shared = new MemoryStorage();
+    const relation = makeRelation();
+    await new NamespacedStorage(shared, "alice").saveRelation(relation);
+
+    const bob = new NamespacedStorage(shared, "bob");
+    await expect(
+      bob.saveRelation({ ...relation, object: "Bob's" }),
+    ).rejects.toThrow(`Relation ${relation.id} belongs to another namespace`);
+    expect(await shared.getRelation(relation.id)).toEqual({
+      ...relation,
+      namespace: "alice",
+    });
+  });
+
+  it("imports a copy of another tenant's data under new IDs", async () => {
+    const shared = new MemoryStorage();
+    const alice = new NamespacedStorage(shared, "alice");
+    const bob = new NamespacedStorage(shared, "bob");
+    const unit = makeUnit();
+    await alice.saveUnit(unit);
+    await alice.saveAbstract(makeAbstract({ sourceUnitIds: [unit.id] }));
+
+    await bob.import(await alice.export());
+
+    expect(await alice.getAllUnits()).toHaveLength(1);
+    expect(await alice.getUnit(unit.id)).not.toBeNull();
+    const [copy] = await bob.getAllUnits();
+    expect(copy.id).not.toBe(unit.id);
+    expect((await bob.getAllAbstracts())[0].sourceUnitIds).toEqual([copy.id]);
+    await expect(bob.saveUnit(unit)).rejects.toThrow("another namespace");
+  });
+
+  it("keeps a checkpoint per tenant", async () => {
+    const shared = new MemoryStorage();
+    const alice = new NamespacedStorage(shared, "alice");
+    const bob = new NamespacedStorage(shared, "bob");
+
+    await alice.saveCheckpoint(makeCheckpoint({ windowCounter: 3 }));
+
+    expect((await alice.getCheckpoint())!.windowCounter).toBe(3);
+    expect((await shared.getCheckpoint("alice"))!.namespace).toBe("alice");
+    expect(await bob.getCheckpoint()).toBeNull();
+    expect(await shared.getCheckpoint()).toBeNull();
+  });
+
+  it("stamps imported data with its namespace", async () => {
+    const shared = new MemoryStorage();
+    const alice = new NamespacedStorage(shared, "alice");
+    await alice.import({
+      units: [makeUnit({ namespace: "other" })],
+      abstracts: [makeAbstract()],
+      version: "1.0.0",
+      exportedAt: new Date().toISOString(),
+    });
+
+    expect(await alice.getAllUnits()).toHaveLength(1);
+    expect(await alice.getAllAbstracts()).toHaveLength(1);
+    expect(await shared.getAllUnits("other")).toHaveLength(0);
+  });
+});
+
 // =============================================================================
 // FileStorage-specific tests
 // =============================================================================
@@ -277,6 +829,15 @@ describe("FileStorage-specific", () => {
     expect(retrieved!.content).toBe(unit.content);
   });
 
+  it("persists checkpoints without exporting them", async () => {
+    const fs1 = new FileStorage({ path: filePath });
+    await fs1.saveCheckpoint(makeCheckpoint());
+
+    const fs2 = new FileStorage({ path: filePath });
+    expect(await fs2.getCheckpoint()).toEqual(makeCheckpoint());
+    expect(await fs2.export()).not.toHaveProperty("checkpoints");
+  });
+
   it("starts empty when file does not exist", async () => {
     const fs = new FileStorage({
       path: join(tmpdir(), `nonexistent-${Date.now()}.json`),
@@ -15,14 +15,82 @@ import { z } from "zod";
  * Raw dialogue entry from user input
  */
 export const DialogueSchema = z.object({
-  id: z.number(),
+  id: z.number().describe("Turn number, unique within its session"),
+  sessionId: z
+    .string()
+    .optional()
+    .describe("Conversation the turn belongs to"),
   speaker: z.string(),
   content: z.string(),
   timestamp: z.string().optional(), // ISO-8601
+  namespace: z
+    .string()
+    .optional()
+    .describe("Tenant namespace the turn belongs to"),
 });
 
 export type Dialogue = z.infer<typeof DialogueSchema>;
 
+/**
+ * Reference to the dialogue turn a memory unit was extracted from
+ */
+export const DialogueRefSchema = z.object({
+  sessionId: z.string(),
+  dialogueId: z.number(),
+});
+
+export type DialogueRef = z.infer<typeof DialogueRefSchema>;
+
+/**
+ * MemoryBuilder state saved between operations, so ingestion resumes
+ * after a restart without losing buffered turns
+ */
+export const BuilderCheckpointSchema = z.object({
+  dialogueBuffer: z
+    .array(DialogueSchema)
+    .describe("Turns waiting for a full window"),
+  processedDialogueKeys: z
+    .array(z.string())
+    .describe("dialogueKey() of the last window's processed turns"),
+  processedDialogues: z
+    .number()
+    .optional()
+    .describe("Number of turns processed, for stats"),
+  previousEntities: z.array(z.string()),
+  previousWindowEmbedding: z.array(z.number()).nullable(),
+  windowCounter: z.number(),
+  receivedAt: z
+    .array(z.string())
+    .optional()
+    .describe("When each buffered turn was added, for time-based flushing"),
+  windowedTurns: z
+    .number()
+    .optional()
+    .describe("Leading buffered turns already extracted as window overlap"),
+  flushedWindows: z
+    .array(z.array(DialogueSchema))
+    .optional()
+    .describe("Partial windows flushed but not yet extracted"),
+  updatedAt: z.string(),
+  namespace: z
+    .string()
+    .optional()
+    .describe("Tenant namespace the checkpoint belongs to"),
+});
+
+export type BuilderCheckpoint = z.infer<typeof BuilderCheckpointSchema>;
+
+/**
+ * Why a partial dialogue window was flushed before it filled up
+ */
+export const FlushReasonSchema = z.enum([
+  "max_age",
+  "idle",
+  "speaker_change",
+  "session_end",
+]);
+export type FlushReason = z.infer<typeof FlushReasonSchema>;
+
 // =============================================================================
 // Memory Unit Types (Atomic Entries)
 // =============================================================================
@@ -73,7 +141,22 @@ export const MemoryUnitSchema = z.object({
 
   // Metadata
   sourceDialogueIds: z.array(z.number()).default([]),
+  sourceDialogues: z
+    .array(DialogueRefSchema)
+    .optional()
+    .describe("Session and turn of each source dialogue"),
   createdAt: z.string().optional(),
+  namespace: z
+    .string()
+    .optional()
+    .describe("Tenant namespace the unit belongs to"),
+
+  // Update tracking - set when a newer unit contradicts this one
+  supersededBy: z
+    .string()
+    .optional()
+    .describe("ID of the unit that replaced this one"),
+  supersededAt: z.string().optional().describe("ISO-8601 supersession time"),
 });
 
 export type MemoryUnit = z.infer<typeof MemoryUnitSchema>;
@@ -103,10 +186,85 @@ export const AbstractMemorySchema = z.object({
     .describe("Union of entities from sources"),
   embedding: z.array(z.number()).optional(),
   isArchived: z.boolean().default(false),
+  namespace: z
+    .string()
+    .optional()
+    .describe("Tenant namespace the abstract belongs to"),
 });
 
 export type AbstractMemory = z.infer<typeof AbstractMemorySchema>;
 
+// =============================================================================
+// Entity Types
+// =============================================================================
+
+export const EntityTypeSchema = z.enum([
+  "person",
+  "organization",
+  "location",
+  "other",
+]);
+export type EntityType = z.infer<typeof EntityTypeSchema>;
+
+/**
+ * Canonical entity from the entity registry
+ *
+ * Memory units refer to entities by `name`; `aliases` are the other
+ * surface forms that resolve to it.
+ */
+export const EntitySchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().describe("Canonical name"),
+  type: EntityTypeSchema,
+  aliases: z
+    .array(z.string())
+    .default([])
+    .describe("Other names that resolve to this entity"),
+  firstSeen: z.string().describe("Earliest mention timestamp"),
+  lastSeen: z.string().describe("Most recent mention timestamp"),
+  mentionCount: z.number().describe("Memory units mentioning the entity"),
+  namespace: z
+    .string()
+    .optional()
+    .describe("Tenant namespace the entity belongs to"),
+});
+
+export type Entity = z.infer<typeof EntitySchema>;
+
+// =============================================================================
+// Knowledge Graph Types
+// =============================================================================
+
+/**
+ * (subject, predicate, object) triple extracted from memory units
+ *
+ * Subjects and objects are entity or person names; the same triple stated
+ * by several units is stored once with every source unit.
+ */
+export const RelationSchema = z.object({
+  id: z.string().uuid(),
+  subject: z.string(),
+  predicate: z
+    .string()
+    .describe("Lowercase snake_case relation, e.g. works_with"),
+  object: z.string(),
+  timestamp: z
+    .string()
+    .optional()
+    .describe("ISO-8601 time of the most recent source unit"),
+  sourceUnitIds: z
+    .array(z.string())
+    .default([])
+    .describe("Memory units stating the relation"),
+  createdAt: z.string(),
+  namespace: z
+    .string()
+    .optional()
+    .describe("Tenant namespace the relation belongs to"),
+});
+
+export type Relation = z.infer<typeof RelationSchema>;
+
 // =============================================================================
 // Query Analysis Types
 // =============================================================================
@@ -124,12 +282,34 @@ export const QueryAnalysisSchema = z.object({
   complexity: QueryComplexitySchema,
   rationale: z.string(),
   lexicalKeywords: z.array(z.string()),
+  entities: z
+    .array(z.string())
+    .optional()
+    .describe("Person and entity names for the symbolic layer"),
   temporalConstraints: z
     .object({
       start: z.string().optional(),
       end: z.string().optional(),
     })
     .optional(),
+  symbolicConstraints: z
+    .object({
+      persons: z.array(z.string()).optional(),
+      entities: z.array(z.string()).optional(),
+      location: z.string().optional(),
+      topic: z.string().optional(),
+      confidence: z
+        .number()
+        .min(0)
+        .max(1)
+        .describe("Confidence that every relevant memory satisfies them"),
+    })
+    .optional()
+    .describe("Persons, entities, location or topic the answer must involve"),
+  temporalFocus: z
+    .enum(["recent", "past", "any"])
+    .optional()
+    .describe("Whether the query favours recent memories or asks about the past"),
   semanticQuery: z.string(),
 });
 
@@ -145,7 +325,29 @@ export type QueryAnalysis = z.infer<typeof QueryAnalysisSchema>;
 export const RetrievalContextSchema = z.object({
   abstracts: z.array(AbstractMemorySchema),
   units: z.array(MemoryUnitSchema),
-  totalTokens: z.number(),
+  totalTokens: z
+    .number()
+    .describe("Context tokens as counted by the configured tokenizer"),
+  abstractTokens: z
+    .number()
+    .optional()
+    .describe("Tokens used by abstracts (included in totalTokens)"),
+  truncatedUnitIds: z
+    .array(z.string())
+    .optional()
+    .describe("Units whose content was truncated to fit maxContextTokens"),
+  droppedUnitIds: z
+    .array(z.string())
+    .optional()
+    .describe("Retrieved units left out because they did not fit"),
+  rerankScores: z
+    .record(z.number())
+    .optional()
+    .describe("Reranker score per unit ID, when a reranker is configured"),
+  graphUnitIds: z
+    .array(z.string())
+    .optional()
+    .describe("Units added by knowledge-graph expansion"),
   retrievalRationale: z.string().optional(),
 });
 
@@ -175,7 +377,7 @@ export interface SimpleMemConfig {
 
   // Stage 2: Indexing parameters
   clusterThreshold?: number; // τ_cluster, default: 0.75
-  temporalDecay?: number; // γ, default: 0.1
+  temporalDecay?: number; // recency decay rate per day, default: 0 (off)
 
   // Stage 3: Retrieval parameters
   semanticTopK?: number; // Default: 25
@@ -243,12 +445,43 @@ export interface LLMProvider {
    * Generate a structured JSON response
    */
   completeJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T>;
+
+  /**
+   * Whether complete() honours `responseSchema` with a native
+   * JSON-schema response format (optional, defaults to false)
+   */
+  readonly supportsJSONSchema?: boolean;
+
+  /**
+   * Model identifier (optional, used to price usage)
+   */
+  readonly model?: string;
+
+  /**
+   * Stream a completion as text chunks (optional).
+   * Callers fall back to complete() when a provider cannot stream.
+   */
+  stream?(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string>;
 }
 
 export interface LLMCompletionOptions {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+
+  /**
+   * JSON schema the response must follow. Only sent to providers that
+   * declare `supportsJSONSchema`; others rely on the prompt.
+   */
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * Named JSON schema for native structured output
+ */
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
 }
 
 /**
@@ -264,6 +497,99 @@ export interface EmbeddingProvider {
    * Embedding dimension
    */
   readonly dimensions: number;
+
+  /**
+   * Provider name, e.g. 'openai' (optional, used in cache keys)
+   */
+  readonly providerName?: string;
+
+  /**
+   * Model identifier (optional, used in cache keys)
+   */
+  readonly model?: string;
+}
+
+/**
+ * Tokenizer interface used to measure and trim retrieval context
+ */
+export interface Tokenizer {
+  /**
+   * Number of tokens in the text
+   */
+  count(text: string): number;
+
+  /**
+   * Longest prefix of the text that fits in maxTokens tokens
+   */
+  truncate(text: string, maxTokens: number): string;
+}
+
+/**
+ * Persistent backing store for CachedEmbeddings
+ */
+export interface EmbeddingCacheStore {
+  /**
+   * Look up embeddings by cache key; missing keys are left out of the result
+   */
+  getMany(keys: string[]): Promise<Map<string, number[]>>;
+
+  /**
+   * Save embeddings by cache key
+   */
+  setMany(entries: Array<[string, number[]]>): Promise<void>;
+
+  /**
+   * Remove all cached embeddings
+   */
+  clear(): Promise<void>;
+}
+
+// =============================================================================
+// Vector Index Interface
+// =============================================================================
+
+/**
+ * Nearest-neighbour hit from a vector index
+ */
+export interface VectorSearchHit {
+  id: string;
+  score: number; // Cosine similarity
+}
+
+/**
+ * Vector index used by the semantic layer of HybridIndex.
+ * Implementations are kept in sync incrementally as units are added/removed.
+ */
+export interface VectorIndex {
+  /**
+   * Insert or replace the vector stored under an ID
+   */
+  add(id: string, vector: number[]): void;
+
+  /**
+   * Remove a vector (no-op if absent)
+   */
+  remove(id: string): void;
+
+  /**
+   * Find the k vectors most similar to the query.
+   * Only IDs accepted by `filter` are returned.
+   */
+  search(
+    query: number[],
+    k: number,
+    filter?: (id: string) => boolean,
+  ): VectorSearchHit[];
+
+  /**
+   * Remove all vectors
+   */
+  clear(): void;
+
+  /**
+   * Number of stored vectors
+   */
+  readonly size: number;
 }
 
 // =============================================================================
@@ -299,10 +625,14 @@ export interface QueryFilter {
   timestampRange?: { start?: string; end?: string };
   location?: string;
   topic?: string;
+  namespace?: string;
 }
 
 /**
  * Storage Adapter interface
+ *
+ * Methods that accept an optional `namespace` scope their result to that
+ * tenant. Omitting it operates across all namespaces.
  */
 export interface StorageAdapter {
   /**
@@ -323,7 +653,7 @@ export interface StorageAdapter {
   /**
    * Get all memory units
    */
-  getAllUnits(): Promise<MemoryUnit[]>;
+  getAllUnits(namespace?: string): Promise<MemoryUnit[]>;
 
   /**
    * Query memory units with filters
@@ -340,25 +670,103 @@ export interface StorageAdapter {
    */
   saveAbstract(abstract: AbstractMemory): Promise<void>;
 
+  /**
+   * Get an abstract memory by ID
+   */
+  getAbstract(id: string): Promise<AbstractMemory | null>;
+
   /**
    * Get all abstract memories
    */
-  getAllAbstracts(): Promise<AbstractMemory[]>;
+  getAllAbstracts(namespace?: string): Promise<AbstractMemory[]>;
+
+  /**
+   * Delete an abstract memory
+   */
+  deleteAbstract(id: string): Promise<void>;
+
+  /**
+   * Save a registry entity
+   */
+  saveEntity(entity: Entity): Promise<void>;
+
+  /**
+   * Get a registry entity by ID
+   */
+  getEntity(id: string): Promise<Entity | null>;
+
+  /**
+   * Get all registry entities
+   */
+  getAllEntities(namespace?: string): Promise<Entity[]>;
+
+  /**
+   * Delete a registry entity
+   */
+  deleteEntity(id: string): Promise<void>;
+
+  /**
+   * Save a knowledge-graph relation
+   */
+  saveRelation(relation: Relation): Promise<void>;
+
+  /**
+   * Get a knowledge-graph relation by ID
+   */
+  getRelation(id: string): Promise<Relation | null>;
+
+  /**
+   * Get all knowledge-graph relations
+   */
+  getAllRelations(namespace?: string): Promise<Relation[]>;
+
+  /**
+   * Delete a knowledge-graph relation
+   */
+  deleteRelation(id: string): Promise<void>;
+
+  /**
+   * Save raw dialogue turns, replacing turns with the same session and ID
+   */
+  saveDialogues(dialogues: Dialogue[]): Promise<void>;
+
+  /**
+   * Get the raw dialogue turns of a session, in turn order
+   */
+  getDialogues(sessionId: string, namespace?: string): Promise<Dialogue[]>;
+
+  /**
+   * Delete raw dialogue turns by session and turn ID
+   */
+  deleteDialogues(refs: DialogueRef[], namespace?: string): Promise<void>;
+
+  /**
+   * Save the MemoryBuilder checkpoint of the checkpoint's namespace,
+   * replacing the previous one
+   */
+  saveCheckpoint(checkpoint: BuilderCheckpoint): Promise<void>;
+
+  /**
+   * Get the MemoryBuilder checkpoint of a namespace, if one was saved
+   */
+  getCheckpoint(namespace?: string): Promise<BuilderCheckpoint | null>;
 
   /**
    * Clear all data
    */
-  clear(): Promise<void>;
+  clear(namespace?: string): Promise<void>;
 
   /**
    * Export all data
    */
-  export(): Promise<ExportData>;
+  export(namespace?: string): Promise<ExportData>;
 
   /**
    * Import data
+   *
+   * @returns The imported units as stored
    */
-  import(data: ExportData): Promise<void>;
+  import(data: ExportData): Promise<MemoryUnit[]>;
 }
 
 /**
@@ -367,8 +775,15 @@ export interface StorageAdapter {
 export interface ExportData {
   units: MemoryUnit[];
   abstracts: AbstractMemory[];
+  /** Entity registry (absent in exports from before the registry) */
+  entities?: Entity[];
+  /** Knowledge-graph relations (absent in exports from before the graph) */
+  relations?: Relation[];
+  /** Raw dialogue turns (absent in exports from before dialogue storage) */
+  dialogues?: Dialogue[];
   version: string;
   exportedAt: string;
+  namespace?: string;
 }
 
 // =============================================================================
@@ -379,18 +794,122 @@ export interface SearchResult {
   unit: MemoryUnit;
   score: number;
   matchType: "semantic" | "lexical" | "symbolic" | "hybrid";
+  /** Relevance assigned by a Reranker, when one was applied */
+  rerankScore?: number;
+}
+
+/**
+ * Reranker interface - reorders first-stage search results
+ */
+export interface Reranker {
+  /**
+   * Return the results most relevant first, with `rerankScore` set
+   */
+  rerank(query: string, results: SearchResult[]): Promise<SearchResult[]>;
 }
 
 export interface SearchOptions {
   limit?: number;
   filter?: QueryFilter;
   includeEmbeddings?: boolean;
+  includeSuperseded?: boolean;
+}
+
+/**
+ * Progress event yielded by SimpleMem.askStream()
+ */
+export type AskStreamEvent =
+  | { type: "query_analyzed"; analysis: QueryAnalysis }
+  | { type: "context_retrieved"; context: RetrievalContext }
+  | { type: "token"; text: string }
+  | { type: "done"; answer: string; usage?: UsageStats };
+
+/**
+ * Answer with the memories it cites, returned by SimpleMem.askWithSources()
+ */
+export interface AnswerWithSources {
+  /** Answer text with citation markers removed */
+  answer: string;
+  /** IDs of cited memory units, in citation order */
+  unitIds: string[];
+  /** IDs of cited abstract memories, in citation order */
+  abstractIds: string[];
+  /** Provider usage of the question, set by SimpleMem */
+  usage?: UsageStats;
+}
+
+/**
+ * Memory units returned by SimpleMem.search(), carrying the provider usage
+ * of the search as a non-enumerable `usage` property
+ */
+export type SearchResults = MemoryUnit[] & { readonly usage: UsageStats };
+
+// =============================================================================
+// Usage Accounting
+// =============================================================================
+
+/**
+ * Provider usage of one operation, or accumulated over many
+ *
+ * Token counts are those the provider API returned where it reports them,
+ * and otherwise estimated with the tokenizer from the text sent to and
+ * returned by each provider.
+ */
+export interface UsageStats {
+  /**
+   * LLM requests. Retries and structured-output re-prompts count
+   * separately for providers that report requests; for others a
+   * completeJSON() call counts once.
+   */
+  llmCalls: number;
+  /** Embedding requests */
+  embeddingCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  embeddingTokens: number;
+  /** Time spent in provider calls; concurrent calls add up */
+  latencyMs: number;
+  /** Estimated cost from the price table; unpriced models cost 0 */
+  cost: number;
+}
+
+/**
+ * Model price per million tokens, in any currency
+ */
+export interface ModelPrice {
+  /** Prompt and embedding tokens */
+  input: number;
+  /** Completion tokens (defaults to the input price) */
+  output?: number;
 }
 
 // =============================================================================
 // Flexible Input Types
 // =============================================================================
 
+/**
+ * Editable fields for updateMemory(). Fields left out or `undefined` keep
+ * their value; `null` clears an optional field.
+ */
+export type MemoryPatch = Partial<
+  Pick<MemoryUnit, "content" | "keywords" | "persons" | "entities" | "salience">
+> & {
+  [K in "timestamp" | "location" | "topic"]?: MemoryUnit[K] | null;
+};
+
+/**
+ * Options for addDialogue() calls
+ */
+export interface DialogueOptions {
+  /** Conversation the turn belongs to (defaults to the instance session) */
+  sessionId?: string;
+  /**
+   * Turn ID; by default the next ID after the session's stored turns.
+   * IDs of stored turns are rejected.
+   */
+  id?: number;
+}
+
 /**
  * Metadata for addText() calls
  */
@@ -2,16 +2,26 @@
  * Shared filter logic for matching memory units against query filters
  */
 
-import type { MemoryUnit, QueryFilter } from "../types/index.js";
+import type {
+  Dialogue,
+  DialogueRef,
+  MemoryUnit,
+  QueryFilter,
+} from "../types/index.js";
 import { isWithinRange } from "./temporal.js";
 
 /**
  * Check if a memory unit matches the given filter criteria.
  *
  * All filters use AND logic -- a unit must satisfy every specified filter.
- * String comparisons are case-insensitive substrings.
+ * String comparisons are case-insensitive substrings, except `namespace`
+ * which must match exactly.
  */
 export function matchesFilter(unit: MemoryUnit, filter: QueryFilter): boolean {
+  if (!matchesNamespace(unit, filter.namespace)) {
+    return false;
+  }
+
   if (filter.persons && filter.persons.length > 0) {
     const hasMatch = filter.persons.some((person) =>
       unit.persons.some((p) =>
@@ -53,3 +63,39 @@ export function matchesFilter(unit: MemoryUnit, filter: QueryFilter): boolean {
 
   return true;
 }
+
+/**
+ * Check if a unit or abstract belongs to the given namespace.
+ *
+ * An undefined namespace matches everything (unscoped access).
+ */
+export function matchesNamespace(
+  item: { namespace?: string },
+  namespace?: string,
+): boolean {
+  return namespace === undefined || item.namespace === namespace;
+}
+
+/**
+ * Check if a raw dialogue turn is one of the referenced turns
+ */
+export function isReferencedDialogue(
+  dialogue: Dialogue,
+  refs: DialogueRef[],
+): boolean {
+  return refs.some(
+    (ref) =>
+      ref.sessionId === dialogue.sessionId && ref.dialogueId === dialogue.id,
+  );
+}
+
+/**
+ * Storage key of a raw dialogue turn, unique across namespaces and sessions
+ */
+export function dialogueKey(dialogue: Dialogue): string {
+  return JSON.stringify([
+    dialogue.namespace ?? null,
+    dialogue.sessionId ?? null,
+    dialogue.id,
+  ]);
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  fuseScores,
+  fitLogisticFusion,
+  logisticScore,
+  type FusionCandidate,
+  type FusionOptions,
+  type FusionTrainingExample,
+} from "./fusion";
+
+const options: FusionOptions = {
+  semanticWeight: 0.6,
+  lexicalWeight: 0.3,
+  symbolicWeight: 0.1,
+  rrfK: 60,
+};
+
+const candidates: FusionCandidate[] = [
+  { id: "a", semanticScore: 0.9, semanticRank: 1, matchesConstraints: true },
+  {
+    id: "b",
+    semanticScore: 0.5,
+    semanticRank: 2,
+    lexicalScore: 2,
+    lexicalRank: 2,
+    matchesConstraints: true,
+  },
+  { id: "c", lexicalScore: 100, lexicalRank: 1, matchesConstraints: false },
+];
+
+describe("fuseScores", () => {
+  it("weighted matches the paper formula with max-normalized BM25", () => {
+    const scores = fuseScores(candidates, "weighted", options);
+    expect(scores.get("a")).toBeCloseTo(0.6 * 0.9 + 0.1);
+    expect(scores.get("b")).toBeCloseTo(0.6 * 0.5 + 0.3 * 0.02 + 0.1);
+    expect(scores.get("c")).toBeCloseTo(0.3);
+  });
+
+  it("rrf uses ranks only, so a BM25 outlier does not dominate", () => {
+    const scores = fuseScores(candidates, "rrf", options);
+    expect(scores.get("b")).toBeCloseTo(0.6 / 62 + 0.3 / 62 + 0.1 / 61);
+    expect(scores.get("b")!).toBeGreaterThan(scores.get("c")!);
+  });
+
+  it("zscore standardizes each layer and floors missing layers", () => {
+    const scores = fuseScores(candidates, "zscore", options);
+    // Semantic z: a = 1, b = -1, c missing -> -1; lexical z: b = -1, c = 1
+    expect(scores.get("a")).toBeCloseTo(0.6 * 1 + 0.3 * -1 + 0.1);
+    expect(scores.get("c")).toBeCloseTo(0.6 * -1 + 0.3 * 1);
+  });
+
+  it("logistic defaults to the configured weights", () => {
+    const scores = fuseScores(candidates, "logistic", options);
+    expect(scores.get("a")).toBeCloseTo(1 / (1 + Math.exp(-(0.54 + 0.1))));
+  });
+});
+
+describe("fitLogisticFusion", () => {
+  it("learns which layer predicts relevance", () => {
+    const examples: FusionTrainingExample[] = [];
+    for (let i = 0; i < 20; i++) {
+      const semantic = (i % 10) / 10;
+      examples.push(
+        { features: { semantic, lexical: 0.9, symbolic: 1 }, relevant: true },
+        { features: { semantic, lexical: 0.1, symbolic: 1 }, relevant: false },
+      );
+    }
+
+    const model = fitLogisticFusion(examples);
+
+    expect(model.lexicalWeight).toBeGreaterThan(Math.abs(model.semanticWeight));
+    expect(
+      logisticScore(model, { semantic: 0.5, lexical: 0.9, symbolic: 1 }),
+    ).toBeGreaterThan(0.5);
+    expect(
+      logisticScore(model, { semantic: 0.5, lexical: 0.1, symbolic: 1 }),
+    ).toBeLessThan(0.5);
+  });
+
+  it("requires both classes", () => {
+    expect(() =>
+      fitLogisticFusion([
+        { features: { semantic: 1, lexical: 1, symbolic: 1 }, relevant: true },
+      ]),
+    ).toThrow(/both/);
+  });
+});
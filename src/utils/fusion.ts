@@ -0,0 +1,339 @@
+/**
+ * Score Fusion
+ *
+ * Strategies for combining the semantic and lexical layers in hybridSearch:
+ * - weighted: α·cos + β·BM25/max(BM25) + γ·𝕀(constraints) (paper formula)
+ * - rrf: reciprocal rank fusion, which only uses ranks
+ * - zscore: per-layer z-score normalization before weighting
+ * - logistic: a logistic model whose weights can be fitted from labelled
+ *   query/unit pairs with fitLogisticFusion()
+ */
+
+import { computeHybridScore } from "./similarity.js";
+
+export type FusionStrategy = "weighted" | "rrf" | "zscore" | "logistic";
+
+/**
+ * Signals for one candidate unit from each retrieval layer
+ */
+export interface FusionCandidate {
+  id: string;
+  /** Cosine similarity, when returned by the semantic layer */
+  semanticScore?: number;
+  /** 1-based rank in the semantic results */
+  semanticRank?: number;
+  /** Raw BM25 score, when returned by the lexical layer */
+  lexicalScore?: number;
+  /** 1-based rank in the lexical results */
+  lexicalRank?: number;
+  /** Whether the unit satisfies the symbolic filter */
+  matchesConstraints: boolean;
+}
+
+/**
+ * Features used by the logistic model
+ */
+export interface FusionFeatures {
+  /** Cosine similarity, 0 when not a semantic hit */
+  semantic: number;
+  /** BM25 normalized by the best BM25 score for the query */
+  lexical: number;
+  /** 1 when the unit satisfies the symbolic filter, else 0 */
+  symbolic: number;
+}
+
+/**
+ * Logistic fusion model: σ(bias + w · features)
+ */
+export interface LogisticFusionModel {
+  bias: number;
+  semanticWeight: number;
+  lexicalWeight: number;
+  symbolicWeight: number;
+}
+
+export interface FusionOptions {
+  /** Semantic weight (α) */
+  semanticWeight: number;
+  /** Lexical weight (β) */
+  lexicalWeight: number;
+  /** Symbolic weight (γ) */
+  symbolicWeight: number;
+  /** RRF rank offset */
+  rrfK: number;
+  /**
+   * Logistic model; without one the weights above are used with zero bias
+   */
+  model?: LogisticFusionModel;
+}
+
+// =============================================================================
+// Fusion
+// =============================================================================
+
+/**
+ * Fuse layer signals into a single score per candidate ID
+ */
+export function fuseScores(
+  candidates: FusionCandidate[],
+  strategy: FusionStrategy,
+  options: FusionOptions,
+): Map<string, number> {
+  switch (strategy) {
+    case "rrf":
+      return reciprocalRankFusion(candidates, options);
+    case "zscore":
+      return zScoreFusion(candidates, options);
+    case "logistic":
+      return logisticFusion(candidates, options);
+    case "weighted":
+      return weightedFusion(candidates, options);
+    default:
+      throw new Error(`Unknown fusion strategy: ${strategy satisfies never}`);
+  }
+}
+
+/**
+ * Logistic-model features for each candidate
+ */
+export function fusionFeatures(
+  candidates: FusionCandidate[],
+): Map<string, FusionFeatures> {
+  const maxBM25 = Math.max(...candidates.map((c) => c.lexicalScore ?? 0), 1);
+  const features = new Map<string, FusionFeatures>();
+
+  for (const c of candidates) {
+    features.set(c.id, {
+      semantic: c.semanticScore ?? 0,
+      lexical: (c.lexicalScore ?? 0) / maxBM25,
+      symbolic: c.matchesConstraints ? 1 : 0,
+    });
+  }
+
+  return features;
+}
+
+function weightedFusion(
+  candidates: FusionCandidate[],
+  options: FusionOptions,
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const [id, f] of fusionFeatures(candidates)) {
+    scores.set(
+      id,
+      computeHybridScore(
+        f.semantic,
+        f.lexical,
+        f.symbolic === 1,
+        options.semanticWeight,
+        options.lexicalWeight,
+        options.symbolicWeight,
+      ),
+    );
+  }
+  return scores;
+}
+
+/**
+ * Weighted RRF: Σ w / (k + rank); symbolic matches count as rank 1
+ */
+function reciprocalRankFusion(
+  candidates: FusionCandidate[],
+  options: FusionOptions,
+): Map<string, number> {
+  const k = options.rrfK;
+  const scores = new Map<string, number>();
+
+  for (const c of candidates) {
+    let score = 0;
+    if (c.semanticRank !== undefined)
+      score += options.semanticWeight / (k + c.semanticRank);
+    if (c.lexicalRank !== undefined)
+      score += options.lexicalWeight / (k + c.lexicalRank);
+    if (c.matchesConstraints) score += options.symbolicWeight / (k + 1);
+    scores.set(c.id, score);
+  }
+
+  return scores;
+}
+
+/**
+ * Standardize each layer over the candidates, then weight. Candidates a
+ * layer did not return get that layer's lowest z-score.
+ */
+function zScoreFusion(
+  candidates: FusionCandidate[],
+  options: FusionOptions,
+): Map<string, number> {
+  const semantic = zScores(candidates.map((c) => c.semanticScore));
+  const lexical = zScores(candidates.map((c) => c.lexicalScore));
+  const scores = new Map<string, number>();
+
+  candidates.forEach((c, i) => {
+    scores.set(
+      c.id,
+      options.semanticWeight * semantic[i] +
+        options.lexicalWeight * lexical[i] +
+        (c.matchesConstraints ? options.symbolicWeight : 0),
+    );
+  });
+
+  return scores;
+}
+
+function zScores(values: Array<number | undefined>): number[] {
+  const present = values.filter((v): v is number => v !== undefined);
+  if (present.length === 0) return values.map(() => 0);
+
+  const mean = present.reduce((s, v) => s + v, 0) / present.length;
+  const variance =
+    present.reduce((s, v) => s + (v - mean) ** 2, 0) / present.length;
+  const std = Math.sqrt(variance);
+  const z = (v: number) => (std === 0 ? 0 : (v - mean) / std);
+  const floor = Math.min(...present.map(z));
+
+  return values.map((v) => (v === undefined ? floor : z(v)));
+}
+
+function logisticFusion(
+  candidates: FusionCandidate[],
+  options: FusionOptions,
+): Map<string, number> {
+  const model = options.model ?? {
+    bias: 0,
+    semanticWeight: options.semanticWeight,
+    lexicalWeight: options.lexicalWeight,
+    symbolicWeight: options.symbolicWeight,
+  };
+  const scores = new Map<string, number>();
+  for (const [id, f] of fusionFeatures(candidates)) {
+    scores.set(id, logisticScore(model, f));
+  }
+  return scores;
+}
+
+/**
+ * Probability that a unit is relevant under the model
+ */
+export function logisticScore(
+  model: LogisticFusionModel,
+  features: FusionFeatures,
+): number {
+  return sigmoid(
+    model.bias +
+      model.semanticWeight * features.semantic +
+      model.lexicalWeight * features.lexical +
+      model.symbolicWeight * features.symbolic,
+  );
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// =============================================================================
+// Training
+// =============================================================================
+
+/**
+ * A labelled query for fitting the fusion model
+ */
+export interface LabelledQuery {
+  query: string;
+  /** IDs of units that answer the query */
+  relevantUnitIds: string[];
+}
+
+/**
+ * One candidate unit for a labelled query
+ */
+export interface FusionTrainingExample {
+  features: FusionFeatures;
+  relevant: boolean;
+}
+
+export interface FitLogisticFusionOptions {
+  /**
+   * Gradient descent passes over the examples
+   * @default 500
+   */
+  epochs?: number;
+
+  /**
+   * Step size
+   * @default 0.5
+   */
+  learningRate?: number;
+
+  /**
+   * L2 penalty on the feature weights
+   * @default 0.001
+   */
+  l2?: number;
+
+  /**
+   * Weight classes inversely to their frequency, since relevant units are
+   * usually a small minority of candidates
+   * @default true
+   */
+  balanceClasses?: boolean;
+}
+
+/**
+ * Fit a logistic fusion model with batch gradient descent
+ */
+export function fitLogisticFusion(
+  examples: FusionTrainingExample[],
+  options: FitLogisticFusionOptions = {},
+): LogisticFusionModel {
+  const epochs = options.epochs ?? 500;
+  const learningRate = options.learningRate ?? 0.5;
+  const l2 = options.l2 ?? 0.001;
+  const balance = options.balanceClasses ?? true;
+
+  const positives = examples.filter((e) => e.relevant).length;
+  const negatives = examples.length - positives;
+  if (positives === 0 || negatives === 0) {
+    throw new Error(
+      "Fitting a fusion model needs both relevant and non-relevant examples",
+    );
+  }
+
+  const positiveWeight = balance ? examples.length / (2 * positives) : 1;
+  const negativeWeight = balance ? examples.length / (2 * negatives) : 1;
+
+  const model: LogisticFusionModel = {
+    bias: 0,
+    semanticWeight: 0,
+    lexicalWeight: 0,
+    symbolicWeight: 0,
+  };
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    let gBias = 0;
+    let gSemantic = 0;
+    let gLexical = 0;
+    let gSymbolic = 0;
+
+    for (const { features, relevant } of examples) {
+      const weight = relevant ? positiveWeight : negativeWeight;
+      const error =
+        weight * (logisticScore(model, features) - (relevant ? 1 : 0));
+      gBias += error;
+      gSemantic += error * features.semantic;
+      gLexical += error * features.lexical;
+      gSymbolic += error * features.symbolic;
+    }
+
+    const n = examples.length;
+    model.bias -= (learningRate * gBias) / n;
+    model.semanticWeight -=
+      learningRate * (gSemantic / n + l2 * model.semanticWeight);
+    model.lexicalWeight -=
+      learningRate * (gLexical / n + l2 * model.lexicalWeight);
+    model.symbolicWeight -=
+      learningRate * (gSymbolic / n + l2 * model.symbolicWeight);
+  }
+
+  return model;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { jaroWinkler, nameSimilarity, fuzzyMatchNames } from "./fuzzy";
+
+describe("jaroWinkler", () => {
+  it("matches the reference values", () => {
+    expect(jaroWinkler("martha", "marhta")).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler("dixon", "dicksonx")).toBeCloseTo(0.813, 3);
+  });
+
+  it("handles identical and empty strings", () => {
+    expect(jaroWinkler("bob", "bob")).toBe(1);
+    expect(jaroWinkler("", "bob")).toBe(0);
+    expect(jaroWinkler("abc", "xyz")).toBe(0);
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("fully matches names contained token by token", () => {
+    expect(nameSimilarity("Bob", "Bob Smith")).toBe(1);
+    expect(nameSimilarity("smith, bob", "Bob Smith")).toBe(1);
+  });
+
+  it("does not treat substrings of tokens as contained", () => {
+    expect(nameSimilarity("Bo", "Bob Smith")).toBeLessThan(1);
+  });
+});
+
+describe("fuzzyMatchNames", () => {
+  const vocabulary = ["Bob Smith", "Bobby Tables", "Alice", "Starbucks"];
+
+  it("resolves partial names and typos to the vocabulary", () => {
+    expect(fuzzyMatchNames("Bob", vocabulary)).toEqual(["Bob Smith"]);
+    expect(fuzzyMatchNames("Bobby", vocabulary)).toEqual(["Bobby Tables"]);
+    expect(fuzzyMatchNames("Stabucks", vocabulary)).toEqual(["Starbucks"]);
+  });
+
+  it("returns nothing below the threshold", () => {
+    expect(fuzzyMatchNames("Charlie", vocabulary)).toEqual([]);
+    expect(fuzzyMatchNames("Alicia", vocabulary, 0.99)).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Fuzzy name matching
+ *
+ * Resolves names proposed by the query planner against the names actually
+ * stored in memory units, so "Bob" finds "Bob Smith" and "Stabucks" finds
+ * "Starbucks".
+ */
+
+/**
+ * Jaro-Winkler similarity in [0, 1]
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length, i + window + 1);
+    for (let j = start; j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  // Half the number of matched characters that are out of order
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function tokens(name: string): string[] {
+  return name.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Similarity of a query name to a vocabulary name
+ *
+ * 1 when every token of the query name appears in the vocabulary name
+ * ("bob" → "Bob Smith"), otherwise the best Jaro-Winkler similarity of the
+ * whole names or of each query token to its closest vocabulary token.
+ */
+export function nameSimilarity(query: string, candidate: string): number {
+  const queryTokens = tokens(query);
+  const candidateTokens = tokens(candidate);
+  if (queryTokens.length === 0 || candidateTokens.length === 0) return 0;
+
+  if (queryTokens.every((t) => candidateTokens.includes(t))) return 1;
+
+  const whole = jaroWinkler(queryTokens.join(" "), candidateTokens.join(" "));
+  const perToken =
+    queryTokens.reduce(
+      (sum, t) =>
+        sum + Math.max(...candidateTokens.map((c) => jaroWinkler(t, c))),
+      0,
+    ) / queryTokens.length;
+
+  return Math.max(whole, perToken);
+}
+
+/**
+ * Vocabulary names matching a query name, best match first
+ *
+ * Names that contain the query name outright shadow fuzzy matches, so
+ * "Bob" resolves to "Bob Smith" but not also to "Bobby Tables".
+ *
+ * @param threshold - Minimum nameSimilarity for a match
+ */
+export function fuzzyMatchNames(
+  name: string,
+  vocabulary: Iterable<string>,
+  threshold = 0.85,
+): string[] {
+  const matches: Array<[string, number]> = [];
+  for (const candidate of vocabulary) {
+    const score = nameSimilarity(name, candidate);
+    if (score >= threshold) matches.push([candidate, score]);
+  }
+  const exact = matches.filter(([, score]) => score === 1);
+  return (exact.length > 0 ? exact : matches)
+    .sort((a, b) => b[1] - a[1])
+    .map(([candidate]) => candidate);
+}
@@ -0,0 +1,24 @@
+/**
+ * Content hashing
+ *
+ * SHA-256 via Web Crypto (Bun, Deno, browsers, Node 19+), falling back to
+ * node:crypto on older Node.js versions.
+ */
+
+/**
+ * Hex-encoded SHA-256 digest of a UTF-8 string
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    const digest = await subtle.digest("SHA-256", new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), (b) =>
+      b.toString(16).padStart(2, "0"),
+    ).join("");
+  }
+
+  const { createHash } = await (Function(
+    'return import("node:crypto")',
+  )() as Promise<typeof import("node:crypto")>);
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
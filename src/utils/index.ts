@@ -5,3 +5,10 @@
 export * from "./runtime.js";
 export * from "./similarity.js";
 export * from "./temporal.js";
+export * from "./hash.js";
+export * from "./lru.js";
+export * from "./tokenizer.js";
+export * from "./fusion.js";
+export * from "./fuzzy.js";
+export * from "./resilience.js";
+export * from "./usage.js";
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { SimpleMemEventEmitter } from "../events";
+import {
+  TokenBucket,
+  ProviderGuard,
+  isRetryableError,
+  errorStatus,
+} from "./resilience";
+
+function rateLimitError(): Error {
+  return Object.assign(new Error("Too many requests"), { status: 429 });
+}
+
+describe("TokenBucket", () => {
+  it("admits bursts up to capacity, then waits for refill", async () => {
+    const bucket = new TokenBucket(600); // 10 per second
+    expect(await bucket.acquire(600)).toBe(0);
+
+    const waits: number[] = [];
+    const waited = await bucket.acquire(1, (ms) => waits.push(ms));
+    expect(waited).toBeGreaterThan(50);
+    expect(waits).toEqual([waited]);
+  });
+
+  it("caps costs above capacity", async () => {
+    const bucket = new TokenBucket(10);
+    expect(await bucket.acquire(50)).toBe(0);
+    expect(bucket.tokens).toBeLessThan(1);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits, server and network errors", () => {
+    expect(isRetryableError(rateLimitError())).toBe(true);
+    expect(isRetryableError(new Error("Voyage AI API error (503): busy"))).toBe(
+      true,
+    );
+    const reset = Object.assign(new Error("reset"), { code: "ECONNRESET" });
+    expect(isRetryableError(reset)).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+
+    expect(isRetryableError(new Error("HTTP provider error (400): bad"))).toBe(
+      false,
+    );
+    expect(isRetryableError(new Error("Invalid JSON"))).toBe(false);
+    expect(errorStatus(new Error("Anthropic API error (529): x"))).toBe(529);
+  });
+});
+
+describe("ProviderGuard", () => {
+  it("retries retryable failures with backoff events", async () => {
+    const events = new SimpleMemEventEmitter();
+    const retries: number[] = [];
+    events.on("provider:retrying", (e) => retries.push(e.attempt));
+
+    const guard = new ProviderGuard("test", { baseDelayMs: 1, events });
+    let calls = 0;
+    const result = await guard.run(["hi"], async () => {
+      if (++calls < 3) throw rateLimitError();
+      return "ok";
+    });
+
+    expect(result).toBe("ok");
+    expect(retries).toEqual([1, 2]);
+    expect(guard.getState().consecutiveFailures).toBe(0);
+  });
+
+  it("does not retry other errors", async () => {
+    const guard = new ProviderGuard("test", { baseDelayMs: 1 });
+    let calls = 0;
+    await expect(
+      guard.run(["hi"], async () => {
+        calls++;
+        throw new Error("HTTP provider error (400): bad request");
+      }),
+    ).rejects.toThrow("400");
+    expect(calls).toBe(1);
+  });
+
+  it("opens the circuit and closes it after a successful trial", async () => {
+    const events = new SimpleMemEventEmitter();
+    const states: string[] = [];
+    events.on("provider:circuit_changed", (e) => states.push(e.state));
+
+    const guard = new ProviderGuard("test", {
+      maxRetries: 0,
+      failureThreshold: 2,
+      cooldownMs: 20,
+      events,
+    });
+    const failing = async () => {
+      throw rateLimitError();
+    };
+
+    await expect(guard.run([], failing)).rejects.toThrow("Too many");
+    await expect(guard.run([], failing)).rejects.toThrow("Too many");
+    expect(guard.getState().circuit).toBe("open");
+    await expect(guard.run([], async () => "ok")).rejects.toThrow(
+      "Circuit open",
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 25));
+    expect(await guard.run([], async () => "ok")).toBe("ok");
+    expect(states).toEqual(["open", "half_open", "closed"]);
+  });
+
+  it("reports rate limiting by tokens", async () => {
+    const events = new SimpleMemEventEmitter();
+    const limits: string[] = [];
+    events.on("provider:rate_limited", (e) => limits.push(e.limit));
+
+    const guard = new ProviderGuard("test", {
+      tokensPerMinute: 6000,
+      events,
+    });
+    await guard.run(["word ".repeat(6000)], async () => "first");
+    await guard.run(["word"], async () => "second");
+
+    expect(limits).toEqual(["tokens"]);
+    expect(guard.getState().availableRequests).toBeNull();
+  });
+});
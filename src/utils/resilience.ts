@@ -0,0 +1,399 @@
+/**
+ * Provider Resilience - Rate limits, retries and circuit breaking
+ *
+ * A ProviderGuard admits each provider call through token buckets for
+ * requests and tokens per minute, retries retryable failures (429, 5xx,
+ * network errors) with exponential backoff and full jitter, and fails fast
+ * while a circuit breaker is open after repeated failures. It backs the
+ * ResilientLLMProvider and ResilientEmbeddings wrappers.
+ */
+
+import type { Tokenizer } from "../types/index.js";
+import type { SimpleMemEventEmitter } from "../events.js";
+import { defaultTokenizer } from "./tokenizer.js";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface ResilienceOptions {
+  /**
+   * Requests admitted per minute (unlimited when unset)
+   */
+  requestsPerMinute?: number;
+
+  /**
+   * Input tokens admitted per minute, estimated with `tokenizer`
+   * (unlimited when unset)
+   */
+  tokensPerMinute?: number;
+
+  /**
+   * Retries after the first attempt of a call
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Backoff ceiling before the first retry, doubling on each retry.
+   * The actual delay is drawn uniformly below the ceiling.
+   * @default 500
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the backoff ceiling
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Consecutive retryable failures that open the circuit
+   * @default 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time the circuit stays open before a trial call is let through
+   * @default 30000
+   */
+  cooldownMs?: number;
+
+  /**
+   * Decides whether a failure is retried and counted by the breaker
+   * @default isRetryableError
+   */
+  isRetryable?: (error: unknown) => boolean;
+
+  /**
+   * Tokenizer used to estimate tokens per call
+   * @default defaultTokenizer
+   */
+  tokenizer?: Tokenizer;
+
+  /**
+   * Provider name reported in events
+   * @default provider.providerName ?? provider class name
+   */
+  name?: string;
+
+  /**
+   * Emitter receiving `provider:*` events
+   */
+  events?: SimpleMemEventEmitter;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface ProviderGuardState {
+  circuit: CircuitState;
+  /** Retryable failures since the last success */
+  consecutiveFailures: number;
+  /** Requests available now, null when unlimited */
+  availableRequests: number | null;
+  /** Tokens available now, null when unlimited */
+  availableTokens: number | null;
+}
+
+// =============================================================================
+// Token Bucket
+// =============================================================================
+
+/**
+ * Token bucket refilled continuously at `perMinute` units per minute,
+ * holding at most one minute's worth. Waiters are served in order.
+ */
+export class TokenBucket {
+  readonly perMinute: number;
+  private available: number;
+  private updatedAt = Date.now();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(perMinute: number) {
+    if (!(perMinute > 0)) {
+      throw new Error("Token bucket rate must be positive");
+    }
+    this.perMinute = perMinute;
+    this.available = perMinute;
+  }
+
+  /**
+   * Units available now
+   */
+  get tokens(): number {
+    this.refill();
+    return this.available;
+  }
+
+  /**
+   * Wait until `cost` units are available and take them. Costs above the
+   * capacity are capped so they can still be admitted.
+   *
+   * @param onWait Called with the wait time before waiting
+   * @returns Milliseconds waited
+   */
+  acquire(cost: number, onWait?: (waitMs: number) => void): Promise<number> {
+    const taken = this.queue.then(() =>
+      this.take(Math.min(cost, this.perMinute), onWait),
+    );
+    this.queue = taken.catch(() => undefined);
+    return taken;
+  }
+
+  private async take(
+    cost: number,
+    onWait?: (waitMs: number) => void,
+  ): Promise<number> {
+    this.refill();
+    const waitMs = Math.ceil(
+      ((cost - this.available) * 60000) / this.perMinute,
+    );
+    if (waitMs > 0) {
+      onWait?.(waitMs);
+      await sleep(waitMs);
+      this.refill();
+    }
+    this.available -= cost;
+    return Math.max(0, waitMs);
+  }
+
+  private refill(): void {
+    const time = Date.now();
+    this.available = Math.min(
+      this.perMinute,
+      this.available + ((time - this.updatedAt) * this.perMinute) / 60000,
+    );
+    this.updatedAt = time;
+  }
+}
+
+// =============================================================================
+// Provider Guard
+// =============================================================================
+
+/**
+ * Rate limiting, retry and circuit-breaker policy for one provider
+ */
+export class ProviderGuard {
+  readonly name: string;
+  private requests: TokenBucket | null;
+  private tokens: TokenBucket | null;
+  private tokenizer: Tokenizer;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private isRetryable: (error: unknown) => boolean;
+  private events?: SimpleMemEventEmitter;
+  private circuit: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(name: string, options: ResilienceOptions = {}) {
+    this.name = options.name ?? name;
+    this.requests = options.requestsPerMinute
+      ? new TokenBucket(options.requestsPerMinute)
+      : null;
+    this.tokens = options.tokensPerMinute
+      ? new TokenBucket(options.tokensPerMinute)
+      : null;
+    this.tokenizer = options.tokenizer ?? defaultTokenizer;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.isRetryable = options.isRetryable ?? isRetryableError;
+    this.events = options.events;
+  }
+
+  /**
+   * Run a provider call under the policy
+   *
+   * @param texts Inputs of the call, used to estimate its token cost
+   * @throws The last error once retries are exhausted, or immediately for
+   *   non-retryable errors and while the circuit is open
+   */
+  async run<T>(texts: string[], call: () => Promise<T>): Promise<T> {
+    const cost = this.tokens
+      ? texts.reduce((sum, text) => sum + this.tokenizer.count(text), 0)
+      : 0;
+
+    for (let attempt = 1; ; attempt++) {
+      this.admit();
+      await this.throttle(cost);
+
+      try {
+        const result = await call();
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!this.isRetryable(error)) {
+          // The provider answered, so it counts as healthy
+          this.recordSuccess();
+          throw error;
+        }
+        this.recordFailure();
+        if (attempt > this.maxRetries || this.circuit === "open") {
+          throw error;
+        }
+
+        const delayMs = this.backoff(attempt);
+        this.events?.emit("provider:retrying", {
+          provider: this.name,
+          attempt,
+          delayMs,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Current breaker and bucket state
+   */
+  getState(): ProviderGuardState {
+    return {
+      circuit: this.circuit,
+      consecutiveFailures: this.consecutiveFailures,
+      availableRequests: this.requests ? this.requests.tokens : null,
+      availableTokens: this.tokens ? this.tokens.tokens : null,
+    };
+  }
+
+  /**
+   * Throw while the circuit is open; after the cooldown, let a single
+   * trial call through
+   */
+  private admit(): void {
+    if (this.circuit === "closed") return;
+
+    if (
+      this.circuit === "open" &&
+      Date.now() - this.openedAt >= this.cooldownMs
+    ) {
+      this.setCircuit("half_open");
+    }
+    if (this.circuit === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new Error(
+      `Circuit open for provider ${this.name} after ${this.consecutiveFailures} consecutive failures`,
+    );
+  }
+
+  private async throttle(cost: number): Promise<void> {
+    await this.requests?.acquire(1, (waitMs) =>
+      this.limited("requests", waitMs),
+    );
+    if (cost > 0) {
+      await this.tokens?.acquire(cost, (waitMs) =>
+        this.limited("tokens", waitMs),
+      );
+    }
+  }
+
+  private limited(limit: "requests" | "tokens", waitMs: number): void {
+    this.events?.emit("provider:rate_limited", {
+      provider: this.name,
+      limit,
+      waitMs,
+    });
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.circuit !== "closed") this.setCircuit("closed");
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (
+      this.circuit === "half_open" ||
+      (this.circuit === "closed" &&
+        this.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.setCircuit("open");
+    }
+  }
+
+  private setCircuit(state: CircuitState): void {
+    this.circuit = state;
+    this.events?.emit("provider:circuit_changed", {
+      provider: this.name,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+    });
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+// =============================================================================
+// Error Classification
+// =============================================================================
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * HTTP status of a provider error: an SDK `status` field, or the
+ * `(429)` in messages like "Voyage AI API error (429): ..."
+ */
+export function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === "number") return status;
+
+  const message = error instanceof Error ? error.message : "";
+  const match = message.match(/\((\d{3})\)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Rate limits, timeouts, server errors and network failures are retryable
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const cause = (error as { cause?: unknown } | null)?.cause;
+  const code =
+    (error as { code?: unknown } | null)?.code ??
+    (cause as { code?: unknown } | null)?.code;
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  // fetch() rejects with a TypeError when the connection fails
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
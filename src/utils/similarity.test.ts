@@ -159,6 +159,58 @@ describe("BM25Scorer", () => {
     expect(scores[0]).toBeGreaterThan(0);
   });
 
+  it("adds and removes documents incrementally by id", () => {
+    const scorer = new BM25Scorer();
+    scorer.addDocument("a", "alpha beta");
+    scorer.addDocument("b", "beta gamma delta");
+    expect(scorer.size).toBe(2);
+    expect(scorer.avgDocLength).toBe(2.5);
+
+    expect(scorer.topKById("gamma", 5)).toEqual([
+      ["b", expect.any(Number)],
+    ]);
+
+    scorer.removeDocument("b");
+    expect(scorer.size).toBe(1);
+    expect(scorer.avgDocLength).toBe(2);
+    expect(scorer.idf("gamma")).toBe(0);
+    expect(scorer.topKById("gamma", 5)).toEqual([]);
+  });
+
+  it("incremental scores match a full rebuild", () => {
+    const docs = ["the cat sat", "the dog ran far", "a cat and a dog"];
+    const rebuilt = new BM25Scorer();
+    rebuilt.addDocuments(docs);
+
+    const incremental = new BM25Scorer();
+    incremental.addDocument("x", "temporary document about cats");
+    docs.forEach((d, i) => incremental.addDocument(String(i), d));
+    incremental.removeDocument("x");
+
+    const expected = rebuilt.scoreDocuments("cat dog");
+    const actual = incremental.scoreDocuments("cat dog");
+    for (const [id, score] of expected) {
+      expect(actual.get(id)).toBeCloseTo(score, 10);
+    }
+  });
+
+  it("replaces a document re-added under the same id", () => {
+    const scorer = new BM25Scorer();
+    scorer.addDocument("a", "apple");
+    scorer.addDocument("a", "banana");
+    expect(scorer.size).toBe(1);
+    expect(scorer.topKById("apple", 1)).toEqual([]);
+    expect(scorer.topKById("banana", 1)[0][0]).toBe("a");
+  });
+
+  it("topKById skips ids rejected by the filter", () => {
+    const scorer = new BM25Scorer();
+    scorer.addDocument("a", "apple pie");
+    scorer.addDocument("b", "apple tart");
+    const results = scorer.topKById("apple", 5, (id) => id !== "a");
+    expect(results.map(([id]) => id)).toEqual(["b"]);
+  });
+
   it("respects custom k1 and b parameters", () => {
     const scorer1 = new BM25Scorer({ k1: 1.2, b: 0.75 });
     const scorer2 = new BM25Scorer({ k1: 2.0, b: 0.0 });
@@ -177,6 +229,22 @@ describe("BM25Scorer", () => {
     );
   });
 
+  it("weights fielded documents and skips zero-weight fields", () => {
+    const scorer = new BM25Scorer();
+    scorer.addFieldedDocument("a", [
+      { text: "coffee with friends", weight: 1 },
+      { text: "espresso", weight: 2 },
+    ]);
+    scorer.addFieldedDocument("b", [
+      { text: "espresso at home", weight: 1 },
+      { text: "tennis", weight: 0 },
+    ]);
+
+    const [[top]] = scorer.topKById("espresso", 2);
+    expect(top).toBe("a");
+    expect(scorer.topKById("tennis", 2)).toEqual([]);
+  });
+
   it("handles single document", () => {
     const scorer = new BM25Scorer();
     scorer.addDocuments(["only document"]);
@@ -66,23 +66,42 @@ export interface BM25Params {
 }
 
 /**
- * Simple BM25 scorer for keyword matching
+ * A weighted text field of a BM25 document
+ */
+export interface BM25Field {
+  text: string;
+  /** Multiplier for term frequencies and length (1 = plain text) */
+  weight: number;
+}
+
+/**
+ * Per-document statistics kept by the BM25 index
+ */
+interface BM25Document {
+  length: number;
+  termFreq: Map<string, number>;
+}
+
+/**
+ * Incremental BM25 scorer for keyword matching
+ *
+ * Documents are keyed by ID and can be added or removed one at a time.
+ * Document frequencies, IDF and average document length are maintained
+ * as the corpus changes, and queries only visit documents in the posting
+ * lists of their terms.
  *
  * Reference: Robertson & Zaragoza, 2009
  */
 export class BM25Scorer {
   private k1: number;
   private b: number;
-  private documents: string[][];
-  private avgDocLength: number;
-  private idf: Map<string, number>;
+  private documents: Map<string, BM25Document> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
 
   constructor(params: BM25Params = {}) {
     this.k1 = params.k1 ?? 1.2;
     this.b = params.b ?? 0.75;
-    this.documents = [];
-    this.avgDocLength = 0;
-    this.idf = new Map();
   }
 
   /**
@@ -97,70 +116,156 @@ export class BM25Scorer {
   }
 
   /**
-   * Add documents to build the index
+   * Number of indexed documents
    */
-  addDocuments(docs: string[]): void {
-    this.documents = docs.map((d) => this.tokenize(d));
-
-    // Calculate average document length
-    const totalLength = this.documents.reduce(
-      (sum, doc) => sum + doc.length,
-      0,
-    );
-    this.avgDocLength = totalLength / this.documents.length || 1;
-
-    // Calculate IDF for each term
-    const docFreq = new Map<string, number>();
-    for (const doc of this.documents) {
-      const uniqueTerms = new Set(doc);
-      for (const term of uniqueTerms) {
-        docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Average document length in tokens
+   */
+  get avgDocLength(): number {
+    return this.totalLength / this.documents.size || 1;
+  }
+
+  /**
+   * Inverse document frequency of a term (with smoothing)
+   */
+  idf(term: string): number {
+    const df = this.postings.get(term)?.size ?? 0;
+    if (df === 0) return 0;
+
+    const N = this.documents.size;
+    return Math.log((N - df + 0.5) / (df + 0.5) + 1);
+  }
+
+  /**
+   * Add or replace a single document
+   */
+  addDocument(id: string, text: string): void {
+    this.addFieldedDocument(id, [{ text, weight: 1 }]);
+  }
+
+  /**
+   * Add or replace a document made of weighted fields
+   *
+   * Each field's term counts and length are multiplied by its weight
+   * (a simplified BM25F), so a term in a field with weight 2 counts twice.
+   * Fields with weight 0 are ignored.
+   */
+  addFieldedDocument(id: string, fields: BM25Field[]): void {
+    if (this.documents.has(id)) {
+      this.removeDocument(id);
+    }
+
+    const termFreq = new Map<string, number>();
+    let length = 0;
+    for (const { text, weight } of fields) {
+      if (weight <= 0) continue;
+      for (const term of this.tokenize(text)) {
+        termFreq.set(term, (termFreq.get(term) ?? 0) + weight);
+        length += weight;
       }
     }
 
-    const N = this.documents.length;
-    for (const [term, df] of docFreq) {
-      // IDF with smoothing
-      const idf = Math.log((N - df + 0.5) / (df + 0.5) + 1);
-      this.idf.set(term, idf);
+    this.documents.set(id, { length, termFreq });
+    this.totalLength += length;
+
+    for (const term of termFreq.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
     }
   }
 
   /**
-   * Score a query against all documents
+   * Remove a document (no-op if absent)
+   */
+  removeDocument(id: string): void {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+
+    this.documents.delete(id);
+    this.totalLength -= doc.length;
+
+    for (const term of doc.termFreq.keys()) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+      ids.delete(id);
+      if (ids.size === 0) this.postings.delete(term);
+    }
+  }
+
+  /**
+   * Check whether a document is indexed
+   */
+  hasDocument(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Remove all documents
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Replace the corpus with the given documents.
+   * Documents are keyed by their position ("0", "1", ...).
+   */
+  addDocuments(docs: string[]): void {
+    this.clear();
+    docs.forEach((doc, i) => this.addDocument(String(i), doc));
+  }
+
+  /**
+   * Score a query against the documents containing its terms
    *
    * @param query Query string
-   * @returns Array of scores (same length as documents)
+   * @returns Map of document ID to score (documents scoring 0 are omitted)
    */
-  score(query: string): number[] {
-    const queryTerms = this.tokenize(query);
+  scoreDocuments(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const avgDocLength = this.avgDocLength;
 
-    return this.documents.map((doc) => {
-      let score = 0;
-      const docLength = doc.length;
+    for (const term of this.tokenize(query)) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
 
-      // Count term frequencies in document
-      const termFreq = new Map<string, number>();
-      for (const term of doc) {
-        termFreq.set(term, (termFreq.get(term) ?? 0) + 1);
-      }
+      const idf = this.idf(term);
+      if (idf <= 0) continue;
+
+      for (const id of ids) {
+        const doc = this.documents.get(id)!;
+        const tf = doc.termFreq.get(term) ?? 0;
 
-      for (const term of queryTerms) {
-        const tf = termFreq.get(term) ?? 0;
-        const idf = this.idf.get(term) ?? 0;
-
-        if (tf > 0 && idf > 0) {
-          // BM25 term score
-          const numerator = tf * (this.k1 + 1);
-          const denominator =
-            tf +
-            this.k1 * (1 - this.b + this.b * (docLength / this.avgDocLength));
-          score += idf * (numerator / denominator);
-        }
+        // BM25 term score
+        const numerator = tf * (this.k1 + 1);
+        const denominator =
+          tf + this.k1 * (1 - this.b + this.b * (doc.length / avgDocLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * (numerator / denominator));
       }
+    }
+
+    return scores;
+  }
 
-      return score;
-    });
+  /**
+   * Score a query against all documents
+   *
+   * @param query Query string
+   * @returns Array of scores, one per document in insertion order
+   */
+  score(query: string): number[] {
+    const scores = this.scoreDocuments(query);
+    return Array.from(this.documents.keys(), (id) => scores.get(id) ?? 0);
   }
 
   /**
@@ -168,7 +273,7 @@ export class BM25Scorer {
    *
    * @param query Query string
    * @param k Number of results
-   * @returns Array of [index, score] pairs
+   * @returns Array of [index, score] pairs (index in insertion order)
    */
   topK(query: string, k: number): Array<[number, number]> {
     const scores = this.score(query);
@@ -179,6 +284,25 @@ export class BM25Scorer {
       .sort((a, b) => b[1] - a[1])
       .slice(0, k);
   }
+
+  /**
+   * Get top-k documents by score, keyed by document ID
+   *
+   * @param query Query string
+   * @param k Number of results
+   * @param filter Optional predicate; rejected IDs are skipped
+   * @returns Array of [id, score] pairs
+   */
+  topKById(
+    query: string,
+    k: number,
+    filter?: (id: string) => boolean,
+  ): Array<[string, number]> {
+    return Array.from(this.scoreDocuments(query))
+      .filter(([id]) => !filter || filter(id))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
 }
 
 /**
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { BPETokenizer, ApproximateTokenizer, CL100K_PATTERN } from "./tokenizer";
+
+/**
+ * Rank file with every single byte plus a few merges
+ */
+function makeTiktoken(merges: string[]): string {
+  const lines: string[] = [];
+  for (let i = 0; i < 256; i++) {
+    lines.push(`${btoa(String.fromCharCode(i))} ${i}`);
+  }
+  merges.forEach((merge, i) => lines.push(`${btoa(merge)} ${256 + i}`));
+  return lines.join("\n");
+}
+
+describe("CL100K_PATTERN", () => {
+  it("splits words with their leading space, contractions and digit groups", () => {
+    expect("I'm at 12345 Main St.".match(CL100K_PATTERN)).toEqual([
+      "I",
+      "'m",
+      " at",
+      " ",
+      "123",
+      "45",
+      " Main",
+      " St",
+      ".",
+    ]);
+  });
+});
+
+describe("BPETokenizer", () => {
+  const tokenizer = BPETokenizer.fromTiktoken(
+    makeTiktoken(["ab", "abab", " c", " cd"]),
+  );
+
+  it("applies merges in rank order", () => {
+    expect(tokenizer.encode("abab")).toEqual([257]);
+    expect(tokenizer.encode("ababa")).toEqual([257, 97]);
+    expect(tokenizer.encode("x cd")).toEqual([120, 259]);
+  });
+
+  it("round-trips multi-byte text", () => {
+    const text = "héllo 世界 ababab";
+    expect(tokenizer.decode(tokenizer.encode(text))).toBe(text);
+    expect(tokenizer.count("abab cd")).toBe(2);
+  });
+
+  it("truncates without splitting characters", () => {
+    // "世" is three byte-level tokens
+    expect(tokenizer.truncate("ab世", 2)).toBe("ab");
+    expect(tokenizer.truncate("abab cd", 5)).toBe("abab cd");
+    expect(tokenizer.truncate("abab cd", 0)).toBe("");
+  });
+
+  it("rejects unknown token IDs", () => {
+    expect(() => tokenizer.decode([999])).toThrow(/999/);
+  });
+});
+
+describe("ApproximateTokenizer", () => {
+  const tokenizer = new ApproximateTokenizer();
+
+  it("counts short words as single tokens", () => {
+    expect(tokenizer.count("Alice meets Bob")).toBe(3);
+    expect(tokenizer.count("")).toBe(0);
+  });
+
+  it("truncates on piece boundaries", () => {
+    const truncated = tokenizer.truncate("one two three four", 2);
+    expect(truncated).toBe("one two");
+    expect(tokenizer.count(truncated)).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tokenizers
+ *
+ * `BPETokenizer` is a dependency-free byte-level BPE encoder compatible with
+ * tiktoken rank files (cl100k_base, o200k_base, ...). It runs offline from a
+ * local `.tiktoken` file. `ApproximateTokenizer` needs no vocabulary and is
+ * the default: it splits text with the same pre-tokenizer and estimates
+ * tokens per piece. No vocabulary ships with the package, so unless a
+ * BPETokenizer is configured, token budgets and reported counts are
+ * estimates that can be off by a fair margin for code, numbers or
+ * non-English text.
+ */
+
+import type { Tokenizer } from "../types/index.js";
+import { LRUCache } from "./lru.js";
+
+/** cl100k_base pre-tokenization pattern */
+export const CL100K_PATTERN =
+  /'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Split text into pre-tokenization pieces
+ */
+function splitPieces(text: string, pattern: RegExp): string[] {
+  return text.match(new RegExp(pattern.source, pattern.flags)) ?? [];
+}
+
+// =============================================================================
+// BPE Tokenizer
+// =============================================================================
+
+export interface BPETokenizerOptions {
+  /**
+   * Token byte sequences (as latin1 strings) mapped to their merge rank
+   */
+  ranks: Map<string, number>;
+
+  /**
+   * Pre-tokenization pattern (must be global)
+   * @default CL100K_PATTERN
+   */
+  pattern?: RegExp;
+
+  /**
+   * Encoded pieces kept in memory
+   * @default 10000
+   */
+  cacheSize?: number;
+}
+
+/**
+ * Byte-level BPE tokenizer using tiktoken-format merge ranks
+ */
+export class BPETokenizer implements Tokenizer {
+  private encoder: Map<string, number>;
+  private decoder: Map<number, string> = new Map();
+  private pattern: RegExp;
+  private cache: LRUCache<string, number[]>;
+
+  constructor(options: BPETokenizerOptions) {
+    this.encoder = options.ranks;
+    this.pattern = options.pattern ?? CL100K_PATTERN;
+    this.cache = new LRUCache(options.cacheSize ?? 10000);
+
+    for (const [bytes, rank] of this.encoder) {
+      this.decoder.set(rank, bytes);
+    }
+  }
+
+  /**
+   * Create a tokenizer from the contents of a `.tiktoken` rank file
+   * (one `<base64 token> <rank>` pair per line)
+   */
+  static fromTiktoken(
+    data: string,
+    options: Omit<BPETokenizerOptions, "ranks"> = {},
+  ): BPETokenizer {
+    const ranks = new Map<string, number>();
+    for (const line of data.split("\n")) {
+      const [token, rank] = line.trim().split(" ");
+      if (!token || rank === undefined) continue;
+      ranks.set(atob(token), Number(rank));
+    }
+    return new BPETokenizer({ ...options, ranks });
+  }
+
+  /**
+   * Load a tokenizer from a local `.tiktoken` rank file
+   */
+  static async fromFile(
+    path: string,
+    options: Omit<BPETokenizerOptions, "ranks"> = {},
+  ): Promise<BPETokenizer> {
+    const { readFile } = await (Function(
+      'return import("node:fs/promises")',
+    )() as Promise<typeof import("node:fs/promises")>);
+    return BPETokenizer.fromTiktoken(await readFile(path, "utf-8"), options);
+  }
+
+  /**
+   * Encode text to token IDs
+   */
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const piece of splitPieces(text, this.pattern)) {
+      let encoded = this.cache.get(piece);
+      if (!encoded) {
+        encoded = this.encodePiece(toLatin1(piece));
+        this.cache.set(piece, encoded);
+      }
+      tokens.push(...encoded);
+    }
+    return tokens;
+  }
+
+  /**
+   * Decode token IDs to text
+   */
+  decode(tokens: number[]): string {
+    let bytes = "";
+    for (const token of tokens) {
+      const piece = this.decoder.get(token);
+      if (piece === undefined) throw new Error(`Unknown token ID: ${token}`);
+      bytes += piece;
+    }
+    return fromLatin1(bytes);
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    if (maxTokens <= 0) return "";
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) return text;
+
+    // Drop a partial multi-byte character left by the cut
+    return this.decode(tokens.slice(0, maxTokens)).replace(/\uFFFD+$/, "");
+  }
+
+  /**
+   * Merge the bytes of one piece, lowest rank first
+   */
+  private encodePiece(bytes: string): number[] {
+    const whole = this.encoder.get(bytes);
+    if (whole !== undefined) return [whole];
+
+    // Boundaries between current parts, with the rank of merging each
+    // part with its right neighbour
+    const starts: number[] = [];
+    for (let i = 0; i <= bytes.length; i++) starts.push(i);
+    const pairRank = (i: number): number =>
+      i + 2 < starts.length
+        ? (this.encoder.get(bytes.slice(starts[i], starts[i + 2])) ?? Infinity)
+        : Infinity;
+    const ranks = starts.map((_, i) => pairRank(i));
+
+    while (starts.length > 2) {
+      let best = 0;
+      for (let i = 1; i < ranks.length; i++) {
+        if (ranks[i] < ranks[best]) best = i;
+      }
+      if (ranks[best] === Infinity) break;
+
+      starts.splice(best + 1, 1);
+      ranks.splice(best + 1, 1);
+      ranks[best] = pairRank(best);
+      if (best > 0) ranks[best - 1] = pairRank(best - 1);
+    }
+
+    const tokens: number[] = [];
+    for (let i = 0; i + 1 < starts.length; i++) {
+      const part = bytes.slice(starts[i], starts[i + 1]);
+      const rank = this.encoder.get(part);
+      if (rank === undefined) {
+        throw new Error(
+          `Byte sequence missing from BPE ranks: ${JSON.stringify(part)}`,
+        );
+      }
+      tokens.push(rank);
+    }
+    return tokens;
+  }
+}
+
+/**
+ * UTF-8 bytes of a string as a latin1 string (one char per byte)
+ */
+function toLatin1(text: string): string {
+  let result = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    result += String.fromCharCode(byte);
+  }
+  return result;
+}
+
+/**
+ * Inverse of toLatin1
+ */
+function fromLatin1(bytes: string): string {
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+  return new TextDecoder().decode(buffer);
+}
+
+// =============================================================================
+// Approximate Tokenizer
+// =============================================================================
+
+/**
+ * Vocabulary-free tokenizer
+ *
+ * Uses the cl100k pre-tokenizer and counts roughly one token per six ASCII
+ * characters of a piece and one per non-ASCII character, which slightly
+ * overestimates real BPE counts for English text.
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  count(text: string): number {
+    let total = 0;
+    for (const piece of splitPieces(text, CL100K_PATTERN)) {
+      total += pieceTokens(piece);
+    }
+    return total;
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    let used = 0;
+    let result = "";
+    for (const piece of splitPieces(text, CL100K_PATTERN)) {
+      used += pieceTokens(piece);
+      if (used > maxTokens) break;
+      result += piece;
+    }
+    return result;
+  }
+}
+
+function pieceTokens(piece: string): number {
+  const trimmed = piece.trim();
+  if (trimmed.length === 0) return 1;
+
+  let ascii = true;
+  for (let i = 0; i < trimmed.length && ascii; i++) {
+    ascii = trimmed.charCodeAt(i) < 128;
+  }
+  if (ascii) {
+    return Math.ceil(trimmed.length / 6);
+  }
+  return [...trimmed].length;
+}
+
+/**
+ * Tokenizer used when none is configured. Its counts are estimates, not
+ * the counts of any model's vocabulary.
+ */
+export const defaultTokenizer: Tokenizer = new ApproximateTokenizer();
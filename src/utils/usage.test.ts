@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { UsageTracker, type UsageRecord } from "./usage";
+
+function llmCall(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    kind: "llm",
+    model: "gpt-test",
+    inputTokens: 1000,
+    completionTokens: 200,
+    latencyMs: 5,
+    ...overrides,
+  };
+}
+
+describe("UsageTracker", () => {
+  it("prices calls by model, falling back to the '*' entry", () => {
+    const tracker = new UsageTracker({
+      prices: { "gpt-test": { input: 1, output: 4 }, "*": { input: 10 } },
+    });
+
+    expect(tracker.cost(llmCall())).toBeCloseTo(0.0018);
+    expect(tracker.cost(llmCall({ model: "other" }))).toBeCloseTo(0.012);
+    expect(new UsageTracker().cost(llmCall())).toBe(0);
+  });
+
+  it("accounts concurrent operations separately", async () => {
+    const finished: Array<[string, number]> = [];
+    const tracker = new UsageTracker({
+      onOperation: (operation, usage) =>
+        finished.push([operation, usage.llmCalls]),
+    });
+    const delay = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    const [ask, add] = await Promise.all([
+      tracker.track("ask", async () => {
+        tracker.record(llmCall());
+        await delay(10);
+        tracker.record(llmCall());
+      }),
+      tracker.track("addText", async () => {
+        await delay(5);
+        tracker.record(llmCall({ kind: "embedding", completionTokens: 0 }));
+      }),
+    ]);
+
+    expect(ask.usage.llmCalls).toBe(2);
+    expect(ask.usage.embeddingCalls).toBe(0);
+    expect(add.usage).toMatchObject({ embeddingCalls: 1, llmCalls: 0 });
+    expect(add.usage.embeddingTokens).toBe(1000);
+    expect(finished).toEqual([
+      ["addText", 0],
+      ["ask", 2],
+    ]);
+
+    tracker.record(llmCall());
+    expect(tracker.totals().llmCalls).toBe(3);
+    expect(Object.keys(tracker.byOperation())).toEqual([
+      "ask",
+      "addText",
+      "other",
+    ]);
+  });
+
+  it("counts nested operations towards the outer one", async () => {
+    const finished: string[] = [];
+    const tracker = new UsageTracker({
+      onOperation: (operation) => finished.push(operation),
+    });
+
+    const { usage } = await tracker.track("addDocument", async () => {
+      await tracker.track("addText", async () => tracker.record(llmCall()));
+      tracker.record(llmCall());
+    });
+
+    expect(usage.llmCalls).toBe(2);
+    expect(finished).toEqual(["addDocument"]);
+  });
+
+  it("tracks async iterables across yields", async () => {
+    const tracker = new UsageTracker();
+    async function* steps() {
+      tracker.record(llmCall());
+      yield "first";
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      tracker.record(llmCall());
+      yield "second";
+    }
+
+    const events = tracker.trackIterable("ask", steps());
+    const items: string[] = [];
+    let next = await events.next();
+    while (!next.done) {
+      items.push(next.value);
+      next = await events.next();
+    }
+
+    expect(items).toEqual(["first", "second"]);
+    expect(next.value.llmCalls).toBe(2);
+    expect(tracker.byOperation().ask.llmCalls).toBe(2);
+  });
+});
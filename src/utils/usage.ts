@@ -0,0 +1,417 @@
+/**
+ * Usage Accounting
+ *
+ * Collects provider calls, estimated tokens, latency and cost, both in
+ * running totals and per operation. Operations are scoped with
+ * AsyncLocalStorage where the runtime provides it (Node.js, Bun, Deno), so
+ * concurrent operations on one instance are counted separately. Elsewhere
+ * every operation gets its own scope, and calls are attributed to one only
+ * while it is the only operation running.
+ *
+ * Providers report each request they send with reportLLMRequest(), so
+ * retries and structured-output re-prompts are counted, and token counts
+ * the API returns replace estimates. Embedding caches report the texts
+ * they send with reportEmbeddingRequest(), so cache hits are not counted.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type {
+  LLMCompletionOptions,
+  ModelPrice,
+  Tokenizer,
+  UsageStats,
+} from "../types/index.js";
+import { defaultTokenizer } from "./tokenizer.js";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface UsageTrackerOptions {
+  /**
+   * Prices by model name. An entry named "*" prices models without their
+   * own entry.
+   * @default {}
+   */
+  prices?: Record<string, ModelPrice>;
+
+  /**
+   * Tokenizer used to estimate token counts
+   * @default defaultTokenizer
+   */
+  tokenizer?: Tokenizer;
+
+  /**
+   * Called when a top-level operation finishes
+   */
+  onOperation?: (operation: string, usage: UsageStats) => void;
+}
+
+/**
+ * One provider call
+ */
+export interface UsageRecord {
+  kind: "llm" | "embedding";
+  model?: string;
+  /** Prompt tokens, or input tokens of an embedding request */
+  inputTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}
+
+/**
+ * One request sent by an LLM provider
+ */
+export interface LLMRequestReport {
+  /** Prompt and system prompt sent, to estimate missing token counts */
+  input: string;
+  /** Completion text received; empty if the request failed */
+  output: string;
+  /** Prompt tokens reported by the API */
+  promptTokens?: number;
+  /** Completion tokens reported by the API */
+  completionTokens?: number;
+  latencyMs: number;
+}
+
+/**
+ * One request sent to an embedding provider on behalf of a cache
+ */
+export interface EmbeddingRequestReport {
+  /** Texts sent; empty if every text was served from the cache */
+  texts: string[];
+  latencyMs: number;
+}
+
+/**
+ * Completion text of a provider request and the token counts the API
+ * returned with it
+ */
+export interface LLMRequestResult {
+  text: string;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/** Operation name for calls made outside any tracked operation */
+const UNTRACKED_OPERATION = "other";
+
+// =============================================================================
+// Async Context
+// =============================================================================
+
+interface UsageScope {
+  tracker: UsageTracker;
+  operation: string;
+  usage: UsageStats;
+}
+
+interface UsageContext {
+  scope?: UsageScope;
+  /** Requests reported during the innermost metered call */
+  requests?: LLMRequestReport[];
+  /** Embedding requests reported during the innermost metered call */
+  embeddingRequests?: EmbeddingRequestReport[];
+}
+
+interface AsyncContext {
+  run<R>(store: UsageContext, fn: () => R): R;
+  exit<R>(fn: () => R): R;
+  getStore(): UsageContext | undefined;
+}
+
+/** Null where the runtime cannot provide AsyncLocalStorage */
+const asyncContext: AsyncContext | null = createAsyncContext();
+
+/** Metered calls in progress, used when AsyncLocalStorage is unavailable */
+const openMeters: UsageContext[] = [];
+
+function createAsyncContext(): AsyncContext | null {
+  try {
+    return new AsyncLocalStorage<UsageContext>();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Context of the current call. Without AsyncLocalStorage, reports reach a
+ * metered call only while it is the only one in progress.
+ */
+function currentContext(): UsageContext | undefined {
+  if (asyncContext) return asyncContext.getStore();
+  return openMeters.length === 1 ? openMeters[0] : undefined;
+}
+
+// =============================================================================
+// Usage Tracker
+// =============================================================================
+
+/**
+ * Running and per-operation usage of the providers it meters
+ */
+export class UsageTracker {
+  readonly tokenizer: Tokenizer;
+  private prices: Record<string, ModelPrice>;
+  private onOperation?: (operation: string, usage: UsageStats) => void;
+  private total: UsageStats = emptyUsage();
+  private operations: Map<string, UsageStats> = new Map();
+  /** Open scopes, used when AsyncLocalStorage is unavailable */
+  private open: UsageScope[] = [];
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.tokenizer = options.tokenizer ?? defaultTokenizer;
+    this.prices = options.prices ?? {};
+    this.onOperation = options.onOperation;
+  }
+
+  /**
+   * Run an operation and collect the usage of the calls it makes.
+   * Operations started inside another operation count towards it where
+   * AsyncLocalStorage is available.
+   */
+  async track<T>(
+    operation: string,
+    fn: () => Promise<T>,
+  ): Promise<{ result: T; usage: UsageStats }> {
+    const parent = this.parentScope();
+    if (parent) {
+      return { result: await fn(), usage: { ...parent.usage } };
+    }
+
+    const scope = this.openScope(operation);
+    try {
+      const result = asyncContext
+        ? await asyncContext.run({ scope }, fn)
+        : await fn();
+      return { result, usage: { ...scope.usage } };
+    } finally {
+      this.closeScope(scope);
+    }
+  }
+
+  /**
+   * Iterate an async iterable as one operation, resuming it inside the
+   * operation's scope
+   *
+   * @returns Usage of the operation, as the generator's return value
+   */
+  async *trackIterable<T>(
+    operation: string,
+    iterable: AsyncIterable<T>,
+  ): AsyncGenerator<T, UsageStats> {
+    const parent = this.parentScope();
+    if (parent) {
+      yield* iterable;
+      return { ...parent.usage };
+    }
+
+    const scope = this.openScope(operation);
+    const iterator = iterable[Symbol.asyncIterator]();
+    try {
+      while (true) {
+        const next = asyncContext
+          ? await asyncContext.run({ scope }, () => iterator.next())
+          : await iterator.next();
+        if (next.done) return { ...scope.usage };
+        yield next.value;
+      }
+    } finally {
+      await iterator.return?.();
+      this.closeScope(scope);
+    }
+  }
+
+  /**
+   * Wrap a callback so that it runs outside any operation. Timers armed
+   * inside an operation use it to account their calls separately.
+   */
+  detach<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+    return (...args) =>
+      asyncContext ? asyncContext.exit(() => fn(...args)) : fn(...args);
+  }
+
+  /**
+   * Run a provider call, collecting the requests its provider reports.
+   * `settle` receives them, also when the call fails. They are empty if
+   * the provider reports none, or if the runtime lacks AsyncLocalStorage
+   * and other metered calls are in progress.
+   */
+  async meter<T>(
+    fn: () => Promise<T>,
+    settle: (
+      requests: LLMRequestReport[],
+      embeddingRequests: EmbeddingRequestReport[],
+    ) => void,
+  ): Promise<T> {
+    const requests: LLMRequestReport[] = [];
+    const embeddingRequests: EmbeddingRequestReport[] = [];
+    const store = { ...currentContext(), requests, embeddingRequests };
+    if (!asyncContext) openMeters.push(store);
+    try {
+      return asyncContext ? await asyncContext.run(store, fn) : await fn();
+    } finally {
+      if (!asyncContext) openMeters.splice(openMeters.indexOf(store), 1);
+      settle(requests, embeddingRequests);
+    }
+  }
+
+  /**
+   * Record a provider call in the totals and the current operation
+   */
+  record(record: UsageRecord): void {
+    const scope = this.currentScope();
+    const operation = scope?.operation ?? UNTRACKED_OPERATION;
+    if (!this.operations.has(operation)) {
+      this.operations.set(operation, emptyUsage());
+    }
+
+    const targets = [this.total, this.operations.get(operation)!];
+    if (scope) targets.push(scope.usage);
+    for (const usage of targets) {
+      this.add(usage, record);
+    }
+  }
+
+  /**
+   * Estimated cost of a call under the price table
+   */
+  cost(record: UsageRecord): number {
+    const price = record.model
+      ? (this.prices[record.model] ?? this.prices["*"])
+      : this.prices["*"];
+    if (!price) return 0;
+    return (
+      (record.inputTokens * price.input +
+        record.completionTokens * (price.output ?? price.input)) /
+      1000000
+    );
+  }
+
+  /**
+   * Usage since creation or the last reset()
+   */
+  totals(): UsageStats {
+    return { ...this.total };
+  }
+
+  /**
+   * Usage per operation name since creation or the last reset()
+   */
+  byOperation(): Record<string, UsageStats> {
+    return Object.fromEntries(
+      [...this.operations].map(([name, usage]) => [name, { ...usage }]),
+    );
+  }
+
+  reset(): void {
+    this.total = emptyUsage();
+    this.operations.clear();
+  }
+
+  private openScope(operation: string): UsageScope {
+    const scope: UsageScope = {
+      tracker: this,
+      operation,
+      usage: emptyUsage(),
+    };
+    this.open.push(scope);
+    return scope;
+  }
+
+  private closeScope(scope: UsageScope): void {
+    this.open.splice(this.open.indexOf(scope), 1);
+    this.onOperation?.(scope.operation, { ...scope.usage });
+  }
+
+  private currentScope(): UsageScope | undefined {
+    if (asyncContext) {
+      const scope = asyncContext.getStore()?.scope;
+      return scope?.tracker === this ? scope : undefined;
+    }
+    return this.open.length === 1 ? this.open[0] : undefined;
+  }
+
+  /**
+   * Operation a new operation is nested in. Without AsyncLocalStorage a
+   * nested operation cannot be told from a concurrent one, so there is none.
+   */
+  private parentScope(): UsageScope | undefined {
+    return asyncContext ? this.currentScope() : undefined;
+  }
+
+  private add(usage: UsageStats, record: UsageRecord): void {
+    if (record.kind === "llm") {
+      usage.llmCalls++;
+      usage.promptTokens += record.inputTokens;
+      usage.completionTokens += record.completionTokens;
+    } else {
+      usage.embeddingCalls++;
+      usage.embeddingTokens += record.inputTokens;
+    }
+    usage.latencyMs += record.latencyMs;
+    usage.cost += this.cost(record);
+  }
+}
+
+/**
+ * Report a request sent by an LLM provider to the metered call it belongs
+ * to. Without one, the report is dropped.
+ */
+export function reportLLMRequest(report: LLMRequestReport): void {
+  currentContext()?.requests?.push(report);
+}
+
+/**
+ * Report the texts an embedding cache sent to its provider in one embed()
+ * call, none if all were cached. Without a metered call, the report is
+ * dropped.
+ */
+export function reportEmbeddingRequest(report: EmbeddingRequestReport): void {
+  currentContext()?.embeddingRequests?.push(report);
+}
+
+/**
+ * Send one provider request and report it. `send` returns the completion
+ * text and the token counts the API returned, if any; failed requests are
+ * reported without a completion.
+ */
+export async function reportedRequest(
+  prompt: string,
+  options: LLMCompletionOptions | undefined,
+  send: () => Promise<LLMRequestResult>,
+): Promise<string> {
+  const started = Date.now();
+  const input = options?.systemPrompt
+    ? `${options.systemPrompt}\n\n${prompt}`
+    : prompt;
+  try {
+    const { text, promptTokens, completionTokens } = await send();
+    reportLLMRequest({
+      input,
+      output: text,
+      promptTokens,
+      completionTokens,
+      latencyMs: Date.now() - started,
+    });
+    return text;
+  } catch (error) {
+    reportLLMRequest({ input, output: "", latencyMs: Date.now() - started });
+    throw error;
+  }
+}
+
+/**
+ * Usage with every count at zero
+ */
+export function emptyUsage(): UsageStats {
+  return {
+    llmCalls: 0,
+    embeddingCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    embeddingTokens: 0,
+    latencyMs: 0,
+    cost: 0,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Brute-Force Vector Index
+ *
+ * Exact nearest-neighbour search by scoring every stored vector.
+ * Reference implementation for approximate indexes and the default
+ * for small memory stores.
+ */
+
+import type { VectorIndex, VectorSearchHit } from "../types/index.js";
+import { cosineSimilarity } from "../utils/similarity.js";
+
+/**
+ * Linear-scan vector index using cosine similarity
+ */
+export class BruteForceIndex implements VectorIndex {
+  private vectors: Map<string, number[]> = new Map();
+
+  add(id: string, vector: number[]): void {
+    this.vectors.set(id, vector);
+  }
+
+  remove(id: string): void {
+    this.vectors.delete(id);
+  }
+
+  search(
+    query: number[],
+    k: number,
+    filter?: (id: string) => boolean,
+  ): VectorSearchHit[] {
+    const hits: VectorSearchHit[] = [];
+    for (const [id, vector] of this.vectors) {
+      if (filter && !filter(id)) continue;
+      hits.push({ id, score: cosineSimilarity(query, vector) });
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  clear(): void {
+    this.vectors.clear();
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+}
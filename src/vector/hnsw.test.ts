@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { HNSWIndex } from "./hnsw";
+import { BruteForceIndex } from "./brute-force";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function randomVectors(count: number, dims: number, seed = 1): number[][] {
+  let s = seed;
+  const rand = () => {
+    s = (s * 16807) % 2147483647;
+    return s / 2147483647 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dims }, rand),
+  );
+}
+
+function recallAtK(
+  approx: HNSWIndex,
+  exact: BruteForceIndex,
+  queries: number[][],
+  k: number,
+): number {
+  let found = 0;
+  for (const q of queries) {
+    const truth = new Set(exact.search(q, k).map((h) => h.id));
+    for (const hit of approx.search(q, k)) {
+      if (truth.has(hit.id)) found++;
+    }
+  }
+  return found / (queries.length * k);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("HNSWIndex", () => {
+  const vectors = randomVectors(600, 16);
+  const queries = randomVectors(20, 16, 7);
+
+  function build(): { hnsw: HNSWIndex; exact: BruteForceIndex } {
+    const hnsw = new HNSWIndex({ M: 8, efConstruction: 100 });
+    const exact = new BruteForceIndex();
+    vectors.forEach((v, i) => {
+      hnsw.add(`u${i}`, v);
+      exact.add(`u${i}`, v);
+    });
+    return { hnsw, exact };
+  }
+
+  it("matches brute-force recall on random vectors", () => {
+    const { hnsw, exact } = build();
+    expect(hnsw.size).toBe(600);
+    expect(recallAtK(hnsw, exact, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("returns cosine similarity scores in descending order", () => {
+    const { hnsw, exact } = build();
+    const hits = hnsw.search(queries[0], 5);
+    const top = exact.search(queries[0], 1)[0];
+
+    expect(hits).toHaveLength(5);
+    expect(hits[0].id).toBe(top.id);
+    expect(hits[0].score).toBeCloseTo(top.score, 10);
+    for (let i = 1; i < hits.length; i++) {
+      expect(hits[i - 1].score).toBeGreaterThanOrEqual(hits[i].score);
+    }
+  });
+
+  it("keeps recall after removing half of the vectors", () => {
+    const { hnsw, exact } = build();
+    for (let i = 0; i < 600; i += 2) {
+      hnsw.remove(`u${i}`);
+      exact.remove(`u${i}`);
+    }
+
+    expect(hnsw.size).toBe(300);
+    const hits = hnsw.search(queries[0], 10);
+    expect(hits.every((h) => Number(h.id.slice(1)) % 2 === 1)).toBe(true);
+    expect(recallAtK(hnsw, exact, queries, 10)).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it("applies the filter and still returns k results", () => {
+    const { hnsw } = build();
+    const hits = hnsw.search(queries[0], 10, (id) => id.endsWith("7"));
+    expect(hits).toHaveLength(10);
+    expect(hits.every((h) => h.id.endsWith("7"))).toBe(true);
+  });
+
+  it("replaces vectors re-added under the same id", () => {
+    const hnsw = new HNSWIndex();
+    hnsw.add("a", [1, 0]);
+    hnsw.add("b", [0, 1]);
+    hnsw.add("a", [0, 1]);
+
+    expect(hnsw.size).toBe(2);
+    expect(hnsw.search([0, 1], 2).map((h) => h.score)).toEqual([1, 1]);
+  });
+
+  it("handles empty index, removal of the last node and clear", () => {
+    const hnsw = new HNSWIndex();
+    expect(hnsw.search([1, 0], 3)).toEqual([]);
+
+    hnsw.add("a", [1, 0]);
+    hnsw.remove("a");
+    expect(hnsw.search([1, 0], 3)).toEqual([]);
+
+    hnsw.add("b", [1, 0]);
+    hnsw.clear();
+    expect(hnsw.size).toBe(0);
+    expect(hnsw.search([1, 0], 3)).toEqual([]);
+  });
+});
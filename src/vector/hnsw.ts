@@ -0,0 +1,485 @@
+/**
+ * HNSW Vector Index
+ *
+ * Pure TypeScript Hierarchical Navigable Small World graph for approximate
+ * nearest-neighbour search. Runs in every runtime with no native deps.
+ *
+ * Reference: Malkov & Yashunin, "Efficient and robust approximate nearest
+ * neighbor search using Hierarchical Navigable Small World graphs" (2016)
+ */
+
+import type { VectorIndex, VectorSearchHit } from "../types/index.js";
+
+export interface HNSWOptions {
+  /**
+   * Max connections per node on upper layers (layer 0 uses 2·M).
+   * Higher M improves recall at the cost of memory and insert time.
+   * @default 16
+   */
+  M?: number;
+
+  /**
+   * Candidate list size while inserting. Higher builds a better graph.
+   * @default 200
+   */
+  efConstruction?: number;
+
+  /**
+   * Candidate list size while searching. Higher improves recall and
+   * increases latency. Can be changed at any time via `efSearch`.
+   * @default 50
+   */
+  efSearch?: number;
+
+  /**
+   * Seed for level generation, for reproducible graphs
+   * @default 42
+   */
+  seed?: number;
+}
+
+interface Candidate {
+  index: number;
+  distance: number;
+}
+
+interface HNSWNode {
+  id: string;
+  vector: Float64Array; // L2-normalized
+  level: number;
+  neighbors: number[][]; // Per layer, internal node indices
+}
+
+/**
+ * Approximate nearest-neighbour index using an HNSW graph.
+ * Scores are cosine similarities, matching BruteForceIndex.
+ */
+export class HNSWIndex implements VectorIndex {
+  private readonly M: number;
+  private readonly maxM0: number;
+  private readonly efConstruction: number;
+  private readonly levelMult: number;
+  private nodes: Array<HNSWNode | undefined> = [];
+  private idToIndex: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private rng: () => number;
+
+  /**
+   * Search-time candidate list size (recall/latency trade-off)
+   */
+  efSearch: number;
+
+  constructor(options: HNSWOptions = {}) {
+    this.M = Math.max(2, options.M ?? 16);
+    this.maxM0 = this.M * 2;
+    this.efConstruction = Math.max(options.efConstruction ?? 200, this.M);
+    this.efSearch = options.efSearch ?? 50;
+    this.levelMult = 1 / Math.log(this.M);
+    this.rng = mulberry32(options.seed ?? 42);
+  }
+
+  get size(): number {
+    return this.idToIndex.size;
+  }
+
+  add(id: string, vector: number[]): void {
+    if (this.idToIndex.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(1 - this.rng()) * this.levelMult);
+    const idx = this.nodes.length;
+    const node: HNSWNode = {
+      id,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    this.nodes.push(node);
+    this.idToIndex.set(id, idx);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = idx;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let ep = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      ep = this.greedyClosest(node.vector, ep, l);
+    }
+
+    // Connect on each layer from min(level, maxLevel) down to 0
+    let entryPoints = [ep];
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(
+        node.vector,
+        entryPoints,
+        this.efConstruction,
+        l,
+      );
+      const maxConn = l === 0 ? this.maxM0 : this.M;
+      node.neighbors[l] = this.selectNeighbors(candidates, this.M);
+
+      for (const n of node.neighbors[l]) {
+        const neighbor = this.nodes[n]!;
+        neighbor.neighbors[l].push(idx);
+        if (neighbor.neighbors[l].length > maxConn) {
+          this.shrinkConnections(n, l, maxConn);
+        }
+      }
+
+      entryPoints = candidates.map((c) => c.index);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = idx;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(id: string): void {
+    const idx = this.idToIndex.get(id);
+    if (idx === undefined) return;
+
+    const node = this.nodes[idx]!;
+    this.idToIndex.delete(id);
+    this.nodes[idx] = undefined;
+
+    // Unlink from neighbours and repair their connections using the
+    // removed node's neighbourhood, so the graph stays navigable
+    for (let l = 0; l <= node.level; l++) {
+      const maxConn = l === 0 ? this.maxM0 : this.M;
+      for (const n of node.neighbors[l]) {
+        const neighbor = this.nodes[n];
+        if (!neighbor) continue;
+
+        const pool = new Set(neighbor.neighbors[l]);
+        for (const m of node.neighbors[l]) pool.add(m);
+        pool.delete(idx);
+        pool.delete(n);
+
+        const candidates = [...pool]
+          .filter((m) => this.nodes[m] && this.nodes[m]!.level >= l)
+          .map((m) => ({
+            index: m,
+            distance: distance(neighbor.vector, this.nodes[m]!.vector),
+          }))
+          .sort((a, b) => a.distance - b.distance);
+
+        neighbor.neighbors[l] = this.selectNeighbors(candidates, maxConn);
+      }
+    }
+
+    if (this.entryPoint === idx) {
+      this.entryPoint = -1;
+      this.maxLevel = -1;
+      for (const i of this.idToIndex.values()) {
+        const candidate = this.nodes[i]!;
+        if (candidate.level > this.maxLevel) {
+          this.entryPoint = i;
+          this.maxLevel = candidate.level;
+        }
+      }
+    }
+
+    // Compact once tombstoned slots dominate
+    if (this.nodes.length > 64 && this.idToIndex.size < this.nodes.length / 2) {
+      this.compact();
+    }
+  }
+
+  search(
+    query: number[],
+    k: number,
+    filter?: (id: string) => boolean,
+  ): VectorSearchHit[] {
+    if (this.entryPoint === -1 || k <= 0) return [];
+
+    const q = normalize(query);
+    let ep = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) {
+      ep = this.greedyClosest(q, ep, l);
+    }
+
+    // Widen the beam until enough results pass the filter
+    let ef = Math.max(this.efSearch, k);
+    for (;;) {
+      const candidates = this.searchLayer(q, [ep], ef, 0);
+      const hits: VectorSearchHit[] = [];
+      for (const c of candidates) {
+        const id = this.nodes[c.index]!.id;
+        if (filter && !filter(id)) continue;
+        hits.push({ id, score: 1 - c.distance });
+        if (hits.length === k) break;
+      }
+
+      if (hits.length >= k || ef >= this.size) return hits;
+      ef *= 2;
+    }
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.idToIndex.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph internals
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Greedy walk to the closest node on a layer (ef = 1)
+   */
+  private greedyClosest(q: Float64Array, start: number, layer: number): number {
+    let current = start;
+    let currentDist = distance(q, this.nodes[current]!.vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const n of this.nodes[current]!.neighbors[layer] ?? []) {
+        const neighbor = this.nodes[n];
+        if (!neighbor) continue;
+        const d = distance(q, neighbor.vector);
+        if (d < currentDist) {
+          current = n;
+          currentDist = d;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Beam search on one layer. Returns up to ef candidates, closest first.
+   */
+  private searchLayer(
+    q: Float64Array,
+    entryPoints: number[],
+    ef: number,
+    layer: number,
+  ): Candidate[] {
+    const visited = new Set<number>();
+    const candidates = new BinaryHeap<Candidate>(
+      (a, b) => a.distance < b.distance,
+    );
+    const results = new BinaryHeap<Candidate>(
+      (a, b) => a.distance > b.distance,
+    );
+
+    for (const ep of entryPoints) {
+      const node = this.nodes[ep];
+      if (!node || visited.has(ep)) continue;
+      visited.add(ep);
+      const entry = { index: ep, distance: distance(q, node.vector) };
+      candidates.push(entry);
+      results.push(entry);
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.distance > results.peek()!.distance) {
+        break;
+      }
+
+      for (const n of this.nodes[closest.index]!.neighbors[layer] ?? []) {
+        if (visited.has(n)) continue;
+        visited.add(n);
+        const neighbor = this.nodes[n];
+        if (!neighbor) continue;
+
+        const d = distance(q, neighbor.vector);
+        if (results.size < ef || d < results.peek()!.distance) {
+          const entry = { index: n, distance: d };
+          candidates.push(entry);
+          results.push(entry);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Neighbour selection heuristic (Algorithm 4): prefer candidates that are
+   * closer to the base node than to any already selected neighbour, then
+   * fill remaining slots with the closest pruned candidates.
+   */
+  private selectNeighbors(
+    candidates: Candidate[],
+    max: number,
+  ): number[] {
+    const selected: number[] = [];
+    const pruned: number[] = [];
+
+    for (const c of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.nodes[c.index]!.vector;
+      const diverse = selected.every(
+        (s) => distance(vector, this.nodes[s]!.vector) > c.distance,
+      );
+      if (diverse) selected.push(c.index);
+      else pruned.push(c.index);
+    }
+
+    for (const p of pruned) {
+      if (selected.length >= max) break;
+      selected.push(p);
+    }
+
+    return selected;
+  }
+
+  /**
+   * Trim a node's connections on a layer back to maxConn
+   */
+  private shrinkConnections(idx: number, layer: number, maxConn: number): void {
+    const node = this.nodes[idx]!;
+    const candidates = node.neighbors[layer]
+      .filter((n) => this.nodes[n])
+      .map((n) => ({
+        index: n,
+        distance: distance(node.vector, this.nodes[n]!.vector),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+    node.neighbors[layer] = this.selectNeighbors(candidates, maxConn);
+  }
+
+  /**
+   * Drop tombstoned slots and renumber internal indices
+   */
+  private compact(): void {
+    const remap = new Map<number, number>();
+    const nodes: HNSWNode[] = [];
+
+    this.nodes.forEach((node, i) => {
+      if (!node) return;
+      remap.set(i, nodes.length);
+      nodes.push(node);
+    });
+
+    for (const node of nodes) {
+      node.neighbors = node.neighbors.map((layer) =>
+        layer.filter((n) => remap.has(n)).map((n) => remap.get(n)!),
+      );
+    }
+
+    this.nodes = nodes;
+    this.idToIndex = new Map(nodes.map((n, i) => [n.id, i]));
+    this.entryPoint =
+      this.entryPoint === -1 ? -1 : (remap.get(this.entryPoint) ?? -1);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Cosine distance between two L2-normalized vectors
+ */
+function distance(a: Float64Array, b: Float64Array): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions must match: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return 1 - dot;
+}
+
+function normalize(vector: number[]): Float64Array {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+
+  const out = new Float64Array(vector.length);
+  if (norm === 0) return out; // Zero vector: similarity 0 to everything
+  for (let i = 0; i < vector.length; i++) {
+    out[i] = vector[i] / norm;
+  }
+  return out;
+}
+
+/**
+ * Small deterministic PRNG for reproducible level assignment
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Binary heap ordered by `before` (true when a should pop before b)
+ */
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) {
+          next = left;
+        }
+        if (right < items.length && this.before(items[right], items[next])) {
+          next = right;
+        }
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
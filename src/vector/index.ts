@@ -0,0 +1,6 @@
+/**
+ * Vector index module exports
+ */
+
+export * from "./brute-force.js";
+export * from "./hnsw.js";